@@ -1,4 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
+import { flushSync } from 'react-dom';
 import { 
   Calculator, 
   Clock, 
@@ -6,827 +7,1010 @@ import {
   AlertTriangle, 
   CheckCircle2, 
   TrendingUp, 
-  DollarSign, 
-  BarChart3, 
-  PieChart as PieChartIcon,
   RotateCcw,
-  Building2,
-  ExternalLink
+  Link2,
+  Check,
+  LayoutDashboard,
+  GitCompare,
+  FileDown,
+  SlidersHorizontal,
+  CalendarRange,
+  Upload,
+  Dices,
+  Wand2,
+  Undo2,
+  Redo2,
+  History,
+  Target
 } from 'lucide-react';
-import { 
-  BarChart, 
-  Bar, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  Legend, 
-  ResponsiveContainer, 
-  PieChart, 
-  Pie, 
-  Cell,
-  LabelList
-} from 'recharts';
-
-// --- Constants & Identity ---
-const BRAND = {
-  BLUE: '#003366',      // Deep Royal Blue
-  BLUE_DARK: '#002244', // Darker shade for gradients
-  ORANGE: '#FF6600',    // Vibrant Orange
-  ORANGE_LIGHT: '#FF8533',
-  GRAY_BG: '#f3f4f6',
+import { calculateDiagnostic, CalculationResult, DEFAULT_INPUTS, DiagnosticInputs, INPUT_RANGES, MODEL_VERSION, resolveCoefficients } from './engine/diagnostic';
+import { calculateChannels, ChannelInputKey, DEFAULT_CHANNELS, getBlendedInputs, LeadChannel } from './engine/channels';
+import { calculateTeam, createRepId, DEFAULT_TEAM, getTeamBlendedInputs, RepInputKey, SalesRep } from './engine/team';
+import { calculateFunnel, DEFAULT_FUNNEL, FunnelRates, getFunnelConversion, scaleResponseGaps } from './engine/funnel';
+import { analyzeCadence, CadenceTouch, clampCadenceDay, createTouchId, DEFAULT_CADENCE, getCadenceFollowUps } from './engine/cadence';
+import { AcquisitionCosts, calculateAcquisition, DEFAULT_ACQUISITION_COSTS } from './engine/acquisition';
+import { DEFAULT_GOAL_SEEK_OPTIONS, GoalSeekOptions, seekGoal } from './engine/goalSeek';
+import {
+  applyProjectedAnnuals,
+  buildProjection,
+  DEFAULT_PROJECTION_OPTIONS,
+  getSeasonalYearWeight,
+  ProjectionOptions,
+} from './engine/projection';
+import {
+  applyResponseDistribution,
+  DEFAULT_RESPONSE_DISTRIBUTION,
+  getMedianResponseMinutes,
+  ResponseDistribution,
+} from './engine/responseDistribution';
+import { DEFAULT_UNCERTAINTY, SimulationSummary, UncertaintyOptions } from './engine/monteCarlo';
+import { compareScenarios, createDefaultScenarios, DEFAULT_TARGET_OPERATION } from './engine/scenarios';
+import { Logo } from './components/Logo';
+import { SliderInput, TimeSliderInput } from './components/SliderInput';
+import { DiagnosticDashboard } from './components/DiagnosticDashboard';
+import { DiagnosticWizard, WizardAnswers } from './components/DiagnosticWizard';
+import { ChannelInputs } from './components/ChannelInputs';
+import { ChannelBreakdownChart } from './components/ChannelBreakdownChart';
+import { TeamInputs } from './components/TeamInputs';
+import { TeamRanking } from './components/TeamRanking';
+import { FunnelInputs } from './components/FunnelInputs';
+import { FunnelChart } from './components/FunnelChart';
+import { DistributionInputs } from './components/DistributionInputs';
+import { ResponseBucketsChart } from './components/ResponseBucketsChart';
+import { ScenarioComparison } from './components/ScenarioComparison';
+import { DiagnosticReport } from './components/DiagnosticReport';
+import { SensitivityPanel } from './components/SensitivityPanel';
+import { ProjectionPanel } from './components/ProjectionPanel';
+import { GoalSeekPanel } from './components/GoalSeekPanel';
+import { AcquisitionInputs } from './components/AcquisitionInputs';
+import { CadenceInputs } from './components/CadenceInputs';
+import { CadenceChart } from './components/CadenceChart';
+import { UncertaintyPanel } from './components/UncertaintyPanel';
+import { LeadCaptureModal } from './components/LeadCaptureModal';
+import { CrmImportModal } from './components/CrmImportModal';
+import { HistoryDrawer } from './components/HistoryDrawer';
+import { LossAnnouncer } from './components/LossAnnouncer';
+import { NoticeBanner } from './components/NoticeBanner';
+import { RichText } from './components/RichText';
+import { flushLeadQueue } from './services/leadCapture';
+import { deleteSavedDiagnostic, getSavedDiagnostics, readAutosave, saveDiagnostic, SavedDiagnostic, writeAutosave } from './services/history';
+import { runSimulation } from './services/simulation';
+import { EvidenceTag } from './data/evidence';
+import { getSegmentPreset, SEGMENT_PRESETS } from './data/segmentPresets';
+import { CURRENCIES, CurrencyCode, Locale, LOCALES, MessageKey } from './i18n';
+import { useI18n } from './i18n/I18nProvider';
+import { useTheme } from './theme/ThemeProvider';
+import { rankEvidence } from './utils/evidence';
+import { getInputLabel } from './utils/inputs';
+import { createUndoStack, pushUndo, redo, undo } from './utils/undoStack';
+import { buildShareUrl, copyToClipboard, DiagnosticState, hasStateInSearch, parseGuidedFromSearch, parseStateFromSearch, replaceUrlInputs, serializeInputs } from './utils/shareLink';
+
+// --- Views ---
+
+type View = 'dashboard' | 'compare' | 'goal' | 'sensitivity' | 'projection' | 'uncertainty';
+
+const VIEWS: { id: View; label: MessageKey; icon: typeof LayoutDashboard }[] = [
+  { id: 'dashboard', label: 'views.dashboard', icon: LayoutDashboard },
+  { id: 'compare', label: 'views.compare', icon: GitCompare },
+  { id: 'goal', label: 'views.goal', icon: Target },
+  { id: 'sensitivity', label: 'views.sensitivity', icon: SlidersHorizontal },
+  { id: 'projection', label: 'views.projection', icon: CalendarRange },
+  { id: 'uncertainty', label: 'views.uncertainty', icon: Dices },
+];
+
+const SIMULATION_DEBOUNCE_MS = 300;
+// Long enough for the dashboard's staggered entrance after the wizard
+const REVEAL_DURATION_MS = 2000;
+const UNDO_DEBOUNCE_MS = 500;
+
+// Icon and accent per evidence card, by the item's first tag
+const EVIDENCE_CARD_STYLES: Record<EvidenceTag, { icon: typeof Phone; iconClassName: string }> = {
+  'follow-up': { icon: Phone, iconClassName: 'bg-blue-50 text-primary group-hover:bg-primary' },
+  'response-time': { icon: Clock, iconClassName: 'bg-emerald-50 text-emerald-600 group-hover:bg-emerald-600' },
+  general: { icon: TrendingUp, iconClassName: 'bg-purple-50 text-purple-600 group-hover:bg-purple-600' },
 };
 
-// --- Types & Interfaces ---
-
-interface CalculationResult {
-  currentSales: number;
-  currentRevenue: number;
-  annualRevenue: number;
-  
-  followUpStatus: 'CRITICAL' | 'WARNING' | 'ADEQUATE';
-  followUpLossSales: number;
-  followUpLossRevenue: number;
-  followUpLossAnnual: number;
-  followUpFactor: number;
-  
-  responseStatus: 'CRITICAL' | 'WARNING' | 'IMPROVE' | 'GOOD' | 'EXCELLENT';
-  responseLossSales: number;
-  responseLossRevenue: number;
-  responseLossAnnual: number;
-  responseFactor: number;
-  
-  totalLossSales: number;
-  totalLossRevenue: number;
-  totalLossAnnual: number;
-  efficiency: number;
-}
-
-// --- Utils ---
-
-const formatCurrency = (value: number) => {
-  return new Intl.NumberFormat('pt-BR', {
-    style: 'currency',
-    currency: 'BRL',
-    maximumFractionDigits: 0,
-  }).format(value);
-};
+const EVIDENCE_CARD_COUNT = 3;
 
-const formatTime = (minutes: number) => {
-  if (minutes < 60) return `${minutes} min`;
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
-  return mins > 0 ? `${hours}h ${mins}min` : `${hours}h`;
-};
+// --- Main App ---
 
-// --- Components ---
+const App: React.FC = () => {
+  const i18n = useI18n();
+  const { t, locale, intlLocale, currency, currencySymbol, formatCurrency, setLocale, setCurrency } = i18n;
+  const theme = useTheme();
 
-const Logo = () => (
-  <div className="flex items-center select-none shadow-sm scale-90 sm:scale-100 origin-left">
-    <div className="h-10 px-4 flex items-center rounded-l-lg bg-[#003366]">
-      <span className="text-white font-bold text-2xl tracking-tighter pb-1 font-sans leading-none">abil</span>
-    </div>
-    <div className="h-10 px-3 flex items-center rounded-r-lg bg-[#FF6600]">
-      <span className="text-white font-bold text-lg font-sans leading-none">CRM</span>
-    </div>
-  </div>
-);
-
-const SliderInput = ({ 
-  label, 
-  value, 
-  onChange, 
-  min, 
-  max, 
-  step, 
-  unit = '', 
-  prefix = '', 
-  highlightColor = 'blue' 
-}: {
-  label: string;
-  value: number;
-  onChange: (val: number) => void;
-  min: number;
-  max: number;
-  step: number;
-  unit?: string;
-  prefix?: string;
-  highlightColor?: 'blue' | 'orange';
-}) => {
-  const percentage = ((value - min) / (max - min)) * 100;
-  const safePercentage = Math.min(100, Math.max(0, percentage));
-  
-  // Dynamic styles based on brand colors
-  const activeColor = highlightColor === 'orange' ? BRAND.ORANGE : BRAND.BLUE;
-  const textColorClass = highlightColor === 'orange' ? 'text-[#FF6600]' : 'text-[#003366]';
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let val = Number(e.target.value);
-    if (val > max) val = max;
-    onChange(val);
-  };
+  // --- State ---
+  // Initial state comes from the shared link, if any, or else from the last visit's autosave
+  const [initialState] = useState(() => {
+    const { search } = window.location;
+    return parseStateFromSearch(hasStateInSearch(search) ? search : readAutosave() ?? '');
+  });
+  const [leads, setLeads] = useState(initialState.inputs.leads);
+  const [conversion, setConversion] = useState(initialState.inputs.conversion);
+  const [ticket, setTicket] = useState(initialState.inputs.ticket);
+  const [followUps, setFollowUps] = useState(initialState.inputs.followUps);
+  const [responseTime, setResponseTime] = useState(initialState.inputs.responseTime);
+  // Industry preset for thresholds, coefficients and advice; null uses the generic benchmarks
+  const [segment, setSegment] = useState<string | null>(initialState.segment);
+  // Advanced modes, null when off. They are mutually exclusive: channels and reps have their own conversion rates.
+  const [channels, setChannels] = useState<LeadChannel[] | null>(initialState.channels);
+  const [team, setTeam] = useState<SalesRep[] | null>(initialState.team);
+  const [funnel, setFunnel] = useState<FunnelRates | null>(initialState.funnel);
+  // Replaces the average response time; not used in channel or team mode, where each part has its own time
+  const [responseDistribution, setResponseDistribution] = useState<ResponseDistribution | null>(initialState.responseDistribution);
+  // Replaces the follow-up count; not used in team mode, where each rep has their own count
+  const [cadence, setCadence] = useState<CadenceTouch[] | null>(initialState.cadence);
+  // Optional marketing and sales costs, null when off; they work with every mode
+  const [costs, setCosts] = useState<AcquisitionCosts | null>(initialState.costs);
+  // Guided wizard, one question at a time; the slider layout is the expert view
+  const [guided, setGuided] = useState(() => parseGuidedFromSearch(window.location.search));
+  // Inputs the wizard filled in with segment averages, pointed out until dismissed
+  const [estimatedInputs, setEstimatedInputs] = useState<(keyof DiagnosticInputs)[]>([]);
+  const [revealResults, setRevealResults] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [savedDiagnostics, setSavedDiagnostics] = useState(getSavedDiagnostics);
+  // Saved diagnostic last reopened from the history, pointed out until dismissed
+  const [reopened, setReopened] = useState<SavedDiagnostic | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [view, setView] = useState<View>('dashboard');
+  // Names the user has typed; untouched scenarios keep the translated default
+  const [scenarioNames, setScenarioNames] = useState<{ baseline?: string; target?: string }>({});
+  const [targetOperation, setTargetOperation] = useState(DEFAULT_TARGET_OPERATION);
+  const [projectionOptions, setProjectionOptions] = useState<ProjectionOptions>(() => ({
+    ...DEFAULT_PROJECTION_OPTIONS,
+    startMonth: new Date().getMonth(),
+  }));
+  const [goalOptions, setGoalOptions] = useState<GoalSeekOptions>(DEFAULT_GOAL_SEEK_OPTIONS);
+  // Monte Carlo ranges; like the other analysis views, they run on the single input set
+  const [uncertainty, setUncertainty] = useState<UncertaintyOptions>(DEFAULT_UNCERTAINTY);
+  const [simulation, setSimulation] = useState<SimulationSummary | null>(null);
+  const [simulationRunning, setSimulationRunning] = useState(false);
+  // Set while the browser is printing; the report is only mounted then
+  const [reportDate, setReportDate] = useState<Date | null>(null);
+  const [leadModalOpen, setLeadModalOpen] = useState(false);
+  const [importModalOpen, setImportModalOpen] = useState(false);
+
+  // Covers both the export button and the browser's own print command (Ctrl+P)
+  useEffect(() => {
+    const handleBeforePrint = () => flushSync(() => setReportDate(new Date()));
+    const handleAfterPrint = () => setReportDate(null);
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+
+  // Retry lead submissions that failed in this or a previous visit
+  useEffect(() => {
+    flushLeadQueue();
+    const interval = window.setInterval(flushLeadQueue, 60000);
+    window.addEventListener('online', flushLeadQueue);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', flushLeadQueue);
+    };
+  }, []);
 
-  return (
-    <div className="mb-6 group">
-      <div className="flex justify-between items-center mb-2">
-        <label className="text-gray-700 font-medium text-sm">{label}</label>
-        <div className="flex items-center gap-1">
-            {prefix && <span className={`text-base font-bold ${textColorClass}`}>{prefix}</span>}
-            <input 
-                type="number" 
-                value={value}
-                onChange={handleInputChange}
-                min={min}
-                max={max}
-                className={`text-base font-bold ${textColorClass} w-20 text-right bg-transparent border-b border-gray-300 focus:border-[#003366] focus:outline-none transition-colors`}
-            />
-            {unit && <span className={`text-base font-bold ${textColorClass}`}>{unit}</span>}
-        </div>
-      </div>
-      
-      <div className="relative h-6 flex items-center">
-        {/* Track */}
-        <div className="w-full h-1.5 bg-gray-200 rounded-lg relative overflow-hidden pointer-events-none">
-          <div 
-            className="absolute h-full rounded-lg" 
-            style={{ width: `${safePercentage}%`, backgroundColor: activeColor }}
-          ></div>
-        </div>
-        
-        <input 
-          type="range" 
-          min={min} 
-          max={max} 
-          step={step} 
-          value={value} 
-          onChange={(e) => onChange(Number(e.target.value))}
-          className="absolute w-full h-full opacity-0 cursor-pointer z-30 top-0 left-0 appearance-none m-0 p-0"
-        />
-        
-        {/* Thumb */}
-        <div 
-          className="absolute h-4 w-4 bg-white border-2 rounded-full shadow-md pointer-events-none z-20 transition-transform group-hover:scale-110"
-          style={{ 
-            left: `calc(${safePercentage}% - 8px)`,
-            borderColor: activeColor 
-          }}
-        ></div>
-      </div>
-    </div>
+  useEffect(() => {
+    document.title = `${theme.productName} - ${t('app.title')}`;
+  }, [theme.productName, t]);
+
+  useEffect(() => {
+    if (!revealResults) return;
+    const timeout = window.setTimeout(() => setRevealResults(false), REVEAL_DURATION_MS);
+    return () => window.clearTimeout(timeout);
+  }, [revealResults]);
+
+  useEffect(() => {
+    if (!linkCopied) return;
+    const timeout = window.setTimeout(() => setLinkCopied(false), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [linkCopied]);
+
+  // --- Calculations ---
+  // Single-channel slider values; kept while channel mode is on so turning it off restores them
+  const baseInputs: DiagnosticInputs = useMemo(
+    () => ({ leads, conversion, ticket, followUps, responseTime }),
+    [leads, conversion, ticket, followUps, responseTime]
+  );
+  const preset = getSegmentPreset(segment);
+  // Segment benchmarks, with `monthsPerYear` matching the seasonal series for the engines that annualize with it
+  const coefficients = useMemo(
+    () => resolveCoefficients({ ...preset?.coefficients, monthsPerYear: getSeasonalYearWeight(projectionOptions.seasonality) }),
+    [preset, projectionOptions.seasonality]
+  );
+  // A cadence stands in for the follow-up slider as its effective attempt count
+  const modelFollowUps = useMemo(() => (cadence ? getCadenceFollowUps(cadence) : followUps), [cadence, followUps]);
+  const operationInputs = useMemo(() => ({ ...baseInputs, followUps: modelFollowUps }), [baseInputs, modelFollowUps]);
+  const breakdown = useMemo(
+    () => (channels ? calculateChannels(channels, { ticket, followUps: modelFollowUps }, coefficients) : null),
+    [channels, ticket, modelFollowUps, coefficients]
+  );
+  const teamBreakdown = useMemo(
+    () => (team ? calculateTeam(team, { ticket }, coefficients) : null),
+    [team, ticket, coefficients]
+  );
+  const funnelResult = useMemo(
+    () => (funnel ? calculateFunnel(operationInputs, funnel, coefficients) : null),
+    [operationInputs, funnel, coefficients]
+  );
+  // Views that work on a single input set (advice, scenarios, sensitivity, report) get the blended
+  // channel mix or team, or the funnel's overall conversion, the median time of a response distribution
+  // and the cadence's effective attempts
+  const inputs: DiagnosticInputs = useMemo(() => {
+    if (channels) return getBlendedInputs(channels, { ticket, followUps: modelFollowUps });
+    if (team) return getTeamBlendedInputs(team, { ticket });
+    const singleInputs = responseDistribution
+      ? { ...operationInputs, responseTime: getMedianResponseMinutes(responseDistribution) }
+      : operationInputs;
+    if (funnel) return { ...singleInputs, conversion: getFunnelConversion(funnel) };
+    return singleInputs;
+  }, [channels, team, funnel, responseDistribution, operationInputs, ticket, modelFollowUps]);
+  // In these modes the headline result comes from its own model, so anything run on `inputs` only approximates it
+  const approximated = channels !== null || team !== null || funnel !== null || responseDistribution !== null;
+  const modelResult = useMemo(
+    () => breakdown?.total ?? teamBreakdown?.total ?? funnelResult?.result ?? calculateDiagnostic(inputs, coefficients),
+    [breakdown, teamBreakdown, funnelResult, inputs, coefficients]
+  );
+  const distributionResult = useMemo(
+    () => (responseDistribution && !channels && !team ? applyResponseDistribution(modelResult, responseDistribution, coefficients) : null),
+    [modelResult, responseDistribution, channels, team, coefficients]
+  );
+  const funnelStages = useMemo(
+    () => funnelResult && (distributionResult ? scaleResponseGaps(funnelResult.stages, distributionResult.scale) : funnelResult.stages),
+    [funnelResult, distributionResult]
+  );
+  // Annual figures come from the seasonal 12-month series rather than monthly × 12
+  const result: CalculationResult = useMemo(
+    () => applyProjectedAnnuals(distributionResult?.result ?? modelResult, projectionOptions),
+    [distributionResult, modelResult, projectionOptions]
+  );
+  // Studies backing the weakest area first; shared by the dashboard cards and the report
+  const evidence = useMemo(() => rankEvidence({ result, locale, segment }), [result, locale, segment]);
+  useEffect(() => {
+    replaceUrlInputs(baseInputs, { channels, funnel, responseDistribution, team, cadence, costs, segment, guided });
+  }, [baseInputs, channels, funnel, responseDistribution, team, cadence, costs, segment, guided]);
+
+  // The whole diagnostic as a share-link query; what gets autosaved, saved and undone
+  const stateQuery = useMemo(
+    () => serializeInputs(baseInputs, '', { channels, funnel, responseDistribution, team, cadence, costs, segment }),
+    [baseInputs, channels, funnel, responseDistribution, team, cadence, costs, segment]
+  );
+  const [undoStack, setUndoStack] = useState(() => createUndoStack(stateQuery));
+
+  useEffect(() => {
+    writeAutosave(stateQuery);
+  }, [stateQuery]);
+
+  // Debounced so a slider drag becomes a single undo step
+  useEffect(() => {
+    if (stateQuery === undoStack.present) return;
+    const timeout = window.setTimeout(() => setUndoStack((prev) => pushUndo(prev, stateQuery)), UNDO_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [stateQuery, undoStack.present]);
+
+  // Debounced so dragging a slider doesn't queue a simulation per step
+  useEffect(() => {
+    let cancelled = false;
+    setSimulationRunning(true);
+    const timeout = window.setTimeout(async () => {
+      const summary = await runSimulation(inputs, uncertainty, coefficients);
+      if (cancelled || !summary) return;
+      setSimulation(summary);
+      setSimulationRunning(false);
+    }, SIMULATION_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [inputs, uncertainty, coefficients]);
+
+  const comparison = useMemo(() => {
+    const [baseline, target] = createDefaultScenarios(inputs, {
+      baseline: scenarioNames.baseline ?? t('scenarios.baselineName'),
+      target: scenarioNames.target ?? t('scenarios.targetName'),
+    });
+    return compareScenarios(baseline, { ...target, inputs: { ...inputs, ...targetOperation } }, coefficients);
+  }, [inputs, scenarioNames, targetOperation, coefficients, t]);
+
+  const projection = useMemo(
+    () => buildProjection(result, comparison.deltas.monthlyRevenue, projectionOptions),
+    [result, comparison, projectionOptions]
   );
-};
 
-const TimeSliderInput = ({ 
-  value, 
-  onChange 
-}: {
-  value: number;
-  onChange: (val: number) => void;
-}) => {
-  const MAX_MINUTES = 180;
-  const percentage = ((value - 1) / (MAX_MINUTES - 1)) * 100;
-  const safePercentage = Math.min(100, Math.max(0, percentage));
-
-  const markers = [
-    { val: 5, label: '5m', color: 'bg-green-500' },
-    { val: 30, label: '30m', color: 'bg-yellow-500' },
-    { val: 60, label: '1h', color: 'bg-orange-500' },
-    { val: 180, label: '3h', color: 'bg-red-500' },
-  ];
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let val = Number(e.target.value);
-    if (val > MAX_MINUTES) val = MAX_MINUTES;
-    onChange(val);
+  const cadenceAnalysis = useMemo(
+    () => (cadence && !team ? analyzeCadence(cadence, inputs, coefficients) : null),
+    [cadence, team, inputs, coefficients]
+  );
+  const acquisition = useMemo(
+    () => (costs ? calculateAcquisition(result, inputs.leads, costs, coefficients) : null),
+    [result, inputs.leads, costs, coefficients]
+  );
+
+  const goal = useMemo(() => seekGoal(inputs, goalOptions, coefficients), [inputs, goalOptions, coefficients]);
+
+  const applyInputs = (values: Partial<DiagnosticInputs>) => {
+    if (values.leads !== undefined) setLeads(values.leads);
+    if (values.conversion !== undefined) setConversion(values.conversion);
+    if (values.ticket !== undefined) setTicket(values.ticket);
+    if (values.followUps !== undefined) setFollowUps(values.followUps);
+    if (values.responseTime !== undefined) setResponseTime(values.responseTime);
   };
 
-  return (
-    <div className="mb-6 group">
-      <div className="flex justify-between items-center mb-2">
-        <label className="text-gray-700 font-medium text-sm">Tempo médio de resposta</label>
-        <div className="flex flex-col items-end">
-            <div className="flex items-center gap-1">
-                <input 
-                    type="number" 
-                    value={value}
-                    onChange={handleInputChange}
-                    min={1}
-                    max={MAX_MINUTES}
-                    className="text-base font-bold text-[#003366] w-16 text-right bg-transparent border-b border-gray-300 focus:border-[#003366] focus:outline-none"
-                />
-                <span className="text-base font-bold text-[#003366]">min</span>
-            </div>
-            <span className="text-[10px] text-gray-500 font-medium mt-0.5">{formatTime(value)}</span>
-        </div>
-      </div>
-      
-      <div className="relative h-10">
-        <div className="absolute top-1/2 left-0 w-full transform -translate-y-1/2 h-2.5 bg-gray-200 rounded-lg overflow-hidden pointer-events-none">
-          {/* Zones */}
-          <div className="absolute h-full w-full flex opacity-30">
-             {/* 0-5m: Green */}
-             <div className="h-full bg-green-500" style={{ width: `${(5/MAX_MINUTES)*100}%` }}></div>
-             {/* 5-30m: Yellow (30-5 = 25) */}
-             <div className="h-full bg-yellow-400" style={{ width: `${(25/MAX_MINUTES)*100}%` }}></div>
-             {/* 30-60m: Orange (60-30 = 30) */}
-             <div className="h-full bg-orange-500" style={{ width: `${(30/MAX_MINUTES)*100}%` }}></div>
-             {/* 60-180m: Red (Remainder) */}
-             <div className="h-full bg-red-500 flex-grow"></div>
-          </div>
-          
-          {/* Fill */}
-          <div 
-            className="absolute h-full bg-[#003366] opacity-80" 
-            style={{ width: `${safePercentage}%` }}
-          ></div>
-        </div>
+  const applyState = (state: DiagnosticState) => {
+    applyInputs(state.inputs);
+    setChannels(state.channels);
+    setTeam(state.team);
+    setFunnel(state.funnel);
+    setCadence(state.cadence);
+    setCosts(state.costs);
+    setResponseDistribution(state.responseDistribution);
+    setSegment(state.segment);
+  };
 
-        {markers.map((m) => (
-          <div key={m.label} className="absolute top-6 flex flex-col items-center transform -translate-x-1/2 pointer-events-none" style={{ left: `${(m.val / MAX_MINUTES) * 100}%` }}>
-            <div className={`w-0.5 h-1.5 ${m.color} mb-0.5 rounded-sm`}></div>
-            <span className="text-[9px] text-gray-500 font-semibold">{m.label}</span>
-          </div>
-        ))}
-
-        <input 
-          type="range" 
-          min={1} 
-          max={MAX_MINUTES} 
-          step={1} 
-          value={value} 
-          onChange={(e) => onChange(Number(e.target.value))}
-          className="absolute w-full h-full opacity-0 cursor-pointer z-30 top-0 left-0 appearance-none m-0 p-0"
-        />
-        
-        <div 
-          className="absolute h-5 w-5 bg-white border-2 border-[#003366] rounded-full shadow-lg pointer-events-none z-20 transition-transform hover:scale-110"
-          style={{ 
-              left: `calc(${safePercentage}% - 10px)`,
-              top: '50%',
-              transform: 'translateY(-50%)' 
-          }}
-        ></div>
-      </div>
-    </div>
-  );
-};
+  // A change still waiting for the debounce counts as the present state
+  const canUndo = undoStack.past.length > 0 || stateQuery !== undoStack.present;
+  const canRedo = undoStack.future.length > 0 && stateQuery === undoStack.present;
 
-// --- Main App ---
+  const handleUndo = () => {
+    const stack = undo(pushUndo(undoStack, stateQuery));
+    setUndoStack(stack);
+    applyState(parseStateFromSearch(stack.present));
+  };
 
-const App: React.FC = () => {
-  // --- State ---
-  const [leads, setLeads] = useState(100);
-  const [conversion, setConversion] = useState(10);
-  const [ticket, setTicket] = useState(5000);
-  const [followUps, setFollowUps] = useState(3);
-  const [responseTime, setResponseTime] = useState(60); // Default changed to 60m
+  const handleRedo = () => {
+    const stack = redo(undoStack);
+    setUndoStack(stack);
+    applyState(parseStateFromSearch(stack.present));
+  };
 
-  // --- Calculations ---
-  const result: CalculationResult = useMemo(() => {
-    const currentSales = leads * (conversion / 100);
-    const currentRevenue = currentSales * ticket;
-    const annualRevenue = currentRevenue * 12;
-    
-    const nonConvertedLeads = leads - currentSales;
-
-    // Follow-up Logic
-    const safeFollowUps = Math.min(followUps, 10); 
-    const rawLossPercentage = 1 - (Math.log(safeFollowUps + 1) / Math.log(11));
-    const followUpLossFactor = Math.max(0, rawLossPercentage);
-
-    let followUpStatus: CalculationResult['followUpStatus'] = 'ADEQUATE';
-    if (followUpLossFactor > 0.60) followUpStatus = 'CRITICAL'; 
-    else if (followUpLossFactor >= 0.30) followUpStatus = 'WARNING'; 
-    else followUpStatus = 'ADEQUATE'; 
-
-    const maxFollowUpRecoverable = nonConvertedLeads * 0.50;
-    const followUpRecoverableLeads = maxFollowUpRecoverable * followUpLossFactor;
-    const followUpLossSales = followUpRecoverableLeads * 0.12;
-    const followUpLossRevenue = followUpLossSales * ticket;
-
-    // Response Time Logic
-    // 1. Calculate Factor (Sigmoid Logic - KEPT INTACT)
-    const k = 2.5;
-    const midpoint = 1.78; 
-    const timeLog = Math.log10(responseTime + 1);
-    const responseTimeLossFactor = 1 / (1 + Math.exp(-k * (timeLog - midpoint)));
-
-    // 2. Determine Status (Visual Logic - CHANGED)
-    let responseStatus: CalculationResult['responseStatus'];
-    if (responseTime <= 5) {
-      responseStatus = 'EXCELLENT';
-    } else if (responseTime <= 30) {
-      responseStatus = 'GOOD';
-    } else if (responseTime <= 60) {
-      responseStatus = 'WARNING';
-    } else {
-      responseStatus = 'CRITICAL';
+  const handleSaveDiagnostic = (name: string) => {
+    setSavedDiagnostics(saveDiagnostic(name, stateQuery, result));
+  };
+
+  // Saved inputs are recalculated with the current model
+  const handleOpenDiagnostic = (record: SavedDiagnostic) => {
+    applyState(parseStateFromSearch(record.query));
+    setEstimatedInputs([]);
+    setReopened(record);
+    setView('dashboard');
+    setHistoryOpen(false);
+  };
+
+  const handleDeleteDiagnostic = (record: SavedDiagnostic) => {
+    if (!window.confirm(t('history.deleteConfirm', { name: record.name }))) return;
+    setSavedDiagnostics(deleteSavedDiagnostic(record.id));
+    setReopened((prev) => (prev?.id === record.id ? null : prev));
+  };
+
+  // Resets to the segment's typical values, if any. Undoable, but still confirmed.
+  const handleReset = () => {
+    if (!window.confirm(t('history.resetConfirm'))) return;
+    applyInputs({ ...DEFAULT_INPUTS, ...preset?.inputs });
+    setEstimatedInputs([]);
+    setChannels((prev) => (prev ? DEFAULT_CHANNELS : null));
+    setTeam((prev) => (prev ? DEFAULT_TEAM : null));
+    setFunnel((prev) => (prev ? DEFAULT_FUNNEL : null));
+    setCadence((prev) => (prev ? DEFAULT_CADENCE : null));
+    setCosts((prev) => (prev ? DEFAULT_ACQUISITION_COSTS : null));
+    setResponseDistribution((prev) => (prev ? DEFAULT_RESPONSE_DISTRIBUTION : null));
+  };
+
+  // Imported figures describe the whole operation, so they replace the advanced modes
+  const handleImport = (imported: Partial<DiagnosticInputs>) => {
+    applyInputs(imported);
+    setChannels(null);
+    setTeam(null);
+    setFunnel(null);
+    setResponseDistribution(null);
+    setCadence(null);
+    setImportModalOpen(false);
+  };
+
+  // Wizard answers describe a single-channel operation, like an import
+  const handleWizardComplete = (answers: WizardAnswers) => {
+    setSegment(answers.segment);
+    applyInputs(answers.inputs);
+    setChannels(null);
+    setTeam(null);
+    setFunnel(null);
+    setResponseDistribution(null);
+    setCadence(null);
+    setEstimatedInputs(answers.estimated);
+    setView('dashboard');
+    setRevealResults(true);
+    setGuided(false);
+  };
+
+  const handleSegmentChange = (id: string | null) => {
+    setSegment(id);
+    applyInputs({ ...DEFAULT_INPUTS, ...getSegmentPreset(id)?.inputs });
+  };
+
+  const handleChannelModeChange = (enabled: boolean) => {
+    setChannels(enabled ? DEFAULT_CHANNELS : null);
+    if (enabled) {
+      setTeam(null);
+      setFunnel(null);
+      setResponseDistribution(null);
     }
+  };
 
-    const maxResponseRecoverable = nonConvertedLeads * 0.60;
-    const responseRecoverableLeads = maxResponseRecoverable * responseTimeLossFactor;
-    const responseLossSales = responseRecoverableLeads * 0.15;
-    const responseLossRevenue = responseLossSales * ticket;
-
-    // Totals
-    const totalLossSales = followUpLossSales + responseLossSales;
-    const totalLossRevenue = followUpLossRevenue + responseLossRevenue;
-    
-    const totalPotentialSales = currentSales + totalLossSales;
-    const efficiency = totalPotentialSales > 0 ? (currentSales / totalPotentialSales) * 100 : 100;
-
-    return {
-      currentSales,
-      currentRevenue,
-      annualRevenue,
-      
-      followUpStatus,
-      followUpLossSales,
-      followUpLossRevenue,
-      followUpLossAnnual: followUpLossRevenue * 12,
-      followUpFactor: followUpLossFactor,
-
-      responseStatus,
-      responseLossSales,
-      responseLossRevenue,
-      responseLossAnnual: responseLossRevenue * 12,
-      responseFactor: responseTimeLossFactor,
-
-      totalLossSales,
-      totalLossRevenue,
-      totalLossAnnual: totalLossRevenue * 12,
-      efficiency
-    };
-  }, [leads, conversion, ticket, followUps, responseTime]);
-
-  // --- Chart Data ---
-  const barData = [
-    {
-      name: 'Vendas Atuais',
-      value: result.currentRevenue,
-      fill: BRAND.BLUE, 
-    },
-    {
-      name: 'Perda (Follow-up)',
-      value: result.followUpLossRevenue,
-      fill: BRAND.ORANGE_LIGHT, 
-    },
-    {
-      name: 'Perda (Tempo)',
-      value: result.responseLossRevenue,
-      fill: BRAND.ORANGE, 
-    },
-  ];
-
-  const pieData = [
-    { name: 'Perda por Follow-up', value: result.followUpLossAnnual, color: BRAND.ORANGE_LIGHT },
-    { name: 'Perda por Tempo', value: result.responseLossAnnual, color: BRAND.ORANGE },
-  ].filter(d => d.value > 0);
-
-  // --- Helpers for Styles ---
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'CRITICAL': return 'bg-red-600';
-      case 'WARNING': return 'bg-orange-500';
-      case 'IMPROVE': return 'bg-yellow-500'; // Legacy fallback
-      case 'GOOD': return 'bg-yellow-500';
-      case 'ADEQUATE': return 'bg-emerald-700';
-      case 'EXCELLENT': return 'bg-emerald-700';
-      default: return 'bg-gray-500';
+  const handleTeamModeChange = (enabled: boolean) => {
+    setTeam(enabled ? DEFAULT_TEAM : null);
+    if (enabled) {
+      setChannels(null);
+      setFunnel(null);
+      setResponseDistribution(null);
+      setCadence(null);
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case 'CRITICAL': return 'CRÍTICO';
-      case 'WARNING': return 'RUIM';
-      case 'IMPROVE': return 'MELHORAR';
-      case 'GOOD': return 'ATENÇÃO';
-      case 'ADEQUATE': return 'ADEQUADO';
-      case 'EXCELLENT': return 'ÓTIMO';
-      default: return '';
+  const handleFunnelModeChange = (enabled: boolean) => {
+    setFunnel(enabled ? DEFAULT_FUNNEL : null);
+    if (enabled) {
+      setChannels(null);
+      setTeam(null);
     }
   };
 
-  const handleReset = () => {
-    setLeads(100);
-    setConversion(10);
-    setTicket(5000);
-    setFollowUps(3);
-    setResponseTime(60);
+  const handleTouchChange = (id: string, patch: Partial<Omit<CadenceTouch, 'id'>>) => {
+    setCadence((prev) => prev && prev.map((touch) => (touch.id === id ? { ...touch, ...patch } : touch)));
+  };
+
+  // New touches go a few days after the last one
+  const handleTouchAdd = () => {
+    setCadence((prev) => {
+      if (!prev) return prev;
+      const lastDay = prev.reduce((max, touch) => Math.max(max, touch.day), 0);
+      return [...prev, { id: createTouchId(prev), day: clampCadenceDay(lastDay + 3), channel: 'call' }];
+    });
+  };
+
+  // The last touch stays: an empty cadence can't be kept in links, so it would turn cadence mode off
+  const handleTouchRemove = (id: string) => {
+    setCadence((prev) => (prev && prev.length > 1 ? prev.filter((touch) => touch.id !== id) : prev));
+  };
+
+  const handleChannelChange = (id: LeadChannel['id'], key: ChannelInputKey, value: number) => {
+    setChannels((prev) => prev && prev.map((c) => (c.id === id ? { ...c, [key]: value } : c)));
+  };
+
+  const handleRepChange = (id: string, key: RepInputKey, value: number) => {
+    setTeam((prev) => prev && prev.map((r) => (r.id === id ? { ...r, [key]: value } : r)));
+  };
+
+  const handleRepRename = (id: string, name: string) => {
+    setTeam((prev) => prev && prev.map((r) => (r.id === id ? { ...r, name } : r)));
+  };
+
+  // New reps start from the team's averages
+  const handleRepAdd = () => {
+    setTeam((prev) => {
+      if (!prev) return prev;
+      const average = getTeamBlendedInputs(prev, { ticket });
+      return [
+        ...prev,
+        {
+          id: createRepId(prev),
+          name: t('team.unnamed', { n: prev.length + 1 }),
+          leads: Math.round(average.leads / prev.length),
+          conversion: Math.round(average.conversion * 2) / 2,
+          followUps: Math.round(average.followUps),
+          responseTime: Math.round(average.responseTime),
+        },
+      ];
+    });
+  };
+
+  const handleRepRemove = (id: string) => {
+    setTeam((prev) => prev && (prev.length > 1 ? prev.filter((r) => r.id !== id) : prev));
+  };
+
+  // Themes can send the CTA to their own page instead of the built-in contact form
+  const handleCta = () => {
+    if (theme.cta.url) {
+      window.open(theme.cta.url, '_blank', 'noopener,noreferrer');
+    } else {
+      setLeadModalOpen(true);
+    }
+  };
+
+  const handleExportReport = () => {
+    flushSync(() => setReportDate(new Date()));
+    window.print();
+  };
+
+  const handleCopyLink = async () => {
+    const shareUrl = buildShareUrl(baseInputs, { channels, funnel, responseDistribution, team, cadence, costs, segment, guided });
+    try {
+      await copyToClipboard(shareUrl);
+      setLinkCopied(true);
+    } catch {
+      window.prompt(t('header.copyLinkPrompt'), shareUrl);
+    }
   };
 
   return (
-    <div className="min-h-screen lg:h-screen flex flex-col bg-gray-50 text-gray-800 font-sans overflow-x-hidden">
+    <div className="min-h-screen lg:h-screen flex flex-col bg-gray-50 text-gray-800 font-sans overflow-x-hidden print:block print:h-auto print:min-h-0 print:bg-white">
       {/* Navbar */}
-      <header className="bg-white shadow-sm border-b border-gray-100 shrink-0 z-50 h-16 lg:h-14 flex items-center">
+      <header className="print:hidden bg-white shadow-sm border-b border-gray-100 shrink-0 z-50 h-16 lg:h-14 flex items-center">
         <div className="w-full max-w-full px-4 sm:px-6 lg:px-8 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <Logo />
             <span className="hidden sm:block text-gray-300 text-2xl font-light">|</span>
-            <h1 className="hidden sm:block text-sm lg:text-base font-medium text-gray-600 tracking-tight">Diagnóstico Comercial</h1>
+            <h1 className="hidden sm:block text-sm lg:text-base font-medium text-gray-600 tracking-tight">{t('app.title')}</h1>
           </div>
           <div className="flex items-center gap-4">
+            <div className="hidden md:flex items-center gap-2">
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label={t('header.language')}
+                className="text-xs lg:text-sm text-gray-500 bg-transparent font-medium focus:outline-none focus:text-primary cursor-pointer"
+              >
+                {LOCALES.map((l) => (
+                  <option key={l.id} value={l.id}>{l.label}</option>
+                ))}
+              </select>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                aria-label={t('header.currency')}
+                className="text-xs lg:text-sm text-gray-500 bg-transparent font-medium focus:outline-none focus:text-primary cursor-pointer"
+              >
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo}
+              aria-label={t('header.undo')}
+              title={t('header.undo')}
+              className="text-gray-500 hover:text-primary disabled:opacity-30 disabled:hover:text-gray-500 transition-colors"
+            >
+              <Undo2 size={16} />
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!canRedo}
+              aria-label={t('header.redo')}
+              title={t('header.redo')}
+              className="text-gray-500 hover:text-primary disabled:opacity-30 disabled:hover:text-gray-500 transition-colors"
+            >
+              <Redo2 size={16} />
+            </button>
+            <button 
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center gap-2 text-xs lg:text-sm text-gray-500 hover:text-primary transition-colors font-medium"
+            >
+              <History size={14} /> {t('header.history')}
+            </button>
+            <button 
+              onClick={() => setGuided((prev) => !prev)}
+              className="flex items-center gap-2 text-xs lg:text-sm text-gray-500 hover:text-primary transition-colors font-medium"
+            >
+              {guided ? <SlidersHorizontal size={14} /> : <Wand2 size={14} />}
+              {guided ? t('header.expert') : t('header.guided')}
+            </button>
+            <button 
+              onClick={handleExportReport}
+              className="flex items-center gap-2 text-xs lg:text-sm text-gray-500 hover:text-primary transition-colors font-medium"
+            >
+              <FileDown size={14} /> {t('header.exportPdf')}
+            </button>
+            <button 
+              onClick={handleCopyLink}
+              className="flex items-center gap-2 text-xs lg:text-sm text-gray-500 hover:text-primary transition-colors font-medium"
+            >
+              {linkCopied ? <Check size={14} className="text-emerald-600" /> : <Link2 size={14} />}
+              {linkCopied ? t('header.linkCopied') : t('header.copyLink')}
+            </button>
             <button 
               onClick={handleReset}
-              className="flex items-center gap-2 text-xs lg:text-sm text-gray-500 hover:text-[#003366] transition-colors font-medium"
+              className="flex items-center gap-2 text-xs lg:text-sm text-gray-500 hover:text-primary transition-colors font-medium"
             >
-              <RotateCcw size={14} /> Resetar
+              <RotateCcw size={14} /> {t('header.reset')}
             </button>
           </div>
         </div>
       </header>
 
-      {/* Main Layout - Responsive Split */}
-      <main className="flex-1 flex flex-col lg:flex-row overflow-hidden relative">
+      {guided ? (
+        <main className="print:hidden flex-1 overflow-y-auto custom-scrollbar p-4 lg:p-8 bg-gray-50/50">
+          <DiagnosticWizard
+            initialSegment={segment}
+            onComplete={handleWizardComplete}
+            onExit={() => setGuided(false)}
+          />
+        </main>
+      ) : (
+        <>
+        {/* Main Layout - Responsive Split */}
+        <main className="print:hidden flex-1 flex flex-col lg:flex-row overflow-hidden relative">
         
-        {/* LEFT COLUMN: INPUTS (Fixed Sidebar on Desktop) */}
-        <div className="w-full lg:w-80 lg:shrink-0 bg-white border-r border-gray-100 overflow-y-auto custom-scrollbar p-6 lg:pb-24 z-10">
-          <h2 className="text-lg font-bold text-[#003366] mb-6 flex items-center gap-2">
-            <div className="bg-blue-50 p-1.5 rounded-lg">
-                <Calculator className="text-[#003366]" size={16} />
+          {/* LEFT COLUMN: INPUTS (Fixed Sidebar on Desktop) */}
+          <div className="w-full lg:w-80 lg:shrink-0 bg-white border-r border-gray-100 overflow-y-auto custom-scrollbar p-6 lg:pb-24 z-10">
+            <h2 className="text-lg font-bold text-primary mb-6 flex items-center gap-2">
+              <div className="bg-blue-50 p-1.5 rounded-lg">
+                  <Calculator className="text-primary" size={16} />
+              </div>
+              {t('sidebar.title')}
+            </h2>
+
+            <label className="block mb-4">
+              <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">{t('sidebar.segment')}</span>
+              <select
+                value={segment ?? ''}
+                onChange={(e) => handleSegmentChange(e.target.value || null)}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 focus:outline-none focus:border-primary"
+              >
+                <option value="">{t('segments.general')}</option>
+                {SEGMENT_PRESETS.map((p) => (
+                  <option key={p.id} value={p.id}>{t(`segments.${p.id}` as MessageKey)}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="flex flex-col gap-2 mb-6">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={channels !== null}
+                  onChange={(e) => handleChannelModeChange(e.target.checked)}
+                  className="accent-primary"
+                />
+                {t('sidebar.channelMode')}
+              </label>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={team !== null}
+                  onChange={(e) => handleTeamModeChange(e.target.checked)}
+                  className="accent-primary"
+                />
+                {t('sidebar.teamMode')}
+              </label>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={funnel !== null}
+                  onChange={(e) => handleFunnelModeChange(e.target.checked)}
+                  className="accent-primary"
+                />
+                {t('sidebar.funnelMode')}
+              </label>
+              <button
+                onClick={() => setImportModalOpen(true)}
+                className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary transition-colors w-fit"
+              >
+                <Upload size={14} /> {t('sidebar.importCsv')}
+              </button>
             </div>
-            Parâmetros
-          </h2>
-
-          <div className="space-y-6">
-            <SliderInput 
-              label="Leads recebidos/mês"
-              value={leads}
-              onChange={setLeads}
-              min={10}
-              max={5000}
-              step={10}
-              highlightColor="blue"
-            />
-            <SliderInput 
-              label="Taxa de conversão"
-              value={conversion}
-              onChange={setConversion}
-              min={0}
-              max={100}
-              step={0.5}
-              unit="%"
-              highlightColor="blue"
-            />
-            <SliderInput 
-              label="Ticket médio"
-              value={ticket}
-              onChange={setTicket}
-              min={50}
-              max={50000}
-              step={50}
-              prefix="R$ "
-              highlightColor="blue"
-            />
-            
-            <div className="border-t border-gray-100 pt-6">
-              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-4">Eficiência Operacional</h3>
+
+            <div className="space-y-6">
+              {channels ? (
+                <ChannelInputs channels={channels} onChange={handleChannelChange} />
+              ) : team ? (
+                <TeamInputs
+                  team={team}
+                  onChange={handleRepChange}
+                  onRename={handleRepRename}
+                  onAdd={handleRepAdd}
+                  onRemove={handleRepRemove}
+                />
+              ) : (
+                <>
+                  <SliderInput 
+                    label={t('inputs.leads')}
+                    value={leads}
+                    onChange={setLeads}
+                    min={INPUT_RANGES.leads.min}
+                    max={INPUT_RANGES.leads.max}
+                    step={INPUT_RANGES.leads.step}
+                    highlightColor="blue"
+                  />
+                  {funnel ? (
+                    <FunnelInputs
+                      rates={funnel}
+                      onChange={(key, val) => setFunnel((prev) => prev && { ...prev, [key]: val })}
+                    />
+                  ) : (
+                    <SliderInput 
+                      label={t('inputs.conversion')}
+                      value={conversion}
+                      onChange={setConversion}
+                      min={INPUT_RANGES.conversion.min}
+                      max={INPUT_RANGES.conversion.max}
+                      step={INPUT_RANGES.conversion.step}
+                      unit="%"
+                      highlightColor="blue"
+                    />
+                  )}
+                </>
+              )}
               <SliderInput 
-                label="Tentativas de follow-up"
-                value={followUps}
-                onChange={setFollowUps}
-                min={0}
-                max={10}
-                step={1}
-                highlightColor="orange"
+                label={t('inputs.ticket')}
+                value={ticket}
+                onChange={setTicket}
+                min={INPUT_RANGES.ticket.min}
+                max={INPUT_RANGES.ticket.max}
+                step={INPUT_RANGES.ticket.step}
+                prefix={`${currencySymbol} `}
+                highlightColor="blue"
               />
-              <TimeSliderInput 
-                value={responseTime}
-                onChange={setResponseTime}
-              />
-            </div>
-          </div>
-        </div>
-
-        {/* RIGHT COLUMN: RESULTS (Dashboard) */}
-        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 pb-32 lg:p-8 lg:pb-24 bg-gray-50/50">
-          <div className="max-w-7xl mx-auto space-y-6 lg:space-y-8">
             
-            {/* ROW 1: CURRENT DIAGNOSIS */}
-            <div className="bg-gradient-to-r from-[#003366] to-[#002244] rounded-xl shadow-sm p-6 lg:p-8 text-white relative overflow-hidden">
-              <div className="absolute right-0 top-0 h-full w-1/2 bg-gradient-to-l from-[#004488] to-transparent opacity-30"></div>
-              
-              <div className="flex flex-wrap items-center justify-between gap-6 relative z-10">
-                <div className="flex items-center gap-3">
-                  <div className="bg-white/10 p-2 rounded-lg backdrop-blur-sm">
-                    <TrendingUp size={24} className="text-blue-200" />
-                  </div>
-                  <div>
-                    <h2 className="text-lg font-bold text-white">Diagnóstico Atual</h2>
-                    <p className="text-blue-200 text-sm">Visão geral da sua performance</p>
-                  </div>
-                </div>
-                
-                <div className="flex flex-wrap items-center gap-8 lg:gap-12">
-                  <div>
-                    <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">Faturamento/mês</p>
-                    <p className="text-3xl lg:text-4xl font-bold tracking-tight">{formatCurrency(result.currentRevenue)}</p>
-                  </div>
-                  <div className="hidden sm:block w-px h-12 bg-white/10"></div>
-                  <div>
-                     <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">Vendas/mês</p>
-                     <p className="text-3xl lg:text-4xl font-bold tracking-tight">{result.currentSales.toFixed(1)}</p>
-                  </div>
-                  <div className="hidden sm:block w-px h-12 bg-white/10"></div>
-                  <div className="bg-white/10 rounded-xl px-5 py-2 backdrop-blur-sm border border-white/10">
-                    <p className="text-blue-200 text-xs uppercase tracking-wider font-bold mb-0.5">Projeção Anual</p>
-                    <p className="text-xl lg:text-2xl font-bold text-white">{formatCurrency(result.annualRevenue)}</p>
-                  </div>
+              {/* Reps have their own follow-up cadence and response time */}
+              {!team && (
+                <div className="border-t border-gray-100 pt-6">
+                  <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-4">{t('sidebar.operationalEfficiency')}</h3>
+                  <label className="flex items-center gap-2 text-xs font-medium text-gray-600 mb-4 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={cadence !== null}
+                      onChange={(e) => setCadence(e.target.checked ? DEFAULT_CADENCE : null)}
+                      className="accent-primary"
+                    />
+                    {t('sidebar.cadenceMode')}
+                  </label>
+                  {cadence ? (
+                    <CadenceInputs
+                      cadence={cadence}
+                      onChange={handleTouchChange}
+                      onAdd={handleTouchAdd}
+                      onRemove={handleTouchRemove}
+                    />
+                  ) : (
+                    <SliderInput 
+                      label={t('inputs.followUps')}
+                      value={followUps}
+                      onChange={setFollowUps}
+                      min={INPUT_RANGES.followUps.min}
+                      max={INPUT_RANGES.followUps.max}
+                      step={INPUT_RANGES.followUps.step}
+                      highlightColor="orange"
+                    />
+                  )}
+                  {!channels && (
+                    <>
+                      <label className="flex items-center gap-2 text-xs font-medium text-gray-600 mb-4 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={responseDistribution !== null}
+                          onChange={(e) => setResponseDistribution(e.target.checked ? DEFAULT_RESPONSE_DISTRIBUTION : null)}
+                          className="accent-primary"
+                        />
+                        {t('sidebar.distributionMode')}
+                      </label>
+                      {responseDistribution ? (
+                        <DistributionInputs
+                          distribution={responseDistribution}
+                          onChange={(id, val) => setResponseDistribution((prev) => prev && { ...prev, [id]: val })}
+                        />
+                      ) : (
+                        <TimeSliderInput 
+                          label={t('inputs.responseTime')}
+                          value={responseTime}
+                          onChange={setResponseTime}
+                        />
+                      )}
+                    </>
+                  )}
                 </div>
+              )}
+
+              <div className="border-t border-gray-100 pt-6">
+                <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-4">{t('costs.sectionTitle')}</h3>
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-600 mb-4 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={costs !== null}
+                    onChange={(e) => setCosts(e.target.checked ? DEFAULT_ACQUISITION_COSTS : null)}
+                    className="accent-primary"
+                  />
+                  {t('costs.enable')}
+                </label>
+                {costs && (
+                  <AcquisitionInputs
+                    costs={costs}
+                    leads={inputs.leads}
+                    onChange={(key, val) => setCosts((prev) => prev && { ...prev, [key]: val })}
+                    onBasisChange={(basis, marketing) => setCosts((prev) => prev && { ...prev, basis, marketing })}
+                  />
+                )}
               </div>
             </div>
+          </div>
 
-            {/* ROW 2: LOSS ANALYSIS GRID */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              
-              {/* Follow-up Card */}
-              <div className={`${getStatusColor(result.followUpStatus)} rounded-xl shadow-sm p-6 text-white relative overflow-hidden border-t-4 border-white/20 flex flex-col min-h-[200px]`}>
-                <div className="flex justify-between items-start mb-6">
-                  <div className="flex items-center gap-3">
-                     <div className="bg-black/20 p-2 rounded-lg backdrop-blur-md">
-                        <Phone size={20} />
-                     </div>
-                     <h3 className="text-xl font-bold">Follow-up</h3>
-                  </div>
-                  <div className="flex items-center gap-2 bg-black/20 px-3 py-1 rounded-full backdrop-blur-md border border-white/10">
-                     <span className="text-xs font-bold tracking-wider">{getStatusLabel(result.followUpStatus)}</span>
-                     {result.followUpStatus === 'ADEQUATE' && <CheckCircle2 size={14} className="text-emerald-300" />}
-                  </div>
-                </div>
-
-                <p className="text-white/90 text-sm mb-6 leading-relaxed flex-grow">
-                  {result.followUpStatus === 'ADEQUATE' 
-                    ? 'Excelente! Você mantém um volume de tentativas que garante a máxima recuperação de leads.' 
-                    : `Você realiza apenas ${followUps} tentativas. O ideal para maximizar a conversão é acima de 7.`}
-                </p>
-
-                <div className="bg-black/10 rounded-lg p-4">
-                   <div className="flex justify-between items-end border-b border-white/10 pb-2 mb-2">
-                      <span className="text-sm opacity-80">Vendas perdidas/mês</span>
-                      <span className="font-bold text-lg">{result.followUpLossSales > 0 ? result.followUpLossSales.toFixed(1) : '0'}</span>
-                   </div>
-                   <div className="flex justify-between items-end">
-                      <span className="text-sm opacity-80">Receita perdida/mês</span>
-                      <span className="font-bold text-lg">{formatCurrency(result.followUpLossRevenue)}</span>
-                   </div>
-                </div>
-              </div>
-
-              {/* Response Time Card */}
-              <div className={`${getStatusColor(result.responseStatus)} rounded-xl shadow-sm p-6 text-white relative overflow-hidden border-t-4 border-white/20 flex flex-col min-h-[200px]`}>
-                <div className="flex justify-between items-start mb-6">
-                  <div className="flex items-center gap-3">
-                     <div className="bg-black/20 p-2 rounded-lg backdrop-blur-md">
-                        <Clock size={20} />
-                     </div>
-                     <h3 className="text-xl font-bold">Tempo Resposta</h3>
-                  </div>
-                  <div className="flex items-center gap-2 bg-black/20 px-3 py-1 rounded-full backdrop-blur-md border border-white/10">
-                     <span className="text-xs font-bold tracking-wider">{getStatusLabel(result.responseStatus)}</span>
-                     {['GOOD', 'EXCELLENT'].includes(result.responseStatus) && <CheckCircle2 size={14} className="text-emerald-300" />}
-                  </div>
-                </div>
-
-                <p className="text-white/90 text-sm mb-6 leading-relaxed flex-grow">
-                  {result.responseStatus === 'EXCELLENT'
-                    ? 'Velocidade de atendimento excelente! Continue assim.' 
-                    : result.responseStatus === 'GOOD'
-                    ? `Tempo atual: ${formatTime(responseTime)}. Ainda pode melhorar.`
-                    : `Tempo atual: ${formatTime(responseTime)}. O ideal é ≤ 5 min.`}
-                </p>
-
-                <div className="bg-black/10 rounded-lg p-4">
-                   <div className="flex justify-between items-end border-b border-white/10 pb-2 mb-2">
-                      <span className="text-sm opacity-80">Vendas perdidas/mês</span>
-                      <span className="font-bold text-lg">{result.responseLossSales > 0 ? result.responseLossSales.toFixed(1) : '0'}</span>
-                   </div>
-                   <div className="flex justify-between items-end">
-                      <span className="text-sm opacity-80">Receita perdida/mês</span>
-                      <span className="font-bold text-lg">{formatCurrency(result.responseLossRevenue)}</span>
-                   </div>
-                </div>
+          {/* RIGHT COLUMN: RESULTS (Dashboard) */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 pb-32 lg:p-8 lg:pb-24 bg-gray-50/50">
+            <div className="max-w-7xl mx-auto space-y-6 lg:space-y-8">
+            
+              {/* VIEW SWITCH */}
+              <div className="flex flex-wrap items-center gap-1 bg-white rounded-lg p-1 shadow-sm border border-gray-100 w-fit">
+                {VIEWS.map((v) => (
+                  <button
+                    key={v.id}
+                    onClick={() => setView(v.id)}
+                    className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-xs lg:text-sm font-medium transition-colors ${view === v.id ? 'bg-primary text-white' : 'text-gray-500 hover:text-primary'}`}
+                  >
+                    <v.icon size={14} /> {t(v.label)}
+                  </button>
+                ))}
               </div>
-            </div>
-
-            {/* ROW 3: IMPACT SUMMARY BANNER */}
-            <div className={`${result.totalLossAnnual > 0 ? 'bg-gradient-to-br from-red-900 via-red-800 to-red-900' : 'bg-gradient-to-br from-[#003366] to-[#004488]'} rounded-xl shadow-lg p-6 lg:p-8 text-white relative overflow-hidden`}>
-               {result.totalLossAnnual > 0 && (
-                  <div className="absolute -right-10 -top-10 w-64 h-64 bg-red-500 rounded-full opacity-20 blur-3xl"></div>
-               )}
-               
-               <div className="flex flex-col lg:flex-row items-center justify-between gap-8 relative z-10">
-                  <div className="flex-1 text-center lg:text-left">
-                    <h2 className="text-2xl font-bold mb-2 flex items-center justify-center lg:justify-start gap-3">
-                       {result.totalLossAnnual > 0 ? <AlertTriangle className="text-red-400" size={28} /> : <CheckCircle2 className="text-emerald-400" size={28} />}
-                       {result.totalLossAnnual > 0 ? 'Impacto Financeiro Total' : 'Operação Otimizada'}
-                    </h2>
-                    <p className="text-white/80 text-sm lg:text-base max-w-xl">
-                      {result.totalLossAnnual > 0 
-                        ? 'Este é o montante estimado que sua empresa deixa de ganhar anualmente devido a falhas no processo de atendimento.'
-                        : 'Sua operação comercial está atingindo o máximo potencial de eficiência nas métricas analisadas.'}
-                    </p>
-                  </div>
-
-                  <div className="flex flex-col sm:flex-row items-center gap-8 bg-black/20 p-4 rounded-xl backdrop-blur-md border border-white/10">
-                     <div className="text-center">
-                        <p className="text-xs text-white/70 uppercase tracking-wider mb-1">Eficiência Comercial</p>
-                        <div className="flex items-baseline justify-center gap-1">
-                          <span className={`text-3xl font-bold ${result.efficiency < 70 ? 'text-red-400' : 'text-emerald-400'}`}>
-                            {result.efficiency.toFixed(0)}%
-                          </span>
-                        </div>
-                        <div className="w-32 h-1.5 bg-white/10 rounded-full mt-2 overflow-hidden">
-                           <div 
-                             className={`h-full rounded-full ${result.efficiency < 70 ? 'bg-red-500' : 'bg-emerald-500'}`} 
-                             style={{ width: `${result.efficiency}%` }}
-                           ></div>
-                        </div>
-                     </div>
-                     
-                     {result.totalLossAnnual > 0 && (
-                       <>
-                         <div className="hidden sm:block w-px h-16 bg-white/20"></div>
-                         <div className="text-center">
-                            <p className="text-xs text-red-200 uppercase tracking-wider mb-1">Desperdício Anual</p>
-                            <p className="text-3xl lg:text-4xl font-black text-white tracking-tight">{formatCurrency(result.totalLossAnnual)}</p>
-                         </div>
-                       </>
-                     )}
-                  </div>
-               </div>
-            </div>
 
-            {/* ROW 4: CHARTS */}
-            {result.totalLossAnnual > 0 && (
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[300px]">
-                <h3 className="text-[#003366] font-bold mb-4 flex items-center gap-2">
-                  <BarChart3 size={20} className="text-[#FF6600]" /> Potencial de Vendas
-                </h3>
-                <div className="flex-grow w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart
-                      data={barData}
-                      margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              {view === 'dashboard' && (
+                <>
+                  {reopened && (
+                  <NoticeBanner
+                    text={[
+                      t('history.reopened', { name: reopened.name, date: new Date(reopened.savedAt).toLocaleString(intlLocale) }),
+                      reopened.modelVersion !== MODEL_VERSION && t('history.recalculated', { saved: reopened.modelVersion, current: MODEL_VERSION }),
+                    ].filter(Boolean).join(' ')}
+                    onDismiss={() => setReopened(null)}
+                  />
+                )}
+                {estimatedInputs.length > 0 && (
+                  <NoticeBanner
+                    text={t('wizard.estimated', {
+                      inputs: new Intl.ListFormat(intlLocale, { type: 'conjunction' }).format(estimatedInputs.map((key) => getInputLabel(key, i18n))),
+                    })}
+                    onDismiss={() => setEstimatedInputs([])}
+                  />
+                )}
+                <DiagnosticDashboard
+                  result={result}
+                  inputs={inputs}
+                  coefficients={coefficients}
+                  simulation={approximated ? null : simulation}
+                  acquisition={acquisition}
+                  buildUp={revealResults}
+                />
+                  {breakdown && <ChannelBreakdownChart breakdown={breakdown} />}
+                  {teamBreakdown && <TeamRanking breakdown={teamBreakdown} />}
+                  {cadenceAnalysis && <CadenceChart analysis={cadenceAnalysis} approximated={approximated} />}
+                  {distributionResult && <ResponseBucketsChart buckets={distributionResult.buckets} />}
+                  {funnelStages && <FunnelChart stages={funnelStages} />}
+                </>
+              )}
+
+              {view === 'compare' && (
+                <ScenarioComparison
+                  comparison={comparison}
+                  approximated={approximated}
+                  onRenameBaseline={(name) => setScenarioNames((prev) => ({ ...prev, baseline: name }))}
+                  onRenameTarget={(name) => setScenarioNames((prev) => ({ ...prev, target: name }))}
+                  onTargetFollowUpsChange={(val) => setTargetOperation((prev) => ({ ...prev, followUps: val }))}
+                  onTargetResponseTimeChange={(val) => setTargetOperation((prev) => ({ ...prev, responseTime: val }))}
+                />
+              )}
+
+              {view === 'goal' && (
+                <GoalSeekPanel
+                  goal={goal}
+                  options={goalOptions}
+                  onOptionsChange={setGoalOptions}
+                  // Channels, reps, the response distribution and a cadence have their own follow-up or time
+                  onApply={channels || team || responseDistribution || cadence ? undefined : () => applyInputs(goal.solution)}
+                  approximated={approximated}
+                />
+              )}
+
+              {view === 'sensitivity' && (
+                <SensitivityPanel inputs={inputs} coefficients={coefficients} />
+              )}
+
+              {view === 'projection' && (
+                <ProjectionPanel
+                  projection={projection}
+                  options={projectionOptions}
+                  firstYearLoss={result.totalLossAnnual}
+                  targetName={comparison.target.scenario.name}
+                  onOptionsChange={setProjectionOptions}
+                />
+              )}
+            
+              {view === 'uncertainty' && (
+                <UncertaintyPanel
+                  uncertainty={uncertainty}
+                  simulation={simulation}
+                  running={simulationRunning}
+                  approximated={approximated}
+                  onUncertaintyChange={setUncertainty}
+                />
+              )}
+            
+              {/* ROW 4: MARKET DATA */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 pb-4">
+                {evidence.slice(0, EVIDENCE_CARD_COUNT).map((item) => {
+                  const style = EVIDENCE_CARD_STYLES[item.tags[0]];
+                  return (
+                    <a 
+                      key={item.id}
+                      href={item.url} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 hover:border-primary/30 transition-all group block h-full"
                     >
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
-                      <XAxis 
-                        dataKey="name" 
-                        axisLine={false} 
-                        tickLine={false}
-                        tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
-                        dy={10}
-                      />
-                      <YAxis hide />
-                      <Tooltip 
-                        cursor={{fill: '#f9fafb'}}
-                        formatter={(value: number) => [formatCurrency(value), 'Receita']}
-                        contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
-                      />
-                      <Bar dataKey="value" radius={[4, 4, 0, 0]} barSize={50}>
-                        <LabelList 
-                          dataKey="value" 
-                          position="top" 
-                          formatter={(val: number) => formatCurrency(val)} 
-                          style={{ fontSize: '11px', fontWeight: 'bold', fill: '#374151' }} 
-                        />
-                        {barData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.fill} />
-                        ))}
-                      </Bar>
-                    </BarChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
-
-              <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[300px]">
-                <h3 className="text-[#003366] font-bold mb-4 flex items-center gap-2">
-                   <PieChartIcon size={20} className="text-[#FF6600]" /> Composição da Perda
-                </h3>
-                <div className="flex-grow w-full relative">
-                   <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={pieData}
-                        cx="50%"
-                        cy="50%"
-                        innerRadius={60}
-                        outerRadius={80}
-                        paddingAngle={5}
-                        dataKey="value"
-                        stroke="none"
-                      >
-                        {pieData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.color} />
-                        ))}
-                      </Pie>
-                      <Tooltip 
-                         formatter={(value: number) => formatCurrency(value)}
-                         contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
-                      />
-                    </PieChart>
-                  </ResponsiveContainer>
-                  <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center pointer-events-none">
-                     <p className="text-xs text-gray-400 uppercase tracking-widest mb-1">Total</p>
-                     <p className="text-sm font-bold text-gray-800">{formatCurrency(result.totalLossAnnual)}</p>
-                  </div>
-                </div>
-                <div className="flex justify-center gap-6 mt-4">
-                    {pieData.map((item, idx) => (
-                        <div key={idx} className="flex items-center gap-2 text-xs font-medium text-gray-600">
-                            <div className="w-3 h-3 rounded-full" style={{backgroundColor: item.color}}></div>
-                            {item.name}
+                      <div className="flex items-center gap-2 mb-3">
+                        <div className={`${style.iconClassName} p-1.5 rounded group-hover:text-white transition-colors`}>
+                            <style.icon size={14} />
                         </div>
-                    ))}
-                </div>
+                        <span className="text-xs font-bold text-gray-400 uppercase">{item.source}</span>
+                      </div>
+                      <p className="text-gray-600 text-sm leading-relaxed">
+                        <RichText text={t(item.claimKey)} />
+                      </p>
+                    </a>
+                  );
+                })}
               </div>
-            </div>
-            )}
-            
-            {/* ROW 4: MARKET DATA */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 pb-4">
-              <a 
-                href="https://www.marketingdonut.co.uk/sales/sales-strategy/why-you-must-follow-up-leads" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 hover:border-[#003366]/30 transition-all group block h-full"
-              >
-                <div className="flex items-center gap-2 mb-3">
-                  <div className="bg-blue-50 text-[#003366] p-1.5 rounded group-hover:bg-[#003366] group-hover:text-white transition-colors">
-                      <Phone size={14} />
-                  </div>
-                  <span className="text-xs font-bold text-gray-400 uppercase">Marketing Donut</span>
-                </div>
-                <p className="text-gray-600 text-sm leading-relaxed">
-                  <span className="font-bold text-gray-900">80% das vendas B2B</span> requerem 5 ou mais follow-ups para serem fechadas.
-                </p>
-              </a>
-
-              <a 
-                href="https://cdn2.hubspot.net/hub/25649/file-13535879-pdf/docs/mit_study.pdf?utm_source=chatgpt.com" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 hover:border-[#003366]/30 transition-all group block h-full"
-              >
-                <div className="flex items-center gap-2 mb-3">
-                  <div className="bg-emerald-50 text-emerald-600 p-1.5 rounded group-hover:bg-emerald-600 group-hover:text-white transition-colors">
-                      <Clock size={14} />
-                  </div>
-                   <span className="text-xs font-bold text-gray-400 uppercase">MIT Study</span>
-                </div>
-                <p className="text-gray-600 text-sm leading-relaxed">
-                  Responder em <span className="font-bold text-gray-900">5 minutos</span> aumenta as chances de contato em <span className="font-bold text-gray-900">9x</span>.
-                </p>
-              </a>
-
-              <a 
-                href="https://blog.hubspot.com/blog/tabid/6307/bid/30901/30-thought-provoking-lead-nurturing-stats-you-can-t-ignore.aspx?utm_source=chatgpt.com" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 hover:border-[#003366]/30 transition-all group block h-full"
-              >
-                <div className="flex items-center gap-2 mb-3">
-                  <div className="bg-purple-50 text-purple-600 p-1.5 rounded group-hover:bg-purple-600 group-hover:text-white transition-colors">
-                      <TrendingUp size={14} />
-                  </div>
-                  <span className="text-xs font-bold text-gray-400 uppercase">HubSpot</span>
-                </div>
-                <p className="text-gray-600 text-sm leading-relaxed">
-                  <span className="font-bold text-gray-900">35–50%</span> das vendas vão para o fornecedor que responde primeiro.
-                </p>
-              </a>
-            </div>
 
+            </div>
+          </div>
+        </main>
+
+        {/* Sticky Footer Message */}
+        <div className={`print:hidden fixed bottom-0 left-0 w-full transition-colors duration-500 ${result.totalLossAnnual > 0 ? 'bg-gray-900' : 'bg-primary'} text-white py-3 lg:py-0 lg:h-16 shadow-2xl z-40 border-t border-white/10 flex items-center`}>
+          <div className="w-full max-w-7xl mx-auto px-4 lg:px-8 flex flex-col sm:flex-row items-center justify-between gap-2 text-center sm:text-left">
+             <div className="flex items-center gap-3 justify-center sm:justify-start">
+               {result.totalLossAnnual > 0 ? (
+                 <>
+                   <div className="bg-red-500/20 p-1.5 rounded-full animate-pulse hidden sm:block">
+                      <AlertTriangle size={16} className="text-red-400" />
+                   </div>
+                   <p className="font-medium text-xs sm:text-sm"><RichText text={t('footer.lossMessage', { amount: formatCurrency(result.totalLossRevenue) })} emphasisClassName="text-red-400 font-bold" /></p>
+                 </>
+               ) : (
+                 <>
+                   <div className="bg-emerald-500/20 p-1.5 rounded-full hidden sm:block">
+                      <CheckCircle2 size={16} className="text-emerald-400" />
+                   </div>
+                   <p className="font-medium text-xs sm:text-sm">{t('footer.optimizedMessage')}</p>
+                 </>
+               )}
+             </div>
+             <button 
+               onClick={handleCta}
+               className="bg-accent hover:bg-accent-dark text-white px-6 py-2 rounded-lg font-bold text-xs sm:text-sm transition-all shadow-lg hover:shadow-orange-500/20 transform hover:-translate-y-0.5">
+               {t('footer.cta')}
+             </button>
           </div>
         </div>
-      </main>
-
-      {/* Sticky Footer Message */}
-      <div className={`fixed bottom-0 left-0 w-full transition-colors duration-500 ${result.totalLossAnnual > 0 ? 'bg-gray-900' : 'bg-[#003366]'} text-white py-3 lg:py-0 lg:h-16 shadow-2xl z-40 border-t border-white/10 flex items-center`}>
-        <div className="w-full max-w-7xl mx-auto px-4 lg:px-8 flex flex-col sm:flex-row items-center justify-between gap-2 text-center sm:text-left">
-           <div className="flex items-center gap-3 justify-center sm:justify-start">
-             {result.totalLossAnnual > 0 ? (
-               <>
-                 <div className="bg-red-500/20 p-1.5 rounded-full animate-pulse hidden sm:block">
-                    <AlertTriangle size={16} className="text-red-400" />
-                 </div>
-                 <p className="font-medium text-xs sm:text-sm">A cada mês, <span className="text-red-400 font-bold">{formatCurrency(result.totalLossRevenue)}</span> são deixados na mesa.</p>
-               </>
-             ) : (
-               <>
-                 <div className="bg-emerald-500/20 p-1.5 rounded-full hidden sm:block">
-                    <CheckCircle2 size={16} className="text-emerald-400" />
-                 </div>
-                 <p className="font-medium text-xs sm:text-sm">Parabéns! Sua operação comercial está otimizada.</p>
-               </>
-             )}
-           </div>
-           <button className="bg-[#FF6600] hover:bg-[#e65c00] text-white px-6 py-2 rounded-lg font-bold text-xs sm:text-sm transition-all shadow-lg hover:shadow-orange-500/20 transform hover:-translate-y-0.5">
-             Falar com um especialista
-           </button>
-        </div>
-      </div>
+        </>
+      )}
+
+      {/* Lead Capture */}
+      {leadModalOpen && (
+        <LeadCaptureModal inputs={inputs} result={result} segment={segment} onClose={() => setLeadModalOpen(false)} />
+      )}
+
+      <LossAnnouncer monthlyLoss={result.totalLossRevenue} />
+
+      {/* Diagnostic History */}
+      {historyOpen && (
+        <HistoryDrawer
+          saved={savedDiagnostics}
+          onSave={handleSaveDiagnostic}
+          onOpen={handleOpenDiagnostic}
+          onDelete={handleDeleteDiagnostic}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {/* CRM Import */}
+      {importModalOpen && (
+        <CrmImportModal onApply={handleImport} onClose={() => setImportModalOpen(false)} />
+      )}
+
+      {/* Printable Report */}
+      {reportDate && (
+        <DiagnosticReport result={result} inputs={inputs} coefficients={coefficients} evidence={evidence} generatedAt={reportDate} />
+      )}
 
     </div>
   );
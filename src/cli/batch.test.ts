@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { getSegmentPreset } from '../data/segmentPresets';
+import { DEFAULT_INPUTS, INPUT_RANGES } from '../engine/diagnostic';
+import { parseCsv } from '../utils/csv';
+import { diagnoseProspects, formatDiagnosisRows, parseProspectsCsv, parseProspectsJson } from './batch';
+
+describe('parseProspectsCsv', () => {
+  it('matches headers loosely and reads either decimal separator', () => {
+    const { prospects, errors } = parseProspectsCsv(
+      'Empresa;Leads;Conversão;Ticket médio;Follow-ups;Tempo de resposta\nAcme;120;7,5;R$ 3.000;4;45\n',
+    );
+    expect(errors).toEqual([]);
+    expect(prospects).toEqual([
+      {
+        name: 'Acme',
+        segment: null,
+        inputs: { leads: 120, conversion: 7.5, ticket: 3000, followUps: 4, responseTime: 45 },
+        estimated: [],
+      },
+    ]);
+  });
+
+  it('fills missing inputs from the segment and lists them as estimated', () => {
+    const { prospects } = parseProspectsCsv('name,segment,leads,ticket\nBeta,saas,80,\nGamma,,90,1000\n');
+    const saas = getSegmentPreset('saas')!;
+    expect(prospects[0].inputs).toEqual({ ...DEFAULT_INPUTS, ...saas.inputs, leads: 80 });
+    expect(prospects[0].estimated).toEqual(['conversion', 'ticket', 'followUps', 'responseTime']);
+    expect(prospects[1].inputs).toEqual({ ...DEFAULT_INPUTS, leads: 90, ticket: 1000 });
+  });
+
+  it('clamps out-of-range values', () => {
+    const { prospects } = parseProspectsCsv('name,leads,responseTime\nBig,999999,0\n');
+    expect(prospects[0].inputs.leads).toBe(INPUT_RANGES.leads.max);
+    expect(prospects[0].inputs.responseTime).toBe(INPUT_RANGES.responseTime.min);
+  });
+
+  it('reports bad rows by record number and keeps the good ones', () => {
+    const { prospects, errors } = parseProspectsCsv('name,segment,leads\nA,,100\nB,astrology,100\nC,,lots\nD,,50\n');
+    expect(prospects.map((p) => p.name)).toEqual(['A', 'D']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatchObject({ row: 2 });
+    expect(errors[0].message).toContain('unknown segment "astrology"');
+    expect(errors[1]).toEqual({ row: 3, message: 'leads is not a number: "lots"' });
+  });
+
+  it('handles quoted names and short rows', () => {
+    const { prospects } = parseProspectsCsv('name,leads,ticket\n"Silva, Ana ""Imóveis""",100\n');
+    expect(prospects[0].name).toBe('Silva, Ana "Imóveis"');
+    expect(prospects[0].estimated).toContain('ticket');
+  });
+
+  it('rejects an empty file or one without input columns', () => {
+    expect(parseProspectsCsv('').errors).toEqual([{ row: 0, message: 'empty file' }]);
+    expect(parseProspectsCsv('name,city\nA,Rio\n').errors[0].message).toContain('no input columns');
+  });
+});
+
+describe('parseProspectsJson', () => {
+  it('accepts a single object or an array with numbers or strings', () => {
+    expect(parseProspectsJson('{"name":"A","leads":200}').prospects[0].inputs.leads).toBe(200);
+    const { prospects, errors } = parseProspectsJson('[{"name":"A","conversion":"7,5"},{"Follow-ups":6}]');
+    expect(errors).toEqual([]);
+    expect(prospects[0].inputs.conversion).toBe(7.5);
+    expect(prospects[1].inputs.followUps).toBe(6);
+  });
+
+  it('reports invalid JSON and records that are not objects', () => {
+    expect(parseProspectsJson('{oops').errors[0].message).toMatch(/^invalid JSON/);
+    expect(parseProspectsJson('[1, null, {"leads": 10}]').errors).toEqual([
+      { row: 1, message: 'expected an object' },
+      { row: 2, message: 'expected an object' },
+    ]);
+  });
+});
+
+describe('diagnoseProspects', () => {
+  it('ranks the prospects by annual loss, biggest first', () => {
+    const { prospects } = parseProspectsCsv('name,leads\nSmall,20\nLarge,2000\nMedium,200\n');
+    const rows = diagnoseProspects(prospects);
+    expect(rows.map((row) => [row.rank, row.name])).toEqual([[1, 'Large'], [2, 'Medium'], [3, 'Small']]);
+  });
+});
+
+describe('formatDiagnosisRows', () => {
+  const rows = diagnoseProspects(parseProspectsCsv('name,leads\n"Acme, Inc. | ""BR""",100\nBeta,50\n').prospects);
+
+  it('writes CSV that parses back with the same names and rounded numbers', () => {
+    const [header, ...records] = parseCsv(formatDiagnosisRows(rows, 'csv'));
+    expect(header.slice(0, 3)).toEqual(['rank', 'name', 'segment']);
+    expect(records.map((record) => record[1])).toEqual(['Acme, Inc. | "BR"', 'Beta']);
+    const lossColumn = header.indexOf('totalLossAnnual');
+    expect(Number(records[0][lossColumn])).toBe(Math.round(rows[0].totalLossAnnual * 100) / 100);
+  });
+
+  it('writes a Markdown table with escaped pipes and right-aligned numbers', () => {
+    const lines = formatDiagnosisRows(rows, 'markdown').trimEnd().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[1].startsWith('| ---: | --- | --- |')).toBe(true);
+    expect(lines[2]).toContain('Acme, Inc. \\| "BR"');
+  });
+
+  it('keeps full precision in JSON', () => {
+    expect(JSON.parse(formatDiagnosisRows(rows, 'json'))[0].totalLossAnnual).toBe(rows[0].totalLossAnnual);
+  });
+
+  it('handles an empty batch', () => {
+    expect(formatDiagnosisRows([], 'csv')).toBe('\n');
+    expect(formatDiagnosisRows([], 'markdown')).toBe('');
+    expect(formatDiagnosisRows([], 'json')).toBe('[]\n');
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  calculateDiagnostic,
+  CalculationResult,
+  clampInput,
+  DEFAULT_INPUTS,
+  DiagnosticInputs,
+  INPUT_KEYS,
+  resolveCoefficients,
+} from '../engine/diagnostic';
+import { getSegmentPreset, SEGMENT_PRESETS } from '../data/segmentPresets';
+import { parseCsv } from '../utils/csv';
+import { parseNumberCell } from '../utils/crmImport';
+
+// --- Prospect Batch ---
+// Runs the dashboard's loss model over a list of prospects, for the command-line entry point.
+// Pure text in, text out; file and console handling live in `diagnose.ts`. Missing inputs fall
+// back to the prospect's segment (or the calculator defaults) and are listed in `estimated`, like
+// the guided wizard's "I don't know" answers.
+
+export type BatchOutputFormat = 'json' | 'csv' | 'markdown';
+
+export interface Prospect {
+  name: string;
+  segment: string | null;
+  inputs: DiagnosticInputs;
+  estimated: (keyof DiagnosticInputs)[];
+}
+
+export interface BatchError {
+  row: number; // 1-based record number; for CSV the header is row 0
+  message: string;
+}
+
+export interface ProspectParseResult {
+  prospects: Prospect[];
+  errors: BatchError[];
+}
+
+export type DiagnosisRow = {
+  rank: number;
+  name: string;
+  segment: string;
+  estimated: string;
+} & DiagnosticInputs & CalculationResult;
+
+export const BATCH_OUTPUT_FORMATS: BatchOutputFormat[] = ['json', 'csv', 'markdown'];
+
+type ProspectField = keyof DiagnosticInputs | 'name' | 'segment';
+
+const FIELD_ALIASES: Record<ProspectField, string[]> = {
+  name: ['name', 'prospect', 'company', 'empresa', 'nome', 'cliente', 'nombre'],
+  segment: ['segment', 'segmento', 'industry'],
+  leads: ['leads', 'leadspermonth', 'leadspormes'],
+  conversion: ['conversion', 'conversionrate', 'conversao', 'taxadeconversao'],
+  ticket: ['ticket', 'averageticket', 'ticketmedio', 'ticketpromedio'],
+  followUps: ['followups', 'followup', 'attempts', 'tentativas', 'seguimientos', 'intentos'],
+  responseTime: ['responsetime', 'responseminutes', 'tempoderesposta', 'temporesposta', 'tiempoderespuesta'],
+};
+
+const FIELDS = Object.keys(FIELD_ALIASES) as ProspectField[];
+
+// "Follow-ups", "follow_ups" and "Tempo de resposta" all become bare lowercase letters
+const normalizeKey = (key: string) =>
+  key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+const findField = (key: string) => {
+  const normalized = normalizeKey(key);
+  return FIELDS.find((field) => FIELD_ALIASES[field].includes(normalized)) ?? null;
+};
+
+// Shared by both readers: `values` holds the raw cells or JSON values, keyed by field
+const buildProspect = (
+  values: Partial<Record<ProspectField, unknown>>,
+  row: number,
+  errors: BatchError[],
+): Prospect | null => {
+  const segmentValue = values.segment == null ? '' : String(values.segment).trim();
+  const preset = segmentValue ? getSegmentPreset(segmentValue) : null;
+  if (segmentValue && !preset) {
+    errors.push({ row, message: `unknown segment "${segmentValue}" (use ${SEGMENT_PRESETS.map((p) => p.id).join(', ')})` });
+    return null;
+  }
+
+  const defaults = { ...DEFAULT_INPUTS, ...preset?.inputs };
+  const inputs = { ...defaults };
+  const estimated: (keyof DiagnosticInputs)[] = [];
+  let valid = true;
+
+  INPUT_KEYS.forEach((key) => {
+    const raw = values[key];
+    if (raw == null || String(raw).trim() === '') {
+      estimated.push(key);
+      return;
+    }
+    const number = typeof raw === 'number' ? raw : parseNumberCell(String(raw));
+    if (number === null || !Number.isFinite(number)) {
+      errors.push({ row, message: `${key} is not a number: "${String(raw)}"` });
+      valid = false;
+      return;
+    }
+    inputs[key] = clampInput(key, number);
+  });
+
+  if (!valid) return null;
+  return {
+    name: values.name == null ? '' : String(values.name).trim(),
+    segment: preset?.id ?? null,
+    inputs,
+    estimated,
+  };
+};
+
+// --- Readers ---
+
+// A single prospect object or an array of them; keys follow the same aliases as CSV headers
+export const parseProspectsJson = (text: string): ProspectParseResult => {
+  const errors: BatchError[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { prospects: [], errors: [{ row: 0, message: `invalid JSON: ${(err as Error).message}` }] };
+  }
+
+  const records = Array.isArray(data) ? data : [data];
+  const prospects: Prospect[] = [];
+  records.forEach((record, index) => {
+    const row = index + 1;
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      errors.push({ row, message: 'expected an object' });
+      return;
+    }
+    const values: Partial<Record<ProspectField, unknown>> = {};
+    Object.entries(record).forEach(([key, value]) => {
+      const field = findField(key);
+      if (field) values[field] = value;
+    });
+    const prospect = buildProspect(values, row, errors);
+    if (prospect) prospects.push(prospect);
+  });
+  return { prospects, errors };
+};
+
+// One prospect per row, with a header; unknown columns are ignored
+export const parseProspectsCsv = (text: string): ProspectParseResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { prospects: [], errors: [{ row: 0, message: 'empty file' }] };
+
+  const columns = header.map(findField);
+  const errors: BatchError[] = [];
+  if (!columns.some((field) => field && field !== 'name' && field !== 'segment')) {
+    errors.push({ row: 0, message: `no input columns found (expected ${INPUT_KEYS.join(', ')})` });
+    return { prospects: [], errors };
+  }
+
+  const prospects: Prospect[] = [];
+  rows.forEach((cells, index) => {
+    const values: Partial<Record<ProspectField, unknown>> = {};
+    columns.forEach((field, column) => {
+      if (field) values[field] = cells[column];
+    });
+    const prospect = buildProspect(values, index + 1, errors);
+    if (prospect) prospects.push(prospect);
+  });
+  return { prospects, errors };
+};
+
+// --- Diagnosis ---
+
+// Biggest annual leak first, so the list doubles as a call order
+export const diagnoseProspects = (prospects: Prospect[]): DiagnosisRow[] =>
+  prospects
+    .map((prospect) => {
+      const coefficients = resolveCoefficients(getSegmentPreset(prospect.segment)?.coefficients);
+      return {
+        name: prospect.name,
+        segment: prospect.segment ?? '',
+        estimated: prospect.estimated.join(' '),
+        ...prospect.inputs,
+        ...calculateDiagnostic(prospect.inputs, coefficients),
+      };
+    })
+    .sort((a, b) => b.totalLossAnnual - a.totalLossAnnual)
+    .map((row, index) => ({ rank: index + 1, ...row }));
+
+// --- Writers ---
+
+const getColumns = (rows: DiagnosisRow[]) => (rows.length ? (Object.keys(rows[0]) as (keyof DiagnosisRow)[]) : []);
+
+// Money and factors keep two decimals; the full precision stays in the JSON output
+const formatCell = (value: DiagnosisRow[keyof DiagnosisRow]) =>
+  typeof value === 'number' ? String(Math.round(value * 100) / 100) : value;
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+export const formatDiagnosisRows = (rows: DiagnosisRow[], format: BatchOutputFormat): string => {
+  const columns = getColumns(rows);
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(rows, null, 2)}\n`;
+    case 'csv':
+      return [columns.join(','), ...rows.map((row) => columns.map((c) => escapeCsv(formatCell(row[c]))).join(','))]
+        .map((line) => `${line}\n`)
+        .join('');
+    case 'markdown':
+      if (!columns.length) return '';
+      return [
+        `| ${columns.join(' | ')} |`,
+        `| ${columns.map((c) => (typeof rows[0][c] === 'number' ? '---:' : '---')).join(' | ')} |`,
+        ...rows.map((row) => `| ${columns.map((c) => escapeMarkdown(formatCell(row[c]))).join(' | ')} |`),
+      ]
+        .map((line) => `${line}\n`)
+        .join('');
+  }
+};
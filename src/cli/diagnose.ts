@@ -0,0 +1,112 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { MODEL_VERSION } from '../engine/diagnostic';
+import {
+  BATCH_OUTPUT_FORMATS,
+  BatchOutputFormat,
+  diagnoseProspects,
+  formatDiagnosisRows,
+  parseProspectsCsv,
+  parseProspectsJson,
+} from './batch';
+
+// --- Command Line ---
+// `npm run --silent diagnose -- prospects.csv --format markdown`
+// Reads a JSON or CSV batch (a file, or stdin with "-"), writes the ranked diagnosis to stdout or
+// --output. Rows that can't be read are reported on stderr and make the exit code 1; the rest are
+// still written.
+
+const USAGE = `Usage: diagnose <input.json|input.csv|-> [options]
+
+Runs the Abil loss model (v${MODEL_VERSION}) on each prospect and ranks them by annual loss.
+
+Options:
+  --input-format <json|csv>          Input format; defaults to the file extension, or json for stdin
+  --format <json|csv|markdown>       Output format; defaults to the --output extension, or json
+  --output <file>                    Write to a file instead of stdout
+  --help                             Show this message
+
+Fields (JSON keys or CSV headers): name, segment, leads, conversion, ticket, followUps,
+responseTime. Missing inputs use the segment's typical value and are listed in "estimated".`;
+
+interface CliOptions {
+  input: string;
+  inputFormat: 'json' | 'csv';
+  format: BatchOutputFormat;
+  output: string | null;
+}
+
+class UsageError extends Error {}
+
+const OUTPUT_EXTENSIONS: Record<string, BatchOutputFormat> = {
+  '.json': 'json',
+  '.csv': 'csv',
+  '.md': 'markdown',
+};
+
+const parseArgs = (args: string[]): CliOptions | null => {
+  let input: string | null = null;
+  let inputFormat: string | null = null;
+  let format: string | null = null;
+  let output: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => {
+      const value = args[++i];
+      if (value === undefined) throw new UsageError(`${arg} needs a value`);
+      return value;
+    };
+    if (arg === '--help' || arg === '-h') return null;
+    else if (arg === '--input-format') inputFormat = next();
+    else if (arg === '--format' || arg === '-f') format = next();
+    else if (arg === '--output' || arg === '-o') output = next();
+    else if (arg.startsWith('-') && arg !== '-') throw new UsageError(`unknown option ${arg}`);
+    else if (input === null) input = arg;
+    else throw new UsageError(`unexpected argument ${arg}`);
+  }
+
+  if (input === null) throw new UsageError('missing input file');
+
+  inputFormat ??= extname(input).toLowerCase() === '.csv' ? 'csv' : 'json';
+  if (inputFormat !== 'json' && inputFormat !== 'csv') throw new UsageError(`unknown input format ${inputFormat}`);
+
+  format ??= (output && OUTPUT_EXTENSIONS[extname(output).toLowerCase()]) || 'json';
+  if (!BATCH_OUTPUT_FORMATS.includes(format as BatchOutputFormat)) throw new UsageError(`unknown format ${format}`);
+
+  return { input, inputFormat, format: format as BatchOutputFormat, output };
+};
+
+const run = (args: string[]) => {
+  let options: CliOptions | null;
+  try {
+    options = parseArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`diagnose: ${err.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let text: string;
+  try {
+    // File descriptor 0 is stdin
+    text = readFileSync(options.input === '-' ? 0 : options.input, 'utf8');
+  } catch (err) {
+    console.error(`diagnose: cannot read ${options.input}: ${(err as Error).message}`);
+    return 2;
+  }
+  const { prospects, errors } = options.inputFormat === 'csv' ? parseProspectsCsv(text) : parseProspectsJson(text);
+  errors.forEach(({ row, message }) => console.error(`diagnose: row ${row}: ${message}`));
+
+  const report = formatDiagnosisRows(diagnoseProspects(prospects), options.format);
+  if (options.output) writeFileSync(options.output, report);
+  else process.stdout.write(report);
+
+  return errors.length ? 1 : 0;
+};
+
+process.exitCode = run(process.argv.slice(2));
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ACQUISITION_RANGES, AcquisitionCostKey, AcquisitionCosts, MarketingCostBasis } from '../engine/acquisition';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { SliderInput } from './SliderInput';
+
+const BASES: { id: MarketingCostBasis; label: MessageKey }[] = [
+  { id: 'monthly', label: 'costs.basisMonthly' },
+  { id: 'perLead', label: 'costs.basisPerLead' },
+];
+
+export const AcquisitionInputs = ({
+  costs,
+  leads,
+  onChange,
+  onBasisChange,
+}: {
+  costs: AcquisitionCosts;
+  leads: number; // Converts the marketing figure when the basis changes
+  onChange: (key: AcquisitionCostKey, value: number) => void;
+  onBasisChange: (basis: MarketingCostBasis, marketing: number) => void;
+}) => {
+  const { t, currencySymbol } = useI18n();
+  const range = ACQUISITION_RANGES[costs.basis];
+
+  // Keeps the same monthly spend, rounded to the new slider's step
+  const handleBasisChange = (basis: MarketingCostBasis) => {
+    if (basis === costs.basis) return;
+    const spend = costs.basis === 'monthly' ? costs.marketing : costs.marketing * leads;
+    const { step, max } = ACQUISITION_RANGES[basis];
+    const value = basis === 'monthly' ? spend : leads > 0 ? spend / leads : 0;
+    onBasisChange(basis, Math.min(max, Math.round(value / step) * step));
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-4">{t('costs.hint')}</p>
+      <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1 mb-4 w-fit">
+        {BASES.map((b) => (
+          <button
+            key={b.id}
+            onClick={() => handleBasisChange(b.id)}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${costs.basis === b.id ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-primary'}`}
+          >
+            {t(b.label)}
+          </button>
+        ))}
+      </div>
+      <SliderInput
+        label={t(costs.basis === 'monthly' ? 'costs.marketingMonthly' : 'costs.marketingPerLead')}
+        value={costs.marketing}
+        onChange={(val) => onChange('marketing', val)}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        prefix={`${currencySymbol} `}
+        highlightColor="blue"
+      />
+      <SliderInput
+        label={t('costs.salesTeam')}
+        value={costs.salesTeam}
+        onChange={(val) => onChange('salesTeam', val)}
+        min={ACQUISITION_RANGES.salesTeam.min}
+        max={ACQUISITION_RANGES.salesTeam.max}
+        step={ACQUISITION_RANGES.salesTeam.step}
+        prefix={`${currencySymbol} `}
+        highlightColor="blue"
+      />
+    </div>
+  );
+};
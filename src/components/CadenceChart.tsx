@@ -0,0 +1,89 @@
+import React from 'react';
+import { CalendarClock, AlertTriangle } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { CadenceAnalysis, MIN_CADENCE_DAYS } from '../engine/cadence';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { CADENCE_WARNING_KEYS } from './CadenceInputs';
+import { RichText } from './RichText';
+
+export const CadenceChart = ({
+  analysis,
+  approximated = false,
+}: {
+  analysis: CadenceAnalysis;
+  approximated?: boolean; // The dashboard's result comes from another model (channels, funnel…)
+}) => {
+  const { t, formatCurrency, formatCompactCurrency } = useI18n();
+  const { colors } = useTheme();
+  if (analysis.touches.length === 0) return null;
+
+  const best = analysis.touches.reduce((top, c) => (c.recoveredRevenue > top.recoveredRevenue ? c : top), analysis.touches[0]);
+  const data = analysis.touches.map((c) => ({
+    id: c.touch.id,
+    name: t('cadence.touchLabel', { day: c.touch.day, channel: t(`cadence.channel.${c.touch.channel}` as MessageKey) }),
+    recovered: c.recoveredRevenue,
+    share: c.share * 100,
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col">
+      <h3 className="text-primary font-bold mb-2 flex items-center gap-2">
+        <CalendarClock size={20} className="text-accent" /> {t('cadence.title')}
+      </h3>
+      <p className={`text-sm text-gray-600 ${approximated ? 'mb-2' : 'mb-4'}`}>
+        <RichText text={t('cadence.summary', { amount: formatCurrency(analysis.recoveredRevenue), touches: analysis.touches.length })} />
+      </p>
+      {approximated && <p className="text-xs text-gray-400 mb-4">{t('cadence.approxNote')}</p>}
+      {analysis.warnings.map((warning) => (
+        <p key={warning} className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+          <AlertTriangle size={16} className="shrink-0" />
+          {t(CADENCE_WARNING_KEYS[warning], { days: MIN_CADENCE_DAYS })}
+        </p>
+      ))}
+      <div className="h-[260px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+            <XAxis
+              dataKey="name"
+              axisLine={false}
+              tickLine={false}
+              interval={0}
+              tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
+            />
+            <YAxis
+              tickFormatter={(val: number) => formatCompactCurrency(val)}
+              tick={{fontSize: 11, fill: '#6b7280'}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <Tooltip
+              cursor={{fill: '#f9fafb'}}
+              formatter={(value: number, _: string, entry: { payload?: { share: number } }) => [
+                `${formatCurrency(value)} · ${entry.payload?.share.toFixed(0)}%`,
+                t('cadence.recovered'),
+              ]}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Bar dataKey="recovered" radius={[4, 4, 0, 0]} barSize={32}>
+              {data.map((entry) => (
+                <Cell key={entry.id} fill={entry.id === best.touch.id ? colors.accent : colors.accentLight} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  CADENCE_DAY_RANGE,
+  CadenceTouch,
+  CadenceWarning,
+  clampCadenceDay,
+  getCadenceFollowUps,
+  getCadenceWarnings,
+  MAX_TOUCHES,
+  MIN_CADENCE_DAYS,
+  TOUCH_CHANNELS,
+  TouchChannel,
+} from '../engine/cadence';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { parseLocaleNumber } from '../utils/format';
+
+export const CADENCE_WARNING_KEYS: Record<CadenceWarning, MessageKey> = {
+  compressed: 'cadence.warningCompressed',
+  stopsEarly: 'cadence.warningStopsEarly',
+};
+
+// Same editing rules as the slider number fields: days inside the range apply while typing, and
+// leaving the field or pressing Enter clamps the text, or restores the day when it isn't a number
+const DayField = ({
+  value,
+  label,
+  onChange,
+}: {
+  value: number;
+  label: string;
+  onChange: (day: number) => void;
+}) => {
+  const { intlLocale } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseLocaleNumber(draft, intlLocale);
+    if (Number.isFinite(parsed)) onChange(clampCadenceDay(parsed));
+    setDraft(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+    const parsed = parseLocaleNumber(e.target.value, intlLocale);
+    if (Number.isInteger(parsed) && parsed >= CADENCE_DAY_RANGE.min && parsed <= CADENCE_DAY_RANGE.max) onChange(parsed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit();
+    else if (e.key === 'Escape') setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="off"
+      value={draft ?? String(value)}
+      onChange={handleChange}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      aria-label={label}
+      className="w-full text-center text-sm font-bold text-primary bg-transparent border-b border-gray-300 focus:border-primary focus:outline-none"
+    />
+  );
+};
+
+export const CadenceInputs = ({
+  cadence,
+  onChange,
+  onAdd,
+  onRemove,
+}: {
+  cadence: CadenceTouch[];
+  onChange: (id: string, patch: Partial<Omit<CadenceTouch, 'id'>>) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+}) => {
+  const { t, intlLocale } = useI18n();
+  const warnings = getCadenceWarnings(cadence);
+  const effective = getCadenceFollowUps(cadence);
+
+  return (
+    <div className="mb-4">
+      <p className="text-xs text-gray-500 mb-4">{t('cadence.hint')}</p>
+      <div className="grid grid-cols-[4rem_1fr_auto] gap-2 items-center text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">
+        <span>{t('cadence.day')}</span>
+        <span>{t('cadence.channel')}</span>
+        <span className="sr-only">{t('cadence.remove')}</span>
+      </div>
+      <ul className="space-y-2 mb-3">
+        {cadence.map((touch, index) => (
+          <li key={touch.id} className="grid grid-cols-[4rem_1fr_auto] gap-2 items-center">
+            <DayField
+              value={touch.day}
+              label={t('cadence.dayLabel', { n: index + 1 })}
+              onChange={(day) => onChange(touch.id, { day })}
+            />
+            <select
+              value={touch.channel}
+              onChange={(e) => onChange(touch.id, { channel: e.target.value as TouchChannel })}
+              aria-label={t('cadence.channelLabel', { n: index + 1 })}
+              className="w-full px-2 py-1 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:border-primary"
+            >
+              {TOUCH_CHANNELS.map((channel) => (
+                <option key={channel} value={channel}>{t(`cadence.channel.${channel}` as MessageKey)}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRemove(touch.id)}
+              disabled={cadence.length <= 1}
+              aria-label={t('cadence.removeLabel', { n: index + 1 })}
+              className="text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onAdd}
+        disabled={cadence.length >= MAX_TOUCHES}
+        className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary disabled:opacity-50 transition-colors mb-3"
+      >
+        <Plus size={14} /> {t('cadence.add')}
+      </button>
+      <p className="text-xs text-gray-500">
+        {t('cadence.effective', { count: effective.toLocaleString(intlLocale, { maximumFractionDigits: 1 }) })}
+      </p>
+      {warnings.map((warning) => (
+        <p key={warning} className="flex items-start gap-2 text-xs text-amber-700 bg-amber-50 rounded-lg p-2 mt-2">
+          <AlertTriangle size={14} className="shrink-0" />
+          {t(CADENCE_WARNING_KEYS[warning], { days: MIN_CADENCE_DAYS })}
+        </p>
+      ))}
+    </div>
+  );
+};
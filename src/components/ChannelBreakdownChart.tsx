@@ -0,0 +1,78 @@
+import React from 'react';
+import { Share2 } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { ChannelBreakdown } from '../engine/channels';
+import { useI18n } from '../i18n/I18nProvider';
+import { getChannelLabel } from './ChannelInputs';
+import { RichText } from './RichText';
+
+export const ChannelBreakdownChart = ({ breakdown }: { breakdown: ChannelBreakdown }) => {
+  const { t, formatCurrency, formatCompactCurrency } = useI18n();
+  const { colors } = useTheme();
+
+  const data = breakdown.channels.map(({ channel, result }) => ({
+    name: getChannelLabel(channel, t),
+    leads: channel.leads,
+    followUp: result.followUpLossRevenue,
+    response: result.responseLossRevenue,
+    total: result.totalLossRevenue,
+  }));
+
+  const leakiest = data.reduce((worst, d) => (d.total > worst.total ? d : worst), data[0]);
+  if (!leakiest || leakiest.total <= 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col">
+      <h3 className="text-primary font-bold mb-2 flex items-center gap-2">
+        <Share2 size={20} className="text-accent" /> {t('channels.title')}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        <RichText text={t('channels.leakiest', { channel: leakiest.name, amount: formatCurrency(leakiest.total) })} />
+      </p>
+      <div className="h-[260px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f3f4f6" />
+            <XAxis
+              type="number"
+              tickFormatter={(val: number) => formatCompactCurrency(val)}
+              tick={{fontSize: 11, fill: '#6b7280'}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={140}
+              tick={{fontSize: 11, fill: '#374151', fontWeight: 500}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <Tooltip
+              cursor={{fill: '#f9fafb'}}
+              formatter={(value: number) => formatCurrency(value)}
+              labelFormatter={(label: string) => {
+                const row = data.find((d) => d.name === label);
+                return row ? `${label} · ${t('channels.leadsPerMonth', { leads: row.leads })}` : label;
+              }}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Bar dataKey="followUp" name={t('chart.followUpLossShare')} stackId="loss" fill={colors.accentLight} barSize={22} />
+            <Bar dataKey="response" name={t('chart.responseLossShare')} stackId="loss" fill={colors.accent} barSize={22} radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
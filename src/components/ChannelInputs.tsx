@@ -0,0 +1,52 @@
+import React from 'react';
+import { CHANNEL_INPUT_RANGES, ChannelInputKey, LeadChannel } from '../engine/channels';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { SliderInput, TimeSliderInput } from './SliderInput';
+
+export const getChannelLabel = (channel: LeadChannel, t: (key: MessageKey) => string) =>
+  t(`channels.${channel.id}` as MessageKey);
+
+export const ChannelInputs = ({
+  channels,
+  onChange,
+}: {
+  channels: LeadChannel[];
+  onChange: (id: LeadChannel['id'], key: ChannelInputKey, value: number) => void;
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">{t('sidebar.channelModeHint')}</p>
+      {channels.map((channel) => (
+        <div key={channel.id} className="border border-gray-100 rounded-lg p-4">
+          <h3 className="text-sm font-bold text-primary mb-4">{getChannelLabel(channel, t)}</h3>
+          <SliderInput
+            label={t('inputs.leads')}
+            value={channel.leads}
+            onChange={(val) => onChange(channel.id, 'leads', val)}
+            min={CHANNEL_INPUT_RANGES.leads.min}
+            max={CHANNEL_INPUT_RANGES.leads.max}
+            step={CHANNEL_INPUT_RANGES.leads.step}
+            highlightColor="blue"
+          />
+          <SliderInput
+            label={t('inputs.conversion')}
+            value={channel.conversion}
+            onChange={(val) => onChange(channel.id, 'conversion', val)}
+            min={CHANNEL_INPUT_RANGES.conversion.min}
+            max={CHANNEL_INPUT_RANGES.conversion.max}
+            step={CHANNEL_INPUT_RANGES.conversion.step}
+            unit="%"
+            highlightColor="blue"
+          />
+          <TimeSliderInput
+            label={t('inputs.responseTime')}
+            value={channel.responseTime}
+            onChange={(val) => onChange(channel.id, 'responseTime', val)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
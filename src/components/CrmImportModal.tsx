@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { DiagnosticInputs, INPUT_KEYS } from '../engine/diagnostic';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { parseCsv } from '../utils/csv';
+import { ColumnMapping, CRM_FIELDS, deriveInputsFromRows, guessMapping, REQUIRED_CRM_FIELDS } from '../utils/crmImport';
+import { formatInputValue, getInputLabel } from '../utils/inputs';
+
+interface LoadedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export const CrmImportModal = ({
+  onApply,
+  onClose,
+}: {
+  onApply: (inputs: Partial<DiagnosticInputs>) => void;
+  onClose: () => void;
+}) => {
+  const i18n = useI18n();
+  const { t, intlLocale } = i18n;
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    try {
+      const [headers, ...rows] = parseCsv(await selected.text());
+      if (!headers || rows.length === 0) {
+        setError('import.errorEmpty');
+        return;
+      }
+      setError(null);
+      setFile({ name: selected.name, headers, rows });
+      setMapping(guessMapping(headers));
+    } catch {
+      setError('import.errorRead');
+    }
+  };
+
+  const isComplete = !!mapping && REQUIRED_CRM_FIELDS.every((field) => mapping[field] !== null);
+  const derived = useMemo(
+    () => (file && mapping && isComplete ? deriveInputsFromRows(file.rows, mapping) : null),
+    [file, mapping, isComplete]
+  );
+
+  const formatDate = (time: number | null) =>
+    time === null ? '—' : new Intl.DateTimeFormat(intlLocale, { dateStyle: 'short' }).format(time);
+
+  const warnings = derived
+    ? ([
+        ['import.rowsSkipped', derived.quality.skippedRows],
+        ['import.missingResponse', derived.quality.missingResponse],
+        ['import.negativeResponse', derived.quality.negativeResponse],
+        ['import.missingAttempts', derived.quality.missingAttempts],
+        ['import.wonWithoutValue', derived.quality.wonWithoutValue],
+      ] as [MessageKey, number][]).filter(([, count]) => count > 0)
+    : [];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 print:hidden"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="crm-import-title"
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 id="crm-import-title" className="text-lg font-bold text-primary">{t('import.title')}</h2>
+          <button onClick={onClose} aria-label={t('import.close')} className="text-gray-400 hover:text-primary transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+
+          {!file ? (
+            <div className="text-center">
+              <p className="text-sm text-gray-500 mb-6">{t('import.description')}</p>
+              <button
+                autoFocus
+                onClick={() => fileInputRef.current?.click()}
+                className="inline-flex items-center gap-2 bg-primary hover:bg-primary-dark text-white px-6 py-3 rounded-lg font-bold text-sm transition-colors"
+              >
+                <Upload size={16} /> {t('import.chooseFile')}
+              </button>
+              {error && <p role="alert" className="text-xs text-red-600 mt-3">{t(error)}</p>}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <p className="flex items-center gap-2 text-sm font-medium text-gray-700 truncate">
+                  <FileSpreadsheet size={16} className="text-accent shrink-0" /> {file.name}
+                </p>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-xs text-gray-500 hover:text-primary font-medium shrink-0"
+                >
+                  {t('import.back')}
+                </button>
+              </div>
+              {error && <p role="alert" className="text-xs text-red-600">{t(error)}</p>}
+
+              <div>
+                <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">{t('import.mapping')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {CRM_FIELDS.map((field) => (
+                    <label key={field} className="block text-sm">
+                      <span className="block text-gray-700 font-medium mb-1">
+                        {t(`import.field.${field}` as MessageKey)}
+                        {REQUIRED_CRM_FIELDS.includes(field) && <span className="text-xs text-gray-400 font-normal"> ({t('import.required')})</span>}
+                      </span>
+                      <select
+                        value={mapping?.[field] ?? ''}
+                        onChange={(e) => setMapping((prev) => prev && { ...prev, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                        className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm focus:outline-none focus:border-primary"
+                      >
+                        <option value="">{t('import.notMapped')}</option>
+                        {file.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `#${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {derived && (
+                <>
+                  <div>
+                    <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">{t('import.quality')}</h3>
+                    <ul className="text-sm text-gray-600 space-y-1">
+                      <li>{t('import.rowsUsed', { used: derived.quality.usedRows, total: derived.quality.totalRows })}</li>
+                      <li>
+                        {t('import.period', {
+                          start: formatDate(derived.quality.periodStart),
+                          end: formatDate(derived.quality.periodEnd),
+                          months: derived.quality.months.toFixed(1),
+                        })}
+                      </li>
+                      {warnings.map(([key, count]) => (
+                        <li key={key} className="flex items-center gap-2 text-accent">
+                          <AlertTriangle size={14} className="shrink-0" /> {t(key, { count })}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div>
+                    <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">{t('import.derived')}</h3>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {INPUT_KEYS.map((key) => {
+                          const value = derived.inputs[key];
+                          return (
+                            <tr key={key} className="border-b border-gray-100 last:border-0">
+                              <td className="py-1.5 text-gray-600">{getInputLabel(key, i18n)}</td>
+                              <td className={`py-1.5 text-right font-bold ${value === undefined ? 'text-gray-400 font-normal italic' : 'text-gray-900'}`}>
+                                {value === undefined ? t('import.keepCurrent') : formatInputValue(key, value, i18n)}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+
+              <button
+                disabled={!derived || derived.quality.usedRows === 0}
+                onClick={() => derived && onApply(derived.inputs)}
+                className="w-full bg-accent hover:bg-accent-dark disabled:opacity-60 text-white px-6 py-3 rounded-lg font-bold text-sm transition-all shadow-lg"
+              >
+                {t('import.apply')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,362 @@
+import React from 'react';
+import {
+  Clock,
+  Phone,
+  AlertTriangle,
+  CheckCircle2,
+  TrendingUp,
+  BarChart3,
+  Megaphone,
+  PieChart as PieChartIcon
+} from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  LabelList
+} from 'recharts';
+import { AcquisitionResult } from '../engine/acquisition';
+import { CalculationResult, DEFAULT_COEFFICIENTS, DiagnosticInputs, ModelCoefficients } from '../engine/diagnostic';
+import { Percentiles, SimulationSummary } from '../engine/monteCarlo';
+import { useI18n } from '../i18n/I18nProvider';
+import { useTheme } from '../theme/ThemeProvider';
+import { getLossPieData, getRevenueBarData } from '../utils/chartData';
+import { formatNumber } from '../utils/format';
+import { RichText } from './RichText';
+import { getFollowUpAdvice, getResponseAdvice, getStatusColor, getStatusLabel } from '../utils/status';
+
+// Delay between rows when the results are revealed one by one
+const BUILD_UP_STEP_MS = 300;
+
+export const DiagnosticDashboard = ({
+  result,
+  inputs,
+  coefficients = DEFAULT_COEFFICIENTS,
+  simulation,
+  acquisition,
+  buildUp = false,
+}: {
+  result: CalculationResult;
+  inputs: DiagnosticInputs;
+  coefficients?: ModelCoefficients; // Benchmarks quoted in the advice
+  simulation?: SimulationSummary | null; // Adds P10–P90 ranges to the loss figures; only pass one run on the same model
+  acquisition?: AcquisitionResult | null; // Adds the marketing waste, CAC and ROAS card
+  buildUp?: boolean; // Animates the rows in one after another, e.g. at the end of the wizard
+}) => {
+  const i18n = useI18n();
+  const { t, intlLocale, formatCurrency } = i18n;
+  const { colors } = useTheme();
+  const { followUps, responseTime } = inputs;
+
+  const formatRange = (percentiles: Percentiles) =>
+    t('uncertainty.range', { low: formatCurrency(percentiles.p10), high: formatCurrency(percentiles.p90) });
+
+  const barData = getRevenueBarData(result, i18n, colors);
+  const pieData = getLossPieData(result, i18n, colors);
+
+  const formatRoas = (roas: number | null) => (roas === null ? '—' : `${formatNumber(Math.round(roas * 10) / 10, intlLocale)}x`);
+  const formatCac = (cac: number | null) => (cac === null ? '—' : formatCurrency(cac));
+
+  const buildUpClass = buildUp ? ' motion-safe:animate-build-up' : '';
+  const buildUpDelay = (row: number) => (buildUp ? { animationDelay: `${row * BUILD_UP_STEP_MS}ms` } : undefined);
+
+  return (
+    <>
+      {/* ROW 1: CURRENT DIAGNOSIS */}
+      <div className={`bg-gradient-to-r from-primary to-primary-dark rounded-xl shadow-sm p-6 lg:p-8 text-white relative overflow-hidden${buildUpClass}`} style={buildUpDelay(0)}>
+        <div className="absolute right-0 top-0 h-full w-1/2 bg-gradient-to-l from-primary-light to-transparent opacity-30"></div>
+        
+        <div className="flex flex-wrap items-center justify-between gap-6 relative z-10">
+          <div className="flex items-center gap-3">
+            <div className="bg-white/10 p-2 rounded-lg backdrop-blur-sm">
+              <TrendingUp size={24} className="text-blue-200" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">{t('dashboard.currentDiagnosis')}</h2>
+              <p className="text-blue-200 text-sm">{t('dashboard.currentDiagnosisSubtitle')}</p>
+            </div>
+          </div>
+          
+          <div className="flex flex-wrap items-center gap-8 lg:gap-12">
+            <div>
+              <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">{t('dashboard.monthlyRevenue')}</p>
+              <p className="text-3xl lg:text-4xl font-bold tracking-tight">{formatCurrency(result.currentRevenue)}</p>
+            </div>
+            <div className="hidden sm:block w-px h-12 bg-white/10"></div>
+            <div>
+               <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">{t('dashboard.monthlySales')}</p>
+               <p className="text-3xl lg:text-4xl font-bold tracking-tight">{result.currentSales.toFixed(1)}</p>
+            </div>
+            <div className="hidden sm:block w-px h-12 bg-white/10"></div>
+            <div className="bg-white/10 rounded-xl px-5 py-2 backdrop-blur-sm border border-white/10">
+              <p className="text-blue-200 text-xs uppercase tracking-wider font-bold mb-0.5">{t('dashboard.annualProjection')}</p>
+              <p className="text-xl lg:text-2xl font-bold text-white">{formatCurrency(result.annualRevenue)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* ROW 2: LOSS ANALYSIS GRID */}
+      <div className={`grid grid-cols-1 lg:grid-cols-2 ${acquisition ? 'xl:grid-cols-3 ' : ''}gap-6${buildUpClass}`} style={buildUpDelay(1)}>
+        
+        {/* Follow-up Card */}
+        <div className={`${getStatusColor(result.followUpStatus)} rounded-xl shadow-sm p-6 text-white relative overflow-hidden border-t-4 border-white/20 flex flex-col min-h-[200px]`}>
+          <div className="flex justify-between items-start mb-6">
+            <div className="flex items-center gap-3">
+               <div className="bg-black/20 p-2 rounded-lg backdrop-blur-md">
+                  <Phone size={20} />
+               </div>
+               <h3 className="text-xl font-bold">{t('dashboard.followUp')}</h3>
+            </div>
+            <div className="flex items-center gap-2 bg-black/20 px-3 py-1 rounded-full backdrop-blur-md border border-white/10">
+               <span className="text-xs font-bold tracking-wider">{getStatusLabel(result.followUpStatus, i18n)}</span>
+               {result.followUpStatus === 'ADEQUATE' && <CheckCircle2 size={14} className="text-emerald-300" />}
+            </div>
+          </div>
+
+          <p className="text-white/90 text-sm mb-6 leading-relaxed flex-grow">
+            {getFollowUpAdvice(result, followUps, i18n, coefficients)}
+          </p>
+
+          <div className="bg-black/10 rounded-lg p-4">
+             <div className="flex justify-between items-end border-b border-white/10 pb-2 mb-2">
+                <span className="text-sm opacity-80">{t('dashboard.lostSalesMonth')}</span>
+                <span className="font-bold text-lg">{result.followUpLossSales > 0 ? result.followUpLossSales.toFixed(1) : '0'}</span>
+             </div>
+             <div className="flex justify-between items-end">
+                <span className="text-sm opacity-80">{t('dashboard.lostRevenueMonth')}</span>
+                <span className="font-bold text-lg">{formatCurrency(result.followUpLossRevenue)}</span>
+             </div>
+             {simulation && (
+                <p className="text-xs opacity-70 text-right mt-1">{formatRange(simulation.followUpLossRevenue)}</p>
+             )}
+          </div>
+        </div>
+
+        {/* Response Time Card */}
+        <div className={`${getStatusColor(result.responseStatus)} rounded-xl shadow-sm p-6 text-white relative overflow-hidden border-t-4 border-white/20 flex flex-col min-h-[200px]`}>
+          <div className="flex justify-between items-start mb-6">
+            <div className="flex items-center gap-3">
+               <div className="bg-black/20 p-2 rounded-lg backdrop-blur-md">
+                  <Clock size={20} />
+               </div>
+               <h3 className="text-xl font-bold">{t('dashboard.responseTime')}</h3>
+            </div>
+            <div className="flex items-center gap-2 bg-black/20 px-3 py-1 rounded-full backdrop-blur-md border border-white/10">
+               <span className="text-xs font-bold tracking-wider">{getStatusLabel(result.responseStatus, i18n)}</span>
+               {['GOOD', 'EXCELLENT'].includes(result.responseStatus) && <CheckCircle2 size={14} className="text-emerald-300" />}
+            </div>
+          </div>
+
+          <p className="text-white/90 text-sm mb-6 leading-relaxed flex-grow">
+            {getResponseAdvice(result, responseTime, i18n, coefficients)}
+          </p>
+
+          <div className="bg-black/10 rounded-lg p-4">
+             <div className="flex justify-between items-end border-b border-white/10 pb-2 mb-2">
+                <span className="text-sm opacity-80">{t('dashboard.lostSalesMonth')}</span>
+                <span className="font-bold text-lg">{result.responseLossSales > 0 ? result.responseLossSales.toFixed(1) : '0'}</span>
+             </div>
+             <div className="flex justify-between items-end">
+                <span className="text-sm opacity-80">{t('dashboard.lostRevenueMonth')}</span>
+                <span className="font-bold text-lg">{formatCurrency(result.responseLossRevenue)}</span>
+             </div>
+             {simulation && (
+                <p className="text-xs opacity-70 text-right mt-1">{formatRange(simulation.responseLossRevenue)}</p>
+             )}
+          </div>
+        </div>
+
+        {/* Acquisition Cost Card */}
+        {acquisition && (
+          <div className="bg-gradient-to-br from-primary to-primary-dark rounded-xl shadow-sm p-6 text-white relative overflow-hidden border-t-4 border-white/20 flex flex-col min-h-[200px] lg:col-span-2 xl:col-span-1">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="bg-black/20 p-2 rounded-lg backdrop-blur-md">
+                <Megaphone size={20} />
+              </div>
+              <h3 className="text-xl font-bold">{t('costs.title')}</h3>
+            </div>
+
+            <p className="text-white/90 text-sm mb-6 leading-relaxed flex-grow">
+              <RichText
+                text={t('costs.summary', {
+                  amount: formatCurrency(acquisition.wastedMarketing),
+                  costPerLead: formatCurrency(acquisition.costPerLead),
+                })}
+              />
+            </p>
+
+            <div className="bg-black/10 rounded-lg p-4">
+              <div className="flex justify-between items-end border-b border-white/10 pb-2 mb-2">
+                <span className="text-sm opacity-80">{t('costs.wastedMonth')}</span>
+                <span className="font-bold text-lg">{formatCurrency(acquisition.wastedMarketing)}</span>
+              </div>
+              <div className="flex justify-between items-end border-b border-white/10 pb-2 mb-2">
+                <span className="text-sm opacity-80">{t('costs.cac')}</span>
+                <span className="font-bold text-lg">{t('costs.currentToPotential', { current: formatCac(acquisition.currentCac), potential: formatCac(acquisition.potentialCac) })}</span>
+              </div>
+              <div className="flex justify-between items-end">
+                <span className="text-sm opacity-80">{t('costs.roas')}</span>
+                <span className="font-bold text-lg">{t('costs.currentToPotential', { current: formatRoas(acquisition.currentRoas), potential: formatRoas(acquisition.potentialRoas) })}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* ROW 3: IMPACT SUMMARY BANNER */}
+      <div className={`${result.totalLossAnnual > 0 ? 'bg-gradient-to-br from-red-900 via-red-800 to-red-900' : 'bg-gradient-to-br from-primary to-primary-light'} rounded-xl shadow-lg p-6 lg:p-8 text-white relative overflow-hidden${buildUpClass}`} style={buildUpDelay(2)}>
+         {result.totalLossAnnual > 0 && (
+            <div className="absolute -right-10 -top-10 w-64 h-64 bg-red-500 rounded-full opacity-20 blur-3xl"></div>
+         )}
+         
+         <div className="flex flex-col lg:flex-row items-center justify-between gap-8 relative z-10">
+            <div className="flex-1 text-center lg:text-left">
+              <h2 className="text-2xl font-bold mb-2 flex items-center justify-center lg:justify-start gap-3">
+                 {result.totalLossAnnual > 0 ? <AlertTriangle className="text-red-400" size={28} /> : <CheckCircle2 className="text-emerald-400" size={28} />}
+                 {result.totalLossAnnual > 0 ? t('dashboard.totalImpact') : t('dashboard.optimized')}
+              </h2>
+              <p className="text-white/80 text-sm lg:text-base max-w-xl">
+                {result.totalLossAnnual > 0 
+                  ? t('dashboard.totalImpactDescription')
+                  : t('dashboard.optimizedDescription')}
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row items-center gap-8 bg-black/20 p-4 rounded-xl backdrop-blur-md border border-white/10">
+               <div className="text-center">
+                  <p className="text-xs text-white/70 uppercase tracking-wider mb-1">{t('dashboard.efficiency')}</p>
+                  <div className="flex items-baseline justify-center gap-1">
+                    <span className={`text-3xl font-bold ${result.efficiency < 70 ? 'text-red-400' : 'text-emerald-400'}`}>
+                      {result.efficiency.toFixed(0)}%
+                    </span>
+                  </div>
+                  <div className="w-32 h-1.5 bg-white/10 rounded-full mt-2 overflow-hidden">
+                     <div 
+                       className={`h-full rounded-full ${result.efficiency < 70 ? 'bg-red-500' : 'bg-emerald-500'}`} 
+                       style={{ width: `${result.efficiency}%` }}
+                     ></div>
+                  </div>
+               </div>
+               
+               {result.totalLossAnnual > 0 && (
+                 <>
+                   <div className="hidden sm:block w-px h-16 bg-white/20"></div>
+                   <div className="text-center">
+                      <p className="text-xs text-red-200 uppercase tracking-wider mb-1">{t('dashboard.annualWaste')}</p>
+                      <p className="text-3xl lg:text-4xl font-black text-white tracking-tight">{formatCurrency(result.totalLossAnnual)}</p>
+                      {simulation && (
+                        <p className="text-xs text-red-200 mt-1">{formatRange(simulation.totalLossAnnual)}</p>
+                      )}
+                   </div>
+                   {acquisition && acquisition.wastedMarketingAnnual > 0 && (
+                     <>
+                       <div className="hidden sm:block w-px h-16 bg-white/20"></div>
+                       <div className="text-center">
+                          <p className="text-xs text-red-200 uppercase tracking-wider mb-1">{t('costs.wastedYear')}</p>
+                          <p className="text-2xl lg:text-3xl font-bold text-white tracking-tight">{formatCurrency(acquisition.wastedMarketingAnnual)}</p>
+                       </div>
+                     </>
+                   )}
+                 </>
+               )}
+            </div>
+         </div>
+      </div>
+
+      {/* ROW 4: CHARTS */}
+      {result.totalLossAnnual > 0 && (
+      <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6${buildUpClass}`} style={buildUpDelay(3)}>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[300px]">
+          <h3 className="text-primary font-bold mb-4 flex items-center gap-2">
+            <BarChart3 size={20} className="text-accent" /> {t('dashboard.salesPotential')}
+          </h3>
+          <div className="flex-grow w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={barData}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                <XAxis 
+                  dataKey="name" 
+                  axisLine={false} 
+                  tickLine={false}
+                  tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
+                  dy={10}
+                />
+                <YAxis hide />
+                <Tooltip 
+                  cursor={{fill: '#f9fafb'}}
+                  formatter={(value: number) => [formatCurrency(value), t('chart.revenue')]}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="value" radius={[4, 4, 0, 0]} barSize={50}>
+                  <LabelList 
+                    dataKey="value" 
+                    position="top" 
+                    formatter={(val: number) => formatCurrency(val)} 
+                    style={{ fontSize: '11px', fontWeight: 'bold', fill: '#374151' }} 
+                  />
+                  {barData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[300px]">
+          <h3 className="text-primary font-bold mb-4 flex items-center gap-2">
+             <PieChartIcon size={20} className="text-accent" /> {t('dashboard.lossComposition')}
+          </h3>
+          <div className="flex-grow w-full relative">
+             <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie
+                  data={pieData}
+                  cx="50%"
+                  cy="50%"
+                  innerRadius={60}
+                  outerRadius={80}
+                  paddingAngle={5}
+                  dataKey="value"
+                  stroke="none"
+                >
+                  {pieData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  ))}
+                </Pie>
+                <Tooltip 
+                   formatter={(value: number) => formatCurrency(value)}
+                   contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+            <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center pointer-events-none">
+               <p className="text-xs text-gray-400 uppercase tracking-widest mb-1">{t('dashboard.total')}</p>
+               <p className="text-sm font-bold text-gray-800">{formatCurrency(result.totalLossAnnual)}</p>
+            </div>
+          </div>
+          <div className="flex justify-center gap-6 mt-4">
+              {pieData.map((item, idx) => (
+                  <div key={idx} className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                      <div className="w-3 h-3 rounded-full" style={{backgroundColor: item.color}}></div>
+                      {item.name}
+                  </div>
+              ))}
+          </div>
+        </div>
+      </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,294 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  PieChart,
+  Pie,
+  Cell,
+  LabelList
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { CalculationResult, DEFAULT_COEFFICIENTS, DiagnosticInputs, ModelCoefficients } from '../engine/diagnostic';
+import { EVIDENCE, EvidenceItem, EvidenceTag } from '../data/evidence';
+import { stripEmphasis } from '../i18n';
+import { getLossPieData, getRevenueBarData } from '../utils/chartData';
+import { useI18n } from '../i18n/I18nProvider';
+import { findEvidenceFor } from '../utils/evidence';
+import { getInputRows } from '../utils/inputs';
+import { getFollowUpAdvice, getResponseAdvice, getStatusColor, getStatusLabel } from '../utils/status';
+import { Logo } from './Logo';
+
+// --- Printable Report ---
+// Rendered only while printing. Charts use fixed sizes and no animation so they are
+// fully drawn when the browser snapshots the page; everything is local, so it works offline.
+
+const REPORT_CHART_WIDTH = 640;
+const REPORT_CHART_HEIGHT = 260;
+
+const ReportHeader = ({ generatedAt, page }: { generatedAt: Date; page: number }) => {
+  const { t, intlLocale } = useI18n();
+  return (
+    <div className="flex items-center justify-between border-b-2 border-accent pb-4 mb-8">
+      <Logo />
+      <div className="text-right">
+        <p className="text-sm font-bold text-primary">{t('app.title')}</p>
+        <p className="text-xs text-gray-500">
+          {generatedAt.toLocaleDateString(intlLocale)} · {t('report.page', { page })}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h2 className="text-lg font-bold text-primary mb-4">{children}</h2>
+);
+
+const LossCard = ({
+  title,
+  status,
+  advice,
+  lossSales,
+  lossRevenue,
+  lossAnnual,
+  citation,
+}: {
+  title: string;
+  status: string;
+  advice: string;
+  lossSales: number;
+  lossRevenue: number;
+  lossAnnual: number;
+  citation?: number; // Number of the supporting study in the references list
+}) => {
+  const i18n = useI18n();
+  const { t, formatCurrency } = i18n;
+  return (
+    <div className={`${getStatusColor(status)} rounded-xl p-5 text-white flex flex-col break-inside-avoid`}>
+      <div className="flex justify-between items-start mb-3">
+        <h3 className="text-lg font-bold">{title}</h3>
+        <span className="text-xs font-bold tracking-wider bg-black/20 px-3 py-1 rounded-full">{getStatusLabel(status, i18n)}</span>
+      </div>
+      <p className="text-white/90 text-sm mb-4 leading-relaxed flex-grow">
+        {advice}
+        {citation !== undefined && <span className="block text-xs text-white/70 mt-2">{t('report.citation', { n: citation })}</span>}
+      </p>
+      <div className="bg-black/10 rounded-lg p-3 text-sm space-y-1">
+        <div className="flex justify-between">
+          <span className="opacity-80">{t('dashboard.lostSalesMonth')}</span>
+          <span className="font-bold">{lossSales > 0 ? lossSales.toFixed(1) : '0'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="opacity-80">{t('dashboard.lostRevenueMonth')}</span>
+          <span className="font-bold">{formatCurrency(lossRevenue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="opacity-80">{t('dashboard.lostRevenueYear')}</span>
+          <span className="font-bold">{formatCurrency(lossAnnual)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const DiagnosticReport = ({
+  result,
+  inputs,
+  coefficients = DEFAULT_COEFFICIENTS,
+  evidence = EVIDENCE,
+  generatedAt,
+}: {
+  result: CalculationResult;
+  inputs: DiagnosticInputs;
+  coefficients?: ModelCoefficients;
+  evidence?: EvidenceItem[]; // Ranked for this result; cited in this order
+  generatedAt: Date;
+}) => {
+  const i18n = useI18n();
+  const { colors } = useTheme();
+  // Number in the references list (page 3) of the top study behind each loss card
+  const citationFor = (tag: EvidenceTag) => {
+    const item = findEvidenceFor(evidence, tag);
+    return item ? evidence.indexOf(item) + 1 : undefined;
+  };
+  const { t, formatCurrency } = i18n;
+  const barData = getRevenueBarData(result, i18n, colors);
+  const pieData = getLossPieData(result, i18n, colors);
+  const inputRows = getInputRows(inputs, i18n);
+
+  return (
+    <div className="hidden print:block bg-white text-gray-800 font-sans">
+      {/* PAGE 1: INPUTS, CURRENT DIAGNOSIS AND IMPACT */}
+      <section className="break-after-page">
+        <ReportHeader generatedAt={generatedAt} page={1} />
+
+        <SectionTitle>{t('report.inputs')}</SectionTitle>
+        <table className="w-full text-sm mb-8">
+          <tbody>
+            {inputRows.map((row) => (
+              <tr key={row.key} className="border-b border-gray-100">
+                <td className="py-2 text-gray-600">{row.label}</td>
+                <td className="py-2 text-right font-bold text-primary">{row.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="bg-gradient-to-r from-primary to-primary-dark rounded-xl p-6 text-white mb-8">
+          <h2 className="text-lg font-bold mb-4">{t('dashboard.currentDiagnosis')}</h2>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">{t('dashboard.monthlyRevenue')}</p>
+              <p className="text-2xl font-bold">{formatCurrency(result.currentRevenue)}</p>
+            </div>
+            <div>
+              <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">{t('dashboard.monthlySales')}</p>
+              <p className="text-2xl font-bold">{result.currentSales.toFixed(1)}</p>
+            </div>
+            <div>
+              <p className="text-blue-300 text-xs uppercase tracking-wider font-medium mb-1">{t('dashboard.annualProjection')}</p>
+              <p className="text-2xl font-bold">{formatCurrency(result.annualRevenue)}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className={`${result.totalLossAnnual > 0 ? 'bg-red-900' : 'bg-primary'} rounded-xl p-6 text-white`}>
+          <h2 className="text-xl font-bold mb-2">
+            {result.totalLossAnnual > 0 ? t('dashboard.totalImpact') : t('dashboard.optimized')}
+          </h2>
+          <p className="text-white/80 text-sm mb-4">
+            {result.totalLossAnnual > 0
+              ? t('dashboard.totalImpactDescription')
+              : t('dashboard.optimizedDescription')}
+          </p>
+          <div className="flex gap-12">
+            <div>
+              <p className="text-xs text-white/70 uppercase tracking-wider mb-1">{t('dashboard.efficiency')}</p>
+              <p className={`text-3xl font-bold ${result.efficiency < 70 ? 'text-red-300' : 'text-emerald-300'}`}>
+                {result.efficiency.toFixed(0)}%
+              </p>
+            </div>
+            {result.totalLossAnnual > 0 && (
+              <div>
+                <p className="text-xs text-red-200 uppercase tracking-wider mb-1">{t('dashboard.annualWaste')}</p>
+                <p className="text-3xl font-black">{formatCurrency(result.totalLossAnnual)}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* PAGE 2: LOSS ANALYSIS AND CHARTS */}
+      <section className="break-after-page">
+        <ReportHeader generatedAt={generatedAt} page={2} />
+
+        <SectionTitle>{t('report.lossAnalysis')}</SectionTitle>
+        <div className="grid grid-cols-2 gap-4 mb-8">
+          <LossCard
+            title={t('dashboard.followUp')}
+            status={result.followUpStatus}
+            advice={getFollowUpAdvice(result, inputs.followUps, i18n, coefficients)}
+            lossSales={result.followUpLossSales}
+            lossRevenue={result.followUpLossRevenue}
+            lossAnnual={result.followUpLossAnnual}
+            citation={citationFor('follow-up')}
+          />
+          <LossCard
+            title={t('dashboard.responseTime')}
+            status={result.responseStatus}
+            advice={getResponseAdvice(result, inputs.responseTime, i18n, coefficients)}
+            lossSales={result.responseLossSales}
+            lossRevenue={result.responseLossRevenue}
+            lossAnnual={result.responseLossAnnual}
+            citation={citationFor('response-time')}
+          />
+        </div>
+
+        <SectionTitle>{t('dashboard.salesPotential')}</SectionTitle>
+        <BarChart
+          width={REPORT_CHART_WIDTH}
+          height={REPORT_CHART_HEIGHT}
+          data={barData}
+          margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+          className="mb-6"
+        >
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}} dy={10} />
+          <YAxis hide />
+          <Bar dataKey="value" radius={[4, 4, 0, 0]} barSize={50} isAnimationActive={false}>
+            <LabelList
+              dataKey="value"
+              position="top"
+              formatter={(val: number) => formatCurrency(val)}
+              style={{ fontSize: '11px', fontWeight: 'bold', fill: '#374151' }}
+            />
+            {barData.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill={entry.fill} />
+            ))}
+          </Bar>
+        </BarChart>
+
+        {pieData.length > 0 && (
+          <div className="break-inside-avoid">
+            <SectionTitle>{t('dashboard.lossComposition')}</SectionTitle>
+            <div className="flex items-center gap-8">
+              <PieChart width={220} height={220}>
+                <Pie
+                  data={pieData}
+                  cx="50%"
+                  cy="50%"
+                  innerRadius={60}
+                  outerRadius={90}
+                  paddingAngle={5}
+                  dataKey="value"
+                  stroke="none"
+                  isAnimationActive={false}
+                >
+                  {pieData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  ))}
+                </Pie>
+              </PieChart>
+              <div className="space-y-2 text-sm">
+                {pieData.map((item) => (
+                  <div key={item.name} className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }}></div>
+                    <span className="text-gray-600">{item.name}:</span>
+                    <span className="font-bold">{t('report.perYear', { amount: formatCurrency(item.value) })}</span>
+                  </div>
+                ))}
+                <p className="pt-2 border-t border-gray-100 font-bold" style={{ color: colors.primary }}>
+                  {t('report.totalPerYear', { amount: formatCurrency(result.totalLossAnnual) })}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* PAGE 3: MARKET DATA */}
+      <section>
+        <ReportHeader generatedAt={generatedAt} page={3} />
+
+        <SectionTitle>{t('report.marketData')}</SectionTitle>
+        <ol className="space-y-4 text-sm list-decimal pl-5 mb-8">
+          {evidence.map((item) => (
+            <li key={item.id}>
+              <p className="text-gray-800">{stripEmphasis(t(item.claimKey))}</p>
+              <p className="text-gray-500">
+                <span className="font-bold">{item.source}</span> — <span className="break-all">{item.url}</span>
+              </p>
+            </li>
+          ))}
+        </ol>
+
+        <p className="text-xs text-gray-400 border-t border-gray-100 pt-4">
+          {t('report.disclaimer', { version: result.modelVersion })}
+        </p>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ArrowRight, HelpCircle, SlidersHorizontal } from 'lucide-react';
+import { DEFAULT_INPUTS, DiagnosticInputs, INPUT_KEYS, INPUT_RANGES } from '../engine/diagnostic';
+import { getSegmentPreset, SEGMENT_PRESETS } from '../data/segmentPresets';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { getInputLabel } from '../utils/inputs';
+import { SliderInput, TimeSliderInput } from './SliderInput';
+
+// --- Guided Wizard ---
+// One plain-language question per step for visitors who don't know the sales jargon. The first
+// step picks the segment, whose typical values answer any "I don't know".
+
+export interface WizardAnswers {
+  segment: string | null;
+  inputs: DiagnosticInputs;
+  estimated: (keyof DiagnosticInputs)[]; // Answered with the segment's typical value
+}
+
+type WizardStep = 'segment' | keyof DiagnosticInputs;
+
+const STEPS: WizardStep[] = ['segment', ...INPUT_KEYS];
+
+const getSegmentInputs = (segment: string | null): DiagnosticInputs => ({
+  ...DEFAULT_INPUTS,
+  ...getSegmentPreset(segment)?.inputs,
+});
+
+export const DiagnosticWizard = ({
+  initialSegment,
+  onComplete,
+  onExit,
+}: {
+  initialSegment: string | null;
+  onComplete: (answers: WizardAnswers) => void;
+  onExit: () => void;
+}) => {
+  const i18n = useI18n();
+  const { t, currencySymbol } = i18n;
+  const [stepIndex, setStepIndex] = useState(0);
+  const [segment, setSegment] = useState(initialSegment);
+  const [values, setValues] = useState(() => getSegmentInputs(initialSegment));
+  const [estimated, setEstimated] = useState<(keyof DiagnosticInputs)[]>([]);
+
+  const step = STEPS[stepIndex];
+  const isLast = stepIndex === STEPS.length - 1;
+
+  const goTo = (index: number, answers: WizardAnswers) => {
+    if (index < STEPS.length) {
+      setStepIndex(index);
+    } else {
+      onComplete(answers);
+    }
+  };
+
+  // Picking a segment starts the answers over from its typical values
+  const handleSegment = (id: string | null) => {
+    const inputs = getSegmentInputs(id);
+    setSegment(id);
+    setValues(inputs);
+    setEstimated([]);
+    goTo(stepIndex + 1, { segment: id, inputs, estimated: [] });
+  };
+
+  const handleAnswer = (key: keyof DiagnosticInputs, unknown: boolean) => {
+    const inputs = unknown ? { ...values, [key]: getSegmentInputs(segment)[key] } : values;
+    const nextEstimated = estimated.filter((k) => k !== key).concat(unknown ? [key] : []);
+    setValues(inputs);
+    setEstimated(nextEstimated);
+    goTo(stepIndex + 1, { segment, inputs, estimated: nextEstimated });
+  };
+
+  const update = (key: keyof DiagnosticInputs, value: number) => setValues((prev) => ({ ...prev, [key]: value }));
+
+  const renderInput = (key: keyof DiagnosticInputs) => {
+    const label = getInputLabel(key, i18n);
+    if (key === 'responseTime') {
+      return <TimeSliderInput label={label} value={values.responseTime} onChange={(val) => update(key, val)} />;
+    }
+    return (
+      <SliderInput
+        label={label}
+        value={values[key]}
+        onChange={(val) => update(key, val)}
+        min={INPUT_RANGES[key].min}
+        max={INPUT_RANGES[key].max}
+        step={INPUT_RANGES[key].step}
+        unit={key === 'conversion' ? '%' : ''}
+        prefix={key === 'ticket' ? `${currencySymbol} ` : ''}
+        highlightColor={key === 'followUps' ? 'orange' : 'blue'}
+      />
+    );
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <p className="text-sm font-medium text-gray-500 text-center mb-4">{t('wizard.title')}</p>
+
+      {/* Progress */}
+      <div className="mb-6">
+        <p className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">
+          {t('wizard.progress', { step: stepIndex + 1, total: STEPS.length })}
+        </p>
+        <div
+          className="h-1.5 bg-gray-200 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuemin={1}
+          aria-valuemax={STEPS.length}
+          aria-valuenow={stepIndex + 1}
+        >
+          <div className="h-full bg-accent rounded-full transition-all duration-500" style={{ width: `${((stepIndex + 1) / STEPS.length) * 100}%` }}></div>
+        </div>
+      </div>
+
+      <div key={step} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 lg:p-8 motion-safe:animate-build-up">
+        <h2 className="text-xl lg:text-2xl font-bold text-primary mb-2">{t(`wizard.${step}.question` as MessageKey)}</h2>
+        <p className="text-sm text-gray-500 mb-6">{t(`wizard.${step}.hint` as MessageKey)}</p>
+
+        {step === 'segment' ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {SEGMENT_PRESETS.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => handleSegment(p.id)}
+                className={`px-4 py-3 rounded-lg border text-sm font-medium text-left transition-colors ${segment === p.id ? 'border-primary bg-blue-50 text-primary' : 'border-gray-200 text-gray-700 hover:border-primary hover:text-primary'}`}
+              >
+                {t(`segments.${p.id}` as MessageKey)}
+              </button>
+            ))}
+            <button
+              onClick={() => handleSegment(null)}
+              className="px-4 py-3 rounded-lg border border-dashed border-gray-300 text-sm font-medium text-left text-gray-500 hover:border-primary hover:text-primary transition-colors"
+            >
+              {t('wizard.segment.other')}
+            </button>
+          </div>
+        ) : (
+          <>
+            {renderInput(step)}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <button
+                onClick={() => handleAnswer(step, true)}
+                className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary transition-colors"
+              >
+                <HelpCircle size={16} /> {t('wizard.dontKnow')}
+              </button>
+              <button
+                onClick={() => handleAnswer(step, false)}
+                className="flex items-center justify-center gap-2 bg-accent hover:bg-accent-dark text-white px-6 py-3 rounded-lg font-bold text-sm transition-all shadow-lg"
+              >
+                {isLast ? t('wizard.finish') : t('wizard.next')} <ArrowRight size={16} />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-between items-center mt-4">
+        <button
+          onClick={() => setStepIndex((prev) => prev - 1)}
+          disabled={stepIndex === 0}
+          className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary transition-colors disabled:invisible"
+        >
+          <ArrowLeft size={16} /> {t('wizard.back')}
+        </button>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary transition-colors"
+        >
+          <SlidersHorizontal size={14} /> {t('wizard.expert')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import {
+  BOUNDED_BUCKET_IDS,
+  BoundedBucketId,
+  DISTRIBUTION_RANGE,
+  getBucketShares,
+  RESPONSE_BUCKETS,
+  ResponseDistribution,
+} from '../engine/responseDistribution';
+import { useI18n } from '../i18n/I18nProvider';
+import { SliderInput } from './SliderInput';
+
+export const DistributionInputs = ({
+  distribution,
+  onChange,
+}: {
+  distribution: ResponseDistribution;
+  onChange: (id: BoundedBucketId, value: number) => void;
+}) => {
+  const { t, formatTime } = useI18n();
+  const shares = getBucketShares(distribution);
+  const remaining = shares[shares.length - 1] * 100;
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-4">{t('distribution.hint')}</p>
+      {BOUNDED_BUCKET_IDS.map((id) => {
+        const bucket = RESPONSE_BUCKETS.find((b) => b.id === id)!;
+        return (
+          <SliderInput
+            key={id}
+            label={t('distribution.within', { limit: formatTime(bucket.maxMinutes ?? 0) })}
+            value={distribution[id]}
+            onChange={(val) => onChange(id, val)}
+            min={DISTRIBUTION_RANGE.min}
+            max={DISTRIBUTION_RANGE.max}
+            step={DISTRIBUTION_RANGE.step}
+            unit="%"
+            highlightColor="orange"
+          />
+        );
+      })}
+      <p className="text-sm font-bold text-primary mb-6">
+        {t('distribution.remaining', { value: remaining.toFixed(0) })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { FunnelStage } from '../engine/funnel';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { RichText } from './RichText';
+
+// Each bar is the stage volume today plus what the two losses keep from reaching it.
+// Response time losses show up from "contacted" down; follow-up losses only at "won".
+export const FunnelChart = ({ stages }: { stages: FunnelStage[] }) => {
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const won = stages[stages.length - 1];
+
+  const data = stages.map((stage) => ({
+    name: t(`funnel.${stage.id}` as MessageKey),
+    count: stage.count,
+    responseGap: stage.responseGap,
+    followUpGap: stage.followUpGap,
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col">
+      <h3 className="text-primary font-bold mb-2 flex items-center gap-2">
+        <Filter size={20} className="text-accent" /> {t('funnel.title')}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        <RichText text={t('funnel.dropOut', { response: won.responseGap.toFixed(1), followUp: won.followUpGap.toFixed(1) })} />
+      </p>
+      <div className="h-[280px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f3f4f6" />
+            <XAxis
+              type="number"
+              tick={{fontSize: 11, fill: '#6b7280'}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={100}
+              tick={{fontSize: 11, fill: '#374151', fontWeight: 500}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <Tooltip
+              cursor={{fill: '#f9fafb'}}
+              formatter={(value: number) => value.toFixed(1)}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Bar dataKey="count" name={t('funnel.current')} stackId="stage" fill={colors.primary} barSize={24} />
+            <Bar dataKey="responseGap" name={t('funnel.responseGap')} stackId="stage" fill={colors.accent} barSize={24} />
+            <Bar dataKey="followUpGap" name={t('funnel.followUpGap')} stackId="stage" fill={colors.accentLight} barSize={24} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { FUNNEL_RATE_KEYS, FUNNEL_RATE_RANGE, FunnelRates, getFunnelConversion } from '../engine/funnel';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { SliderInput } from './SliderInput';
+
+export const FunnelInputs = ({
+  rates,
+  onChange,
+}: {
+  rates: FunnelRates;
+  onChange: (key: keyof FunnelRates, value: number) => void;
+}) => {
+  const { t } = useI18n();
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-4">{t('sidebar.funnelModeHint')}</p>
+      {FUNNEL_RATE_KEYS.map((key) => (
+        <SliderInput
+          key={key}
+          label={t('funnel.rateLabel', { stage: t(`funnel.${key}` as MessageKey) })}
+          value={rates[key]}
+          onChange={(val) => onChange(key, val)}
+          min={FUNNEL_RATE_RANGE.min}
+          max={FUNNEL_RATE_RANGE.max}
+          step={FUNNEL_RATE_RANGE.step}
+          unit="%"
+          highlightColor="blue"
+        />
+      ))}
+      <p className="text-sm font-bold text-primary">
+        {t('funnel.overallConversion', { value: getFunnelConversion(rates).toFixed(1) })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React from 'react';
+import { Target, ArrowRight, CheckCircle2, AlertTriangle, ListOrdered } from 'lucide-react';
+import { GoalLevers, GoalMetric, GoalSeekOptions, GoalSeekResult } from '../engine/goalSeek';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { RichText } from './RichText';
+import { SliderInput } from './SliderInput';
+
+const METRICS: { id: GoalMetric; label: MessageKey }[] = [
+  { id: 'revenue', label: 'goal.metricRevenue' },
+  { id: 'efficiency', label: 'goal.metricEfficiency' },
+];
+
+const LEVERS: { id: GoalLevers; label: MessageKey }[] = [
+  { id: 'both', label: 'goal.leversBoth' },
+  { id: 'followUps', label: 'goal.leversFollowUps' },
+  { id: 'responseTime', label: 'goal.leversResponseTime' },
+];
+
+// Slider step for the revenue target: about a hundredth of today's monthly loss, rounded to a power of ten
+const getRevenueStep = (loss: number) => 10 ** Math.max(0, Math.floor(Math.log10(Math.max(loss, 1))) - 2);
+
+const SummaryTile = ({ label, from, to }: { label: string; from: string; to: string }) => (
+  <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+    <p className="text-xs font-bold text-gray-400 uppercase mb-2">{label}</p>
+    <p className="text-lg font-bold text-gray-900 flex items-center gap-2">
+      <span className="text-gray-400">{from}</span>
+      <ArrowRight size={14} className="text-accent" />
+      {to}
+    </p>
+  </div>
+);
+
+const ToggleGroup = <T extends string>({
+  items,
+  value,
+  onChange,
+}: {
+  items: { id: T; label: MessageKey }[];
+  value: T;
+  onChange: (id: T) => void;
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+      {items.map((item) => (
+        <button
+          key={item.id}
+          onClick={() => onChange(item.id)}
+          className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${value === item.id ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-primary'}`}
+        >
+          {t(item.label)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const GoalSeekPanel = ({
+  goal,
+  options,
+  onOptionsChange,
+  onApply,
+  approximated = false,
+}: {
+  goal: GoalSeekResult;
+  options: GoalSeekOptions;
+  onOptionsChange: (options: GoalSeekOptions) => void;
+  approximated?: boolean; // The dashboard's result comes from another model (channels, funnel…)
+  onApply?: () => void; // Left out when the sliders don't drive follow-ups and response time
+}) => {
+  const { t, formatCurrency, formatTime, currencySymbol } = useI18n();
+  const current = goal.baselineResult;
+  const revenueStep = getRevenueStep(current.totalLossRevenue);
+  const revenueMax = Math.max(revenueStep, Math.ceil(current.totalLossRevenue / revenueStep) * revenueStep);
+
+  const update = (patch: Partial<GoalSeekOptions>) => onOptionsChange({ ...options, ...patch });
+
+  // A new metric starts from a target halfway to the most the model can give back
+  const handleMetricChange = (metric: GoalMetric) => {
+    if (metric === options.metric) return;
+    const target = metric === 'revenue'
+      ? Math.round(current.totalLossRevenue / 2 / revenueStep) * revenueStep
+      : Math.min(100, Math.ceil((current.efficiency + 100) / 2));
+    update({ metric, target });
+  };
+
+  const formatTarget = (value: number) => (options.metric === 'revenue' ? formatCurrency(value) : `${value.toFixed(0)}%`);
+  const changed = goal.path.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+          <h3 className="text-primary font-bold flex items-center gap-2">
+            <Target size={20} className="text-accent" /> {t('goal.title')}
+          </h3>
+          <ToggleGroup items={METRICS} value={options.metric} onChange={handleMetricChange} />
+        </div>
+        <p className={`text-sm text-gray-500 ${approximated ? 'mb-2' : 'mb-6'}`}>{t('goal.description')}</p>
+        {approximated && <p className="text-xs text-gray-400 mb-6">{t('goal.approxNote')}</p>}
+
+        {options.metric === 'revenue' ? (
+          <SliderInput
+            label={t('goal.targetRevenue')}
+            value={options.target}
+            onChange={(val) => update({ target: val })}
+            min={0}
+            max={revenueMax}
+            step={revenueStep}
+            prefix={`${currencySymbol} `}
+            highlightColor="orange"
+          />
+        ) : (
+          <SliderInput
+            label={t('goal.targetEfficiency')}
+            value={options.target}
+            onChange={(val) => update({ target: val })}
+            min={0}
+            max={100}
+            step={1}
+            unit="%"
+            highlightColor="orange"
+          />
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-gray-700">{t('goal.levers')}</span>
+          <ToggleGroup items={LEVERS} value={options.levers} onChange={(levers) => update({ levers })} />
+        </div>
+      </div>
+
+      <div
+        className={`flex items-start gap-3 rounded-lg border p-4 text-sm ${goal.reachable ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}
+        role="status"
+      >
+        {goal.reachable ? <CheckCircle2 size={18} className="shrink-0" /> : <AlertTriangle size={18} className="shrink-0" />}
+        <p>
+          <RichText
+            text={
+              goal.alreadyMet
+                ? t('goal.alreadyMet', { target: formatTarget(options.target) })
+                : goal.reachable
+                  ? t('goal.reachable', { target: formatTarget(options.target) })
+                  : t('goal.unreachable', { target: formatTarget(options.target), best: formatCurrency(goal.extraRevenue), efficiency: goal.result.efficiency.toFixed(0) })
+            }
+          />
+        </p>
+      </div>
+
+      {changed && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <SummaryTile label={t('inputs.followUps')} from={String(goal.baseline.followUps)} to={String(goal.solution.followUps)} />
+            <SummaryTile label={t('inputs.responseTime')} from={formatTime(goal.baseline.responseTime)} to={formatTime(goal.solution.responseTime)} />
+            <SummaryTile label={t('goal.extraRevenue')} from={formatCurrency(0)} to={formatCurrency(goal.extraRevenue)} />
+            <SummaryTile label={t('dashboard.efficiency')} from={`${current.efficiency.toFixed(0)}%`} to={`${goal.result.efficiency.toFixed(0)}%`} />
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <h3 className="text-primary font-bold mb-4 flex items-center gap-2">
+              <ListOrdered size={20} className="text-accent" /> {t('goal.pathTitle')}
+            </h3>
+            <ol className="space-y-3">
+              {goal.path.map((step, index) => (
+                <li key={index} className="flex items-start gap-3 text-sm">
+                  <span className="shrink-0 w-6 h-6 rounded-full bg-primary text-white text-xs font-bold flex items-center justify-center">{index + 1}</span>
+                  <div>
+                    <p className="font-medium text-gray-800">
+                      {step.lever === 'followUps'
+                        ? t('goal.stepFollowUps', { followUps: step.followUps })
+                        : t('goal.stepResponseTime', { time: formatTime(step.responseTime) })}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {t('goal.stepOutcome', { amount: formatCurrency(step.extraRevenue), efficiency: step.efficiency.toFixed(0) })}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            <div className="border-t border-gray-100 mt-6 pt-4 flex flex-wrap items-center gap-4">
+              <button
+                onClick={onApply}
+                disabled={!onApply}
+                className="bg-primary hover:bg-primary-dark disabled:opacity-50 text-white px-4 py-2 rounded-lg font-bold text-sm transition-colors"
+              >
+                {t('goal.apply')}
+              </button>
+              {!onApply && <p className="text-xs text-gray-400">{t('goal.applyDisabled')}</p>}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Save, FolderOpen, Trash2 } from 'lucide-react';
+import { MODEL_VERSION } from '../engine/diagnostic';
+import { useI18n } from '../i18n/I18nProvider';
+import { SavedDiagnostic } from '../services/history';
+
+export const HistoryDrawer = ({
+  saved,
+  onSave,
+  onOpen,
+  onDelete,
+  onClose,
+}: {
+  saved: SavedDiagnostic[];
+  onSave: (name: string) => void;
+  onOpen: (record: SavedDiagnostic) => void;
+  onDelete: (record: SavedDiagnostic) => void;
+  onClose: () => void;
+}) => {
+  const { t, intlLocale, formatCurrency } = useI18n();
+  const [name, setName] = useState('');
+  const nameRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    nameRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  const formatDate = (iso: string) =>
+    new Intl.DateTimeFormat(intlLocale, { dateStyle: 'short', timeStyle: 'short' }).format(new Date(iso));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex justify-end print:hidden" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-title"
+        className="bg-white shadow-2xl w-full max-w-md h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 id="history-title" className="text-lg font-bold text-primary">{t('history.title')}</h2>
+          <button onClick={onClose} aria-label={t('history.close')} className="text-gray-400 hover:text-primary transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-100">
+          <label htmlFor="history-name" className="block text-sm font-medium text-gray-700 mb-1">{t('history.nameLabel')}</label>
+          <div className="flex gap-2">
+            <input
+              ref={nameRef}
+              id="history-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('history.namePlaceholder')}
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:border-primary"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="flex items-center gap-2 bg-primary hover:bg-primary-dark disabled:opacity-50 text-white px-4 py-2 rounded-lg font-bold text-sm transition-colors"
+            >
+              <Save size={14} /> {t('history.save')}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">{t('history.storageNote')}</p>
+        </form>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+          {saved.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center">{t('history.empty')}</p>
+          ) : (
+            <ul className="space-y-3">
+              {saved.map((record) => (
+                <li key={record.id} className="border border-gray-100 rounded-lg p-4">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <p className="font-bold text-gray-800 break-words">{record.name}</p>
+                    {record.modelVersion !== MODEL_VERSION && (
+                      <span className="shrink-0 text-[10px] font-bold uppercase text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">
+                        {t('history.modelVersion', { version: record.modelVersion })}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">{t('history.savedAt', { date: formatDate(record.savedAt) })}</p>
+                  <p className="text-xs text-gray-500 mb-3">{t('history.annualLoss', { amount: formatCurrency(record.totalLossAnnual) })}</p>
+                  <div className="flex gap-4">
+                    <button
+                      onClick={() => onOpen(record)}
+                      className="flex items-center gap-1 text-sm font-medium text-primary hover:text-primary-dark transition-colors"
+                    >
+                      <FolderOpen size={14} /> {t('history.open')}
+                    </button>
+                    <button
+                      onClick={() => onDelete(record)}
+                      className="flex items-center gap-1 text-sm font-medium text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 size={14} /> {t('history.delete')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
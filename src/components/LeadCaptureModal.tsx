@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Send, CheckCircle2, Loader2, Clock } from 'lucide-react';
+import { SEGMENT_PRESETS } from '../data/segmentPresets';
+import { CalculationResult, DiagnosticInputs } from '../engine/diagnostic';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { buildLeadPayload, LeadContact, submitLead } from '../services/leadCapture';
+import { formatBrazilianPhone, isValidBrazilianPhone, isValidEmail } from '../utils/validation';
+
+const SEGMENTS = [...SEGMENT_PRESETS.map((preset) => preset.id), 'other'];
+
+const EMPTY_CONTACT: LeadContact = {
+  name: '',
+  company: '',
+  email: '',
+  whatsapp: '',
+  segment: '',
+  consent: false,
+};
+
+type FieldErrors = Partial<Record<keyof LeadContact, MessageKey>>;
+type SubmitState = 'idle' | 'submitting' | 'sent' | 'queued';
+
+const validate = (contact: LeadContact): FieldErrors => {
+  const errors: FieldErrors = {};
+  if (contact.name.trim().length < 2) errors.name = 'lead.errorName';
+  if (!contact.company.trim()) errors.company = 'lead.errorCompany';
+  if (!isValidEmail(contact.email)) errors.email = 'lead.errorEmail';
+  if (!isValidBrazilianPhone(contact.whatsapp)) errors.whatsapp = 'lead.errorWhatsapp';
+  if (!contact.segment) errors.segment = 'lead.errorSegment';
+  if (!contact.consent) errors.consent = 'lead.errorConsent';
+  return errors;
+};
+
+const Field = ({
+  id,
+  label,
+  error,
+  children,
+}: {
+  id: string;
+  label: string;
+  error?: string;
+  children: React.ReactNode;
+}) => (
+  <div>
+    <label htmlFor={id} className="block text-gray-700 font-medium text-sm mb-1">{label}</label>
+    {children}
+    {error && <p id={`${id}-error`} className="text-xs text-red-600 mt-1">{error}</p>}
+  </div>
+);
+
+const inputClass = (error?: MessageKey) =>
+  `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 ${error ? 'border-red-400' : 'border-gray-200 focus:border-primary'}`;
+
+export const LeadCaptureModal = ({
+  inputs,
+  result,
+  segment,
+  onClose,
+}: {
+  inputs: DiagnosticInputs;
+  result: CalculationResult;
+  segment?: string | null; // Preselects the segment picked in the calculator
+  onClose: () => void;
+}) => {
+  const { t } = useI18n();
+  const [contact, setContact] = useState<LeadContact>(() => ({
+    ...EMPTY_CONTACT,
+    segment: segment && SEGMENTS.includes(segment) ? segment : '',
+  }));
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [submitState, setSubmitState] = useState<SubmitState>('idle');
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    firstFieldRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const update = <K extends keyof LeadContact>(key: K, value: LeadContact[K]) => {
+    setContact((prev) => ({ ...prev, [key]: value }));
+    if (errors[key]) setErrors((prev) => ({ ...prev, [key]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = validate(contact);
+    setErrors(validation);
+    if (Object.keys(validation).length) return;
+
+    setSubmitState('submitting');
+    const outcome = await submitLead(buildLeadPayload(contact, inputs, result));
+    setSubmitState(outcome);
+  };
+
+  const describedBy = (key: keyof LeadContact) => (errors[key] ? `lead-${key}-error` : undefined);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 print:hidden"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="lead-capture-title"
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 id="lead-capture-title" className="text-lg font-bold text-primary">{t('lead.title')}</h2>
+          <button onClick={onClose} aria-label={t('lead.close')} className="text-gray-400 hover:text-primary transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {submitState === 'sent' || submitState === 'queued' ? (
+          <div className="p-8 text-center">
+            {submitState === 'sent'
+              ? <CheckCircle2 size={48} className="text-emerald-600 mx-auto mb-4" />
+              : <Clock size={48} className="text-accent mx-auto mb-4" />}
+            <p className="text-gray-800 font-bold mb-2">
+              {submitState === 'sent' ? t('lead.sentTitle') : t('lead.queuedTitle')}
+            </p>
+            <p className="text-sm text-gray-500 mb-6">
+              {submitState === 'sent'
+                ? t('lead.sentDescription')
+                : t('lead.queuedDescription')}
+            </p>
+            <button
+              onClick={onClose}
+              className="bg-primary hover:bg-primary-dark text-white px-6 py-2 rounded-lg font-bold text-sm transition-colors"
+            >
+              {t('lead.close')}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} noValidate className="p-6 space-y-4">
+            <Field id="lead-name" label={t('lead.name')} error={errors.name && t(errors.name)}>
+              <input
+                ref={firstFieldRef}
+                id="lead-name"
+                type="text"
+                autoComplete="name"
+                value={contact.name}
+                onChange={(e) => update('name', e.target.value)}
+                aria-invalid={!!errors.name}
+                aria-describedby={describedBy('name')}
+                className={inputClass(errors.name)}
+              />
+            </Field>
+            <Field id="lead-company" label={t('lead.company')} error={errors.company && t(errors.company)}>
+              <input
+                id="lead-company"
+                type="text"
+                autoComplete="organization"
+                value={contact.company}
+                onChange={(e) => update('company', e.target.value)}
+                aria-invalid={!!errors.company}
+                aria-describedby={describedBy('company')}
+                className={inputClass(errors.company)}
+              />
+            </Field>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Field id="lead-email" label={t('lead.email')} error={errors.email && t(errors.email)}>
+                <input
+                  id="lead-email"
+                  type="email"
+                  autoComplete="email"
+                  value={contact.email}
+                  onChange={(e) => update('email', e.target.value)}
+                  aria-invalid={!!errors.email}
+                  aria-describedby={describedBy('email')}
+                  className={inputClass(errors.email)}
+                />
+              </Field>
+              <Field id="lead-whatsapp" label={t('lead.whatsapp')} error={errors.whatsapp && t(errors.whatsapp)}>
+                <input
+                  id="lead-whatsapp"
+                  type="tel"
+                  inputMode="tel"
+                  autoComplete="tel-national"
+                  placeholder="(11) 98765-4321"
+                  value={contact.whatsapp}
+                  onChange={(e) => update('whatsapp', formatBrazilianPhone(e.target.value))}
+                  aria-invalid={!!errors.whatsapp}
+                  aria-describedby={describedBy('whatsapp')}
+                  className={inputClass(errors.whatsapp)}
+                />
+              </Field>
+            </div>
+            <Field id="lead-segment" label={t('lead.segment')} error={errors.segment && t(errors.segment)}>
+              <select
+                id="lead-segment"
+                value={contact.segment}
+                onChange={(e) => update('segment', e.target.value)}
+                aria-invalid={!!errors.segment}
+                aria-describedby={describedBy('segment')}
+                className={`${inputClass(errors.segment)} bg-white`}
+              >
+                <option value="">{t('lead.segmentPlaceholder')}</option>
+                {SEGMENTS.map((segment) => (
+                  <option key={segment} value={segment}>{t(`segments.${segment}` as MessageKey)}</option>
+                ))}
+              </select>
+            </Field>
+
+            <div>
+              <label className="flex items-start gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={contact.consent}
+                  onChange={(e) => update('consent', e.target.checked)}
+                  aria-invalid={!!errors.consent}
+                  aria-describedby={describedBy('consent')}
+                  className="mt-0.5 accent-primary"
+                />
+                {t('lead.consent')}
+              </label>
+              {errors.consent && <p id="lead-consent-error" className="text-xs text-red-600 mt-1">{t(errors.consent)}</p>}
+            </div>
+
+            <button
+              type="submit"
+              disabled={submitState === 'submitting'}
+              className="w-full flex items-center justify-center gap-2 bg-accent hover:bg-accent-dark disabled:opacity-60 text-white px-6 py-3 rounded-lg font-bold text-sm transition-all shadow-lg"
+            >
+              {submitState === 'submitting' ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+              {t('lead.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
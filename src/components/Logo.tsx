@@ -0,0 +1,23 @@
+import React from 'react';
+import { useTheme } from '../theme/ThemeProvider';
+
+export const Logo = () => {
+  const { logo, productName } = useTheme();
+
+  if (logo.imageUrl) {
+    return <img src={logo.imageUrl} alt={productName} className="h-10 w-auto select-none scale-90 sm:scale-100 origin-left" />;
+  }
+
+  return (
+    <div className="flex items-center select-none shadow-sm scale-90 sm:scale-100 origin-left">
+      <div className={`h-10 px-4 flex items-center bg-primary ${logo.badge ? 'rounded-l-lg' : 'rounded-lg'}`}>
+        <span className="text-white font-bold text-2xl tracking-tighter pb-1 font-sans leading-none">{logo.text}</span>
+      </div>
+      {logo.badge && (
+        <div className="h-10 px-3 flex items-center rounded-r-lg bg-accent">
+          <span className="text-white font-bold text-lg font-sans leading-none">{logo.badge}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Waits for the inputs to settle so a slider drag is announced once
+const ANNOUNCE_DELAY_MS = 1000;
+
+// Screen-reader-only live region that reads out the new monthly loss after an input changes
+export const LossAnnouncer = ({ monthlyLoss }: { monthlyLoss: number }) => {
+  const { t, formatCurrency } = useI18n();
+  const [message, setMessage] = useState('');
+  const announced = useRef(monthlyLoss);
+
+  useEffect(() => {
+    if (monthlyLoss === announced.current) return;
+    const timeout = window.setTimeout(() => {
+      announced.current = monthlyLoss;
+      setMessage(t('a11y.monthlyLoss', { amount: formatCurrency(monthlyLoss) }));
+    }, ANNOUNCE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [monthlyLoss, t, formatCurrency]);
+
+  return (
+    <div role="status" aria-live="polite" className="sr-only">
+      {message}
+    </div>
+  );
+};
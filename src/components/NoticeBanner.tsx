@@ -0,0 +1,17 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+import { RichText } from './RichText';
+
+// Dismissible note above the dashboard; `text` may use **bold**
+export const NoticeBanner = ({ text, onDismiss }: { text: string; onDismiss: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-start justify-between gap-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-4 text-sm">
+      <p><RichText text={text} /></p>
+      <button onClick={onDismiss} aria-label={t('notice.dismiss')} className="text-amber-600 hover:text-amber-800">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
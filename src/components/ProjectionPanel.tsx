@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { CalendarRange, LineChart as LineChartIcon } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import {
+  FLAT_SEASONALITY,
+  Projection,
+  ProjectionHorizon,
+  ProjectionOptions,
+  RAMP_DELAY_RANGE,
+  RAMP_MONTHS_RANGE,
+  SEASONALITY_RANGE,
+} from '../engine/projection';
+import { useI18n } from '../i18n/I18nProvider';
+import { SliderInput } from './SliderInput';
+
+const HORIZONS: ProjectionHorizon[] = [12, 24];
+
+const SummaryTile = ({ label, value, className = 'text-gray-900' }: { label: string; value: string; className?: string }) => (
+  <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+    <p className="text-xs font-bold text-gray-400 uppercase mb-2">{label}</p>
+    <p className={`text-lg font-bold ${className}`}>{value}</p>
+  </div>
+);
+
+export const ProjectionPanel = ({
+  projection,
+  options,
+  firstYearLoss,
+  targetName,
+  onOptionsChange,
+}: {
+  projection: Projection;
+  options: ProjectionOptions;
+  firstYearLoss: number;
+  targetName: string;
+  onOptionsChange: (options: ProjectionOptions) => void;
+}) => {
+  const { t, intlLocale, formatCurrency, formatCompactCurrency } = useI18n();
+  const { colors } = useTheme();
+  const { horizonMonths } = options;
+
+  const monthNames = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(intlLocale, { month: 'short' });
+    return FLAT_SEASONALITY.map((_, calendarMonth) => formatter.format(new Date(2000, calendarMonth, 1)));
+  }, [intlLocale]);
+
+  const chartData = projection.months.map((m) => ({
+    name: monthNames[m.calendarMonth],
+    label: t('projection.monthLabel', { month: m.month, name: monthNames[m.calendarMonth] }),
+    lost: m.cumulativeLost,
+    recovered: m.cumulativeRecovered,
+  }));
+
+  const update = (patch: Partial<ProjectionOptions>) => onOptionsChange({ ...options, ...patch });
+
+  const handleSeasonalityChange = (calendarMonth: number, raw: string) => {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) return;
+    const seasonality = [...options.seasonality];
+    seasonality[calendarMonth] = Math.min(SEASONALITY_RANGE.max, Math.max(SEASONALITY_RANGE.min, value));
+    update({ seasonality });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+          <h3 className="text-primary font-bold flex items-center gap-2">
+            <CalendarRange size={20} className="text-accent" /> {t('projection.title')}
+          </h3>
+          <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+            {HORIZONS.map((h) => (
+              <button
+                key={h}
+                onClick={() => update({ horizonMonths: h })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${horizonMonths === h ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-primary'}`}
+              >
+                {t('projection.horizon', { months: h })}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">{t('projection.description', { target: targetName })}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8">
+          <SliderInput
+            label={t('projection.rampDelay')}
+            value={options.rampDelayMonths}
+            onChange={(val) => update({ rampDelayMonths: val })}
+            min={RAMP_DELAY_RANGE.min}
+            max={RAMP_DELAY_RANGE.max}
+            step={RAMP_DELAY_RANGE.step}
+            unit={t('projection.monthsUnit')}
+            highlightColor="orange"
+          />
+          <SliderInput
+            label={t('projection.rampMonths')}
+            value={options.rampMonths}
+            onChange={(val) => update({ rampMonths: val })}
+            min={RAMP_MONTHS_RANGE.min}
+            max={RAMP_MONTHS_RANGE.max}
+            step={RAMP_MONTHS_RANGE.step}
+            unit={t('projection.monthsUnit')}
+            highlightColor="orange"
+          />
+        </div>
+
+        <div className="border-t border-gray-100 pt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+            <h4 className="text-sm font-medium text-gray-700">{t('projection.seasonality')}</h4>
+            <button
+              onClick={() => update({ seasonality: FLAT_SEASONALITY })}
+              className="text-xs text-gray-500 hover:text-primary font-medium"
+            >
+              {t('projection.resetSeasonality')}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400 mb-3">{t('projection.seasonalityHint')}</p>
+          <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-12 gap-2">
+            {monthNames.map((name, calendarMonth) => (
+              <label key={name} className="flex flex-col items-center gap-1 text-[10px] font-bold text-gray-400 uppercase">
+                {name}
+                <input
+                  type="number"
+                  value={options.seasonality[calendarMonth]}
+                  onChange={(e) => handleSeasonalityChange(calendarMonth, e.target.value)}
+                  min={SEASONALITY_RANGE.min}
+                  max={SEASONALITY_RANGE.max}
+                  step={SEASONALITY_RANGE.step}
+                  className="w-full text-center text-sm font-bold text-primary bg-transparent border-b border-gray-300 focus:border-primary focus:outline-none"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryTile label={t('projection.recoveredTotal', { months: horizonMonths })} value={formatCurrency(projection.totals.recovered)} className="text-emerald-600" />
+        <SummaryTile label={t('projection.lostTotal', { months: horizonMonths })} value={formatCurrency(projection.totals.lost)} className="text-red-600" />
+        <SummaryTile label={t('projection.firstYearLoss')} value={formatCurrency(firstYearLoss)} />
+        <SummaryTile
+          label={t('projection.fullEffect')}
+          value={t('projection.fullEffectMonth', { month: options.rampDelayMonths + Math.max(options.rampMonths, 1) })}
+        />
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[340px]">
+        <h3 className="text-primary font-bold mb-4 flex items-center gap-2">
+          <LineChartIcon size={20} className="text-accent" /> {t('projection.cumulativeTitle')}
+        </h3>
+        <div className="flex-grow w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+              <XAxis
+                dataKey="name"
+                axisLine={false}
+                tickLine={false}
+                tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
+              />
+              <YAxis
+                tickFormatter={(val: number) => formatCompactCurrency(val)}
+                tick={{fontSize: 11, fill: '#6b7280'}}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value)}
+                labelFormatter={(_: string, payload: { payload?: { label: string } }[]) => payload?.[0]?.payload?.label ?? ''}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: '12px' }} />
+              <Line type="monotone" dataKey="lost" name={t('projection.cumulativeLost')} stroke={colors.accent} strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="recovered" name={t('projection.cumulativeRecovered')} stroke={colors.primary} strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { ResponseBucketLoss } from '../engine/responseDistribution';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { RichText } from './RichText';
+
+export const ResponseBucketsChart = ({ buckets }: { buckets: ResponseBucketLoss[] }) => {
+  const { t, formatCurrency, formatCompactCurrency } = useI18n();
+  const { colors } = useTheme();
+  const totalLoss = buckets.reduce((sum, b) => sum + b.lossRevenue, 0);
+  if (totalLoss <= 0) return null;
+
+  const driver = buckets.reduce((worst, b) => (b.lossRevenue > worst.lossRevenue ? b : worst), buckets[0]);
+  const data = buckets.map((b) => ({
+    id: b.id,
+    name: t(`distribution.bucket.${b.id}` as MessageKey),
+    loss: b.lossRevenue,
+    share: b.share * 100,
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col">
+      <h3 className="text-primary font-bold mb-2 flex items-center gap-2">
+        <Timer size={20} className="text-accent" /> {t('distribution.title')}
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        <RichText
+          text={t('distribution.driver', {
+            bucket: t(`distribution.bucket.${driver.id}` as MessageKey),
+            share: (driver.share * 100).toFixed(0),
+            percent: ((driver.lossRevenue / totalLoss) * 100).toFixed(0),
+          })}
+        />
+      </p>
+      <div className="h-[260px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+            <XAxis
+              dataKey="name"
+              axisLine={false}
+              tickLine={false}
+              tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
+            />
+            <YAxis
+              tickFormatter={(val: number) => formatCompactCurrency(val)}
+              tick={{fontSize: 11, fill: '#6b7280'}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <Tooltip
+              cursor={{fill: '#f9fafb'}}
+              formatter={(value: number, _: string, entry: { payload?: { share: number } }) => [
+                `${formatCurrency(value)} · ${entry.payload?.share.toFixed(0)}${t('distribution.leadsShare')}`,
+                t('distribution.loss'),
+              ]}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Bar dataKey="loss" radius={[4, 4, 0, 0]} barSize={40}>
+              {data.map((entry) => (
+                <Cell key={entry.id} fill={entry.id === driver.id ? colors.accent : colors.accentLight} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,10 @@
+import React from 'react';
+
+// Renders catalog strings where `**text**` marks the highlighted part.
+export const RichText = ({ text, emphasisClassName = 'font-bold text-gray-900' }: { text: string; emphasisClassName?: string }) => (
+  <>
+    {text.split(/\*\*(.+?)\*\*/g).map((part, index) =>
+      index % 2 === 1 ? <span key={index} className={emphasisClassName}>{part}</span> : part
+    )}
+  </>
+);
@@ -0,0 +1,218 @@
+import React from 'react';
+import { ArrowRight, GitCompare, BarChart3, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { INPUT_RANGES } from '../engine/diagnostic';
+import { ScenarioComparison as Comparison, ScenarioOutcome, StatusChange } from '../engine/scenarios';
+import { useI18n } from '../i18n/I18nProvider';
+import { getStatusColor, getStatusLabel } from '../utils/status';
+import { SliderInput, TimeSliderInput } from './SliderInput';
+
+const StatusBadge = ({ status }: { status: string }) => {
+  const i18n = useI18n();
+  return (
+    <span className={`${getStatusColor(status)} text-white text-[10px] font-bold tracking-wider px-2 py-0.5 rounded-full`}>
+      {getStatusLabel(status, i18n)}
+    </span>
+  );
+};
+
+const ScenarioCard = ({
+  outcome,
+  accent,
+  onRename,
+  children,
+}: {
+  outcome: ScenarioOutcome;
+  accent: string;
+  onRename: (name: string) => void;
+  children?: React.ReactNode;
+}) => {
+  const { t, formatCurrency, formatTime } = useI18n();
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 flex flex-col" style={{ borderTop: `4px solid ${accent}` }}>
+      <input
+        type="text"
+        value={outcome.scenario.name}
+        onChange={(e) => onRename(e.target.value)}
+        aria-label={t('scenarios.nameLabel')}
+        className="text-lg font-bold text-primary bg-transparent border-b border-transparent hover:border-gray-200 focus:border-primary focus:outline-none mb-4"
+      />
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <p className="text-gray-400 text-[10px] uppercase tracking-wider font-bold mb-1">{t('dashboard.monthlyRevenue')}</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(outcome.monthlyRevenue)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400 text-[10px] uppercase tracking-wider font-bold mb-1">{t('dashboard.annualProjection')}</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(outcome.annualRevenue)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400 text-[10px] uppercase tracking-wider font-bold mb-1">{t('dashboard.monthlySales')}</p>
+          <p className="text-xl font-bold text-gray-900">{outcome.monthlySales.toFixed(1)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400 text-[10px] uppercase tracking-wider font-bold mb-1">{t('dashboard.efficiency')}</p>
+          <p className={`text-xl font-bold ${outcome.result.efficiency < 70 ? 'text-red-600' : 'text-emerald-600'}`}>
+            {outcome.result.efficiency.toFixed(0)}%
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 text-sm text-gray-600 border-t border-gray-100 pt-4 mb-4">
+        <div className="flex justify-between items-center">
+          <span>{t('scenarios.followUpAttempts', { followUps: outcome.scenario.inputs.followUps })}</span>
+          <StatusBadge status={outcome.result.followUpStatus} />
+        </div>
+        <div className="flex justify-between items-center">
+          <span>{t('scenarios.responseTimeValue', { time: formatTime(outcome.scenario.inputs.responseTime) })}</span>
+          <StatusBadge status={outcome.result.responseStatus} />
+        </div>
+      </div>
+
+      {children}
+    </div>
+  );
+};
+
+const DeltaTile = ({ label, value, format }: { label: string; value: number; format: (v: number) => string }) => {
+  const Icon = value > 0 ? TrendingUp : value < 0 ? TrendingDown : Minus;
+  const color = value > 0 ? 'text-emerald-600' : value < 0 ? 'text-red-600' : 'text-gray-500';
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+      <p className="text-xs font-bold text-gray-400 uppercase mb-2">{label}</p>
+      <p className={`text-lg font-bold flex items-center gap-2 ${color}`}>
+        <Icon size={16} />
+        {value > 0 ? '+' : ''}{format(value)}
+      </p>
+    </div>
+  );
+};
+
+const StatusDelta = ({ label, change }: { label: string; change: StatusChange<string> }) => (
+  <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+    <p className="text-xs font-bold text-gray-400 uppercase mb-2">{label}</p>
+    <div className="flex items-center gap-2">
+      <StatusBadge status={change.from} />
+      <ArrowRight size={14} className={change.direction === 'better' ? 'text-emerald-600' : change.direction === 'worse' ? 'text-red-600' : 'text-gray-400'} />
+      <StatusBadge status={change.to} />
+    </div>
+  </div>
+);
+
+export const ScenarioComparison = ({
+  comparison,
+  approximated = false,
+  onRenameBaseline,
+  onRenameTarget,
+  onTargetFollowUpsChange,
+  onTargetResponseTimeChange,
+}: {
+  comparison: Comparison;
+  approximated?: boolean; // The dashboard's result comes from another model (channels, funnel…)
+  onRenameBaseline: (name: string) => void;
+  onRenameTarget: (name: string) => void;
+  onTargetFollowUpsChange: (val: number) => void;
+  onTargetResponseTimeChange: (val: number) => void;
+}) => {
+  const { t, formatCurrency } = useI18n();
+  const { colors } = useTheme();
+  const { baseline, target, deltas } = comparison;
+
+  const chartData = [
+    {
+      name: t('dashboard.monthlyRevenue'),
+      baseline: baseline.monthlyRevenue,
+      target: target.monthlyRevenue,
+    },
+    {
+      name: t('chart.followUpLoss'),
+      baseline: baseline.result.followUpLossRevenue,
+      target: target.result.followUpLossRevenue,
+    },
+    {
+      name: t('chart.responseLoss'),
+      baseline: baseline.result.responseLossRevenue,
+      target: target.result.responseLossRevenue,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-bold text-primary flex items-center gap-2">
+        <GitCompare size={20} className="text-accent" /> {t('scenarios.title')}
+      </h2>
+      {approximated && <p className="text-xs text-gray-400">{t('scenarios.approxNote')}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ScenarioCard outcome={baseline} accent={colors.primary} onRename={onRenameBaseline}>
+          <p className="text-xs text-gray-400 mt-auto">{t('scenarios.editBaselineHint')}</p>
+        </ScenarioCard>
+        <ScenarioCard outcome={target} accent={colors.accent} onRename={onRenameTarget}>
+          <SliderInput
+            label={t('inputs.followUps')}
+            value={target.scenario.inputs.followUps}
+            onChange={onTargetFollowUpsChange}
+            min={INPUT_RANGES.followUps.min}
+            max={INPUT_RANGES.followUps.max}
+            step={INPUT_RANGES.followUps.step}
+            highlightColor="orange"
+          />
+          <TimeSliderInput
+            label={t('inputs.responseTime')}
+            value={target.scenario.inputs.responseTime}
+            onChange={onTargetResponseTimeChange}
+          />
+        </ScenarioCard>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+        <DeltaTile label={t('scenarios.deltaMonthlyRevenue')} value={deltas.monthlyRevenue} format={formatCurrency} />
+        <DeltaTile label={t('scenarios.deltaAnnualRevenue')} value={deltas.annualRevenue} format={formatCurrency} />
+        <DeltaTile label={t('scenarios.deltaRecoveredSales')} value={deltas.recoveredSales} format={(v) => v.toFixed(1)} />
+        <DeltaTile label={t('scenarios.deltaEfficiency')} value={deltas.efficiency} format={(v) => t('scenarios.percentagePoints', { value: v.toFixed(0) })} />
+        <StatusDelta label={t('dashboard.followUp')} change={deltas.followUpStatus} />
+        <StatusDelta label={t('dashboard.responseTime')} change={deltas.responseStatus} />
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[340px]">
+        <h3 className="text-primary font-bold mb-4 flex items-center gap-2">
+          <BarChart3 size={20} className="text-accent" /> {baseline.scenario.name} x {target.scenario.name}
+        </h3>
+        <div className="flex-grow w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+              <XAxis
+                dataKey="name"
+                axisLine={false}
+                tickLine={false}
+                tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
+                dy={10}
+              />
+              <YAxis hide />
+              <Tooltip
+                cursor={{fill: '#f9fafb'}}
+                formatter={(value: number) => formatCurrency(value)}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '16px' }} />
+              <Bar dataKey="baseline" name={baseline.scenario.name} fill={colors.primary} radius={[4, 4, 0, 0]} />
+              <Bar dataKey="target" name={target.scenario.name} fill={colors.accent} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, Grid3X3 } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { DEFAULT_COEFFICIENTS, DiagnosticInputs, ModelCoefficients } from '../engine/diagnostic';
+import { buildLossHeatmap, PerturbationMode, runSensitivity } from '../engine/sensitivity';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatInputValue, getInputLabel } from '../utils/inputs';
+
+const MODES: { id: PerturbationMode; label: MessageKey; low: MessageKey; high: MessageKey }[] = [
+  { id: 'percent', label: 'sensitivity.modePercent', low: 'sensitivity.lowPercent', high: 'sensitivity.highPercent' },
+  { id: 'step', label: 'sensitivity.modeStep', low: 'sensitivity.lowStep', high: 'sensitivity.highStep' },
+];
+
+// Green (lowest loss) to red (highest loss)
+const getHeatColor = (intensity: number) => `hsl(${Math.round((1 - intensity) * 120)}, 70%, ${Math.round(88 - intensity * 30)}%)`;
+
+export const SensitivityPanel = ({
+  inputs,
+  coefficients = DEFAULT_COEFFICIENTS,
+}: {
+  inputs: DiagnosticInputs;
+  coefficients?: ModelCoefficients;
+}) => {
+  const i18n = useI18n();
+  const { colors } = useTheme();
+  const { t, formatCurrency, formatCompactCurrency, formatTime } = i18n;
+  const [mode, setMode] = useState<PerturbationMode>('percent');
+  const modeConfig = MODES.find((m) => m.id === mode) ?? MODES[0];
+  const lowLabel = t(modeConfig.low);
+  const highLabel = t(modeConfig.high);
+
+  const sensitivity = useMemo(() => runSensitivity(inputs, { mode, percent: 0.1 }, coefficients), [inputs, mode, coefficients]);
+  const heatmap = useMemo(() => buildLossHeatmap(inputs, coefficients), [inputs, coefficients]);
+
+  // Deltas against the current loss; the model is monotonic in every input, so the two
+  // sides always have opposite signs and can share a stack.
+  const tornadoData = sensitivity.items.map((item) => ({
+    name: getInputLabel(item.key, i18n),
+    low: item.lowLoss - sensitivity.baseLoss,
+    high: item.highLoss - sensitivity.baseLoss,
+    lowValue: formatInputValue(item.key, item.lowValue, i18n),
+    highValue: formatInputValue(item.key, item.highValue, i18n),
+  }));
+
+  const lossRange = heatmap.maxLoss - heatmap.minLoss;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+          <h3 className="text-primary font-bold flex items-center gap-2">
+            <SlidersHorizontal size={20} className="text-accent" /> {t('sensitivity.title')}
+          </h3>
+          <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+            {MODES.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${mode === m.id ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-primary'}`}
+              >
+                {t(m.label)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          {t('sensitivity.description', { amount: formatCurrency(sensitivity.baseLoss) })}
+        </p>
+
+        <div className="h-[280px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f3f4f6" />
+              <XAxis
+                type="number"
+                tickFormatter={(val: number) => formatCompactCurrency(val)}
+                tick={{fontSize: 11, fill: '#6b7280'}}
+                axisLine={false}
+                tickLine={false}
+              />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={170}
+                tick={{fontSize: 11, fill: '#374151', fontWeight: 500}}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                cursor={{fill: '#f9fafb'}}
+                formatter={(value: number, name: string, entry: { payload?: { lowValue: string; highValue: string } }) => {
+                  const inputValue = name === lowLabel ? entry.payload?.lowValue : entry.payload?.highValue;
+                  return [`${value > 0 ? '+' : ''}${formatCurrency(value)} (${inputValue})`, name];
+                }}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: '12px' }} />
+              <ReferenceLine x={0} stroke="#9ca3af" />
+              <Bar dataKey="low" name={lowLabel} stackId="swing" fill={colors.primary} barSize={22} />
+              <Bar dataKey="high" name={highLabel} stackId="swing" fill={colors.accent} barSize={22} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-primary font-bold mb-2 flex items-center gap-2">
+          <Grid3X3 size={20} className="text-accent" /> {t('sensitivity.heatmapTitle')}
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {t('sensitivity.heatmapDescription')}
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-0.5 text-[10px]">
+            <thead>
+              <tr>
+                <th className="text-left text-gray-400 font-semibold pr-2">{t('sensitivity.heatmapCorner')}</th>
+                {heatmap.followUpValues.map((fu) => (
+                  <th key={fu} className={`font-semibold ${fu === inputs.followUps ? 'text-accent' : 'text-gray-500'}`}>{fu}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.cells.map((row, rowIndex) => {
+                const responseTime = heatmap.responseTimeValues[rowIndex];
+                return (
+                  <tr key={responseTime}>
+                    <th className="text-left font-semibold text-gray-500 pr-2 whitespace-nowrap">{formatTime(responseTime)}</th>
+                    {row.map((cell) => {
+                      const intensity = lossRange > 0 ? (cell.totalLossAnnual - heatmap.minLoss) / lossRange : 0;
+                      const isCurrent = cell.followUps === inputs.followUps && cell.responseTime === inputs.responseTime;
+                      return (
+                        <td
+                          key={cell.followUps}
+                          title={t('sensitivity.heatmapCell', { followUps: cell.followUps, time: formatTime(cell.responseTime), amount: formatCurrency(cell.totalLossAnnual) })}
+                          className={`text-center py-1.5 px-1 rounded text-gray-800 font-medium whitespace-nowrap ${isCurrent ? 'ring-2 ring-primary' : ''}`}
+                          style={{ backgroundColor: getHeatColor(intensity) }}
+                        >
+                          {formatCompactCurrency(cell.totalLossAnnual)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,368 @@
+import React, { useId, useLayoutEffect, useRef, useState } from 'react';
+import { useTheme } from '../theme/ThemeProvider';
+import { INPUT_RANGES } from '../engine/diagnostic';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatNumber, getMaskedCaret, maskLocaleNumber, parseLocaleNumber } from '../utils/format';
+
+// Both sliders draw their own track and thumb over a transparent native range input, which
+// keeps keyboard and screen-reader support; the thumb shows the range input's focus ring.
+
+const PAGE_STEPS = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Arrow keys step, PageUp/PageDown take bigger steps, Home/End jump to the ends. Returns null
+// for any other key.
+const getKeyboardValue = (
+  key: string,
+  value: number,
+  { min, max, step, pageUp, pageDown }: { min: number; max: number; step: (dir: 1 | -1) => number; pageUp: number; pageDown: number }
+) => {
+  switch (key) {
+    case 'ArrowUp':
+    case 'ArrowRight': return clamp(step(1), min, max);
+    case 'ArrowDown':
+    case 'ArrowLeft': return clamp(step(-1), min, max);
+    case 'PageUp': return clamp(pageUp, min, max);
+    case 'PageDown': return clamp(pageDown, min, max);
+    case 'Home': return min;
+    case 'End': return max;
+    default: return null;
+  }
+};
+
+// --- Number Field ---
+// Accepts numbers the way the locale writes them ("5.000,00" in pt-BR). While typing, only values
+// inside the range reach the model; leaving the field or pressing Enter clamps the text to the
+// range, or restores the last value when it isn't a number. Masked fields regroup the digits as
+// they are typed and keep the caret after the same digit.
+
+const NumberField = ({
+  id,
+  value,
+  min,
+  max,
+  onChange,
+  onKeyStep,
+  masked = false,
+  className,
+}: {
+  id: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (val: number) => void;
+  onKeyStep: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  masked?: boolean;
+  className: string;
+}) => {
+  const { intlLocale } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const maskedCaret = useRef<number | null>(null); // Restored once the masked draft is rendered
+
+  useLayoutEffect(() => {
+    if (maskedCaret.current === null) return;
+    inputRef.current?.setSelectionRange(maskedCaret.current, maskedCaret.current);
+    maskedCaret.current = null;
+  }, [draft]);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseLocaleNumber(draft, intlLocale);
+    if (Number.isFinite(parsed)) onChange(clamp(parsed, min, max));
+    setDraft(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value: text, selectionStart } = e.target;
+    const next = masked ? maskLocaleNumber(text, intlLocale) : text;
+    if (masked && selectionStart !== null) maskedCaret.current = getMaskedCaret(text, selectionStart, next, intlLocale);
+    setDraft(next);
+    const parsed = parseLocaleNumber(text, intlLocale);
+    if (parsed >= min && parsed <= max) onChange(parsed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commit();
+    } else if (e.key === 'Escape') {
+      setDraft(null);
+    } else if (e.key !== 'Home' && e.key !== 'End' && e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') {
+      // Home, End and left/right keep moving the caret inside the text
+      onKeyStep(e);
+      if (e.defaultPrevented) setDraft(null);
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      id={id}
+      type="text"
+      inputMode="decimal"
+      autoComplete="off"
+      value={draft ?? formatNumber(value, intlLocale)}
+      onChange={handleChange}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      className={className}
+    />
+  );
+};
+
+export const SliderInput = ({ 
+  label, 
+  value, 
+  onChange, 
+  min, 
+  max, 
+  step, 
+  unit = '', 
+  prefix = '', 
+  highlightColor = 'blue' 
+}: {
+  label: string;
+  value: number;
+  onChange: (val: number) => void;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  prefix?: string;
+  highlightColor?: 'blue' | 'orange';
+}) => {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const safePercentage = Math.min(100, Math.max(0, percentage));
+  const id = useId();
+  const { intlLocale } = useI18n();
+  
+  // Dynamic styles based on brand colors
+  const { colors } = useTheme();
+  const activeColor = highlightColor === 'orange' ? colors.accent : colors.primary;
+  const textColorClass = highlightColor === 'orange' ? 'text-accent' : 'text-primary';
+  const ringClass = highlightColor === 'orange' ? 'peer-focus-visible:ring-accent' : 'peer-focus-visible:ring-primary';
+
+  // Avoids float noise like 7.500000001 from repeated steps
+  const round = (val: number) => Number(val.toFixed(6));
+  const handleKeyStep = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const next = getKeyboardValue(e.key, value, {
+      min,
+      max,
+      step: (dir) => round(value + dir * step),
+      pageUp: round(value + PAGE_STEPS * step),
+      pageDown: round(value - PAGE_STEPS * step),
+    });
+    if (next === null) return;
+    e.preventDefault();
+    onChange(next);
+  };
+
+  return (
+    <div className="mb-6 group">
+      <div className="flex justify-between items-center mb-2">
+        <label htmlFor={id} className="text-gray-700 font-medium text-sm">{label}</label>
+        <div className="flex items-center gap-1">
+            {prefix && <span className={`text-base font-bold ${textColorClass}`}>{prefix}</span>}
+            <NumberField
+                id={id}
+                value={value}
+                min={min}
+                max={max}
+                onChange={onChange}
+                onKeyStep={handleKeyStep}
+                masked={!!prefix}
+                className={`text-base font-bold ${textColorClass} w-20 text-right bg-transparent border-b border-gray-300 focus:border-primary focus:outline-none transition-colors`}
+            />
+            {unit && <span className={`text-base font-bold ${textColorClass}`}>{unit}</span>}
+        </div>
+      </div>
+      
+      <div className="relative h-6 flex items-center">
+        {/* Track */}
+        <div className="w-full h-1.5 bg-gray-200 rounded-lg relative overflow-hidden pointer-events-none">
+          <div 
+            className="absolute h-full rounded-lg" 
+            style={{ width: `${safePercentage}%`, backgroundColor: activeColor }}
+          ></div>
+        </div>
+        
+        <input 
+          type="range" 
+          min={min} 
+          max={max} 
+          step={step} 
+          value={value} 
+          onChange={(e) => onChange(Number(e.target.value))}
+          onKeyDown={handleKeyStep}
+          aria-label={label}
+          aria-valuetext={`${prefix}${formatNumber(value, intlLocale)}${unit}`}
+          className="peer absolute w-full h-full opacity-0 cursor-pointer z-30 top-0 left-0 appearance-none m-0 p-0"
+        />
+        
+        {/* Thumb */}
+        <div 
+          className={`absolute h-4 w-4 bg-white border-2 rounded-full shadow-md pointer-events-none z-20 transition-transform group-hover:scale-110 peer-focus-visible:ring-2 peer-focus-visible:ring-offset-2 ${ringClass}`}
+          style={{ 
+            left: `calc(${safePercentage}% - 8px)`,
+            borderColor: activeColor 
+          }}
+        ></div>
+      </div>
+    </div>
+  );
+};
+
+// Piecewise-linear scale so the first minutes, where most of the loss happens, get most of the
+// track while times up to 24h stay reachable: [minutes, position in %]
+const TIME_SCALE: [number, number][] = [
+  [INPUT_RANGES.responseTime.min, 0],
+  [5, 15],
+  [30, 40],
+  [60, 55],
+  [180, 75],
+  [INPUT_RANGES.responseTime.max, 100],
+];
+
+const TRACK_STEPS = 1000;
+
+const minutesToPosition = (minutes: number) => {
+  const index = TIME_SCALE.findIndex(([m]) => minutes <= m);
+  if (index <= 0) return index === 0 ? 0 : 100;
+  const [m0, p0] = TIME_SCALE[index - 1];
+  const [m1, p1] = TIME_SCALE[index];
+  return p0 + ((minutes - m0) / (m1 - m0)) * (p1 - p0);
+};
+
+// Coarser rounding on the long end so the slider doesn't produce values like 437 min
+const getTimeRounding = (minutes: number) => (minutes < 60 ? 1 : minutes < 180 ? 5 : 15);
+
+const positionToMinutes = (position: number) => {
+  const index = Math.max(1, TIME_SCALE.findIndex(([, p]) => position <= p));
+  const [m0, p0] = TIME_SCALE[index - 1];
+  const [m1, p1] = TIME_SCALE[index];
+  const minutes = m0 + ((position - p0) / (p1 - p0)) * (m1 - m0);
+  const rounding = getTimeRounding(minutes);
+  return Math.max(INPUT_RANGES.responseTime.min, Math.round(minutes / rounding) * rounding);
+};
+
+// PageUp/PageDown stops, so the long end of the track takes a few key presses rather than hundreds
+const TIME_PAGE_STOPS = [5, 15, 30, 60, 120, 180, 360, 720, INPUT_RANGES.responseTime.max];
+
+// Arrow keys move by the slider's rounding at the current time, landing back on its grid
+const stepMinutes = (minutes: number, dir: 1 | -1) => {
+  const rounding = getTimeRounding(dir === 1 ? minutes : minutes - 1);
+  return dir === 1
+    ? Math.floor(minutes / rounding) * rounding + rounding
+    : Math.ceil(minutes / rounding) * rounding - rounding;
+};
+
+export const TimeSliderInput = ({ 
+  label,
+  value, 
+  onChange 
+}: {
+  label: string;
+  value: number;
+  onChange: (val: number) => void;
+}) => {
+  const { min: MIN_MINUTES, max: MAX_MINUTES } = INPUT_RANGES.responseTime;
+  const safePercentage = minutesToPosition(Math.min(MAX_MINUTES, Math.max(MIN_MINUTES, value)));
+  const id = useId();
+  const { formatTime } = useI18n();
+
+  const markers = [
+    { val: 5, label: '5m', color: 'bg-green-500' },
+    { val: 30, label: '30m', color: 'bg-yellow-500' },
+    { val: 60, label: '1h', color: 'bg-orange-500' },
+    { val: 180, label: '3h', color: 'bg-red-500' },
+    { val: 1440, label: '24h', color: 'bg-red-700' },
+  ];
+
+  const handleKeyStep = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const next = getKeyboardValue(e.key, value, {
+      min: MIN_MINUTES,
+      max: MAX_MINUTES,
+      step: (dir) => stepMinutes(value, dir),
+      pageUp: TIME_PAGE_STOPS.find((stop) => stop > value) ?? MAX_MINUTES,
+      pageDown: [...TIME_PAGE_STOPS].reverse().find((stop) => stop < value) ?? MIN_MINUTES,
+    });
+    if (next === null) return;
+    e.preventDefault();
+    onChange(next);
+  };
+
+  return (
+    <div className="mb-6 group">
+      <div className="flex justify-between items-center mb-2">
+        <label htmlFor={id} className="text-gray-700 font-medium text-sm">{label}</label>
+        <div className="flex flex-col items-end">
+            <div className="flex items-center gap-1">
+                <NumberField
+                    id={id}
+                    value={value}
+                    min={MIN_MINUTES}
+                    max={MAX_MINUTES}
+                    onChange={onChange}
+                    onKeyStep={handleKeyStep}
+                    className="text-base font-bold text-primary w-16 text-right bg-transparent border-b border-gray-300 focus:border-primary focus:outline-none"
+                />
+                <span className="text-base font-bold text-primary">min</span>
+            </div>
+            <span className="text-[10px] text-gray-500 font-medium mt-0.5">{formatTime(value)}</span>
+        </div>
+      </div>
+      
+      <div className="relative h-10">
+        <div className="absolute top-1/2 left-0 w-full transform -translate-y-1/2 h-2.5 bg-gray-200 rounded-lg overflow-hidden pointer-events-none">
+          {/* Zones */}
+          <div className="absolute h-full w-full flex opacity-30">
+             {/* 0-5m: Green */}
+             <div className="h-full bg-green-500" style={{ width: `${minutesToPosition(5)}%` }}></div>
+             {/* 5-30m: Yellow */}
+             <div className="h-full bg-yellow-400" style={{ width: `${minutesToPosition(30) - minutesToPosition(5)}%` }}></div>
+             {/* 30-60m: Orange */}
+             <div className="h-full bg-orange-500" style={{ width: `${minutesToPosition(60) - minutesToPosition(30)}%` }}></div>
+             {/* 60m-24h: Red (Remainder) */}
+             <div className="h-full bg-red-500 flex-grow"></div>
+          </div>
+          
+          {/* Fill */}
+          <div 
+            className="absolute h-full bg-primary opacity-80" 
+            style={{ width: `${safePercentage}%` }}
+          ></div>
+        </div>
+
+        {markers.map((m) => (
+          <div key={m.label} className="absolute top-6 flex flex-col items-center transform -translate-x-1/2 pointer-events-none" style={{ left: `${minutesToPosition(m.val)}%` }}>
+            <div className={`w-0.5 h-1.5 ${m.color} mb-0.5 rounded-sm`}></div>
+            <span className="text-[9px] text-gray-500 font-semibold">{m.label}</span>
+          </div>
+        ))}
+
+        <input 
+          type="range" 
+          min={0} 
+          max={TRACK_STEPS} 
+          step={1} 
+          value={Math.round((safePercentage / 100) * TRACK_STEPS)} 
+          onChange={(e) => onChange(positionToMinutes((Number(e.target.value) / TRACK_STEPS) * 100))}
+          onKeyDown={handleKeyStep}
+          aria-label={label}
+          aria-valuetext={formatTime(value)}
+          className="peer absolute w-full h-full opacity-0 cursor-pointer z-30 top-0 left-0 appearance-none m-0 p-0"
+        />
+        
+        <div 
+          className="absolute h-5 w-5 bg-white border-2 border-primary rounded-full shadow-lg pointer-events-none z-20 transition-transform hover:scale-110 peer-focus-visible:ring-2 peer-focus-visible:ring-primary peer-focus-visible:ring-offset-2"
+          style={{ 
+              left: `calc(${safePercentage}% - 10px)`,
+              top: '50%',
+              transform: 'translateY(-50%)' 
+          }}
+        ></div>
+      </div>
+    </div>
+  );
+};
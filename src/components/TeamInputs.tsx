@@ -0,0 +1,89 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { MAX_REP_NAME_LENGTH, MAX_REPS, REP_INPUT_RANGES, RepInputKey, SalesRep } from '../engine/team';
+import { useI18n } from '../i18n/I18nProvider';
+import { SliderInput, TimeSliderInput } from './SliderInput';
+
+export const TeamInputs = ({
+  team,
+  onChange,
+  onRename,
+  onAdd,
+  onRemove,
+}: {
+  team: SalesRep[];
+  onChange: (id: string, key: RepInputKey, value: number) => void;
+  onRename: (id: string, name: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">{t('sidebar.teamModeHint')}</p>
+      {team.map((rep) => (
+        <div key={rep.id} className="border border-gray-100 rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-4">
+            <input
+              type="text"
+              value={rep.name}
+              onChange={(e) => onRename(rep.id, e.target.value)}
+              maxLength={MAX_REP_NAME_LENGTH}
+              placeholder={t('team.namePlaceholder')}
+              aria-label={t('team.name')}
+              className="flex-1 min-w-0 text-sm font-bold text-primary bg-transparent border-b border-gray-200 focus:border-primary focus:outline-none"
+            />
+            <button
+              onClick={() => onRemove(rep.id)}
+              disabled={team.length === 1}
+              aria-label={t('team.remove', { name: rep.name })}
+              className="text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <SliderInput
+            label={t('inputs.leads')}
+            value={rep.leads}
+            onChange={(val) => onChange(rep.id, 'leads', val)}
+            min={REP_INPUT_RANGES.leads.min}
+            max={REP_INPUT_RANGES.leads.max}
+            step={REP_INPUT_RANGES.leads.step}
+            highlightColor="blue"
+          />
+          <SliderInput
+            label={t('inputs.conversion')}
+            value={rep.conversion}
+            onChange={(val) => onChange(rep.id, 'conversion', val)}
+            min={REP_INPUT_RANGES.conversion.min}
+            max={REP_INPUT_RANGES.conversion.max}
+            step={REP_INPUT_RANGES.conversion.step}
+            unit="%"
+            highlightColor="blue"
+          />
+          <SliderInput
+            label={t('inputs.followUps')}
+            value={rep.followUps}
+            onChange={(val) => onChange(rep.id, 'followUps', val)}
+            min={REP_INPUT_RANGES.followUps.min}
+            max={REP_INPUT_RANGES.followUps.max}
+            step={REP_INPUT_RANGES.followUps.step}
+            highlightColor="orange"
+          />
+          <TimeSliderInput
+            label={t('inputs.responseTime')}
+            value={rep.responseTime}
+            onChange={(val) => onChange(rep.id, 'responseTime', val)}
+          />
+        </div>
+      ))}
+      <button
+        onClick={onAdd}
+        disabled={team.length >= MAX_REPS}
+        className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary disabled:opacity-50 transition-colors"
+      >
+        <Plus size={14} /> {t('team.add')}
+      </button>
+    </div>
+  );
+};
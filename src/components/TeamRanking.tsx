@@ -0,0 +1,124 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { TeamBreakdown } from '../engine/team';
+import { useI18n } from '../i18n/I18nProvider';
+import { getStatusColor, getStatusLabel } from '../utils/status';
+import { RichText } from './RichText';
+
+// Height per bar row, so the chart grows with the team
+const ROW_HEIGHT = 36;
+const MIN_CHART_HEIGHT = 160;
+
+const StatusBadge = ({ status }: { status: string }) => {
+  const i18n = useI18n();
+  return (
+    <span className={`${getStatusColor(status)} text-white text-[10px] font-bold tracking-wider px-2 py-0.5 rounded-full whitespace-nowrap`}>
+      {getStatusLabel(status, i18n)}
+    </span>
+  );
+};
+
+export const TeamRanking = ({ breakdown }: { breakdown: TeamBreakdown }) => {
+  const i18n = useI18n();
+  const { t, formatCurrency, formatCompactCurrency } = i18n;
+  const { colors } = useTheme();
+
+  const getName = (name: string, index: number) => name.trim() || t('team.unnamed', { n: index + 1 });
+  const names = new Map(breakdown.reps.map(({ rep }, i) => [rep.id, getName(rep.name, i)]));
+
+  const data = breakdown.ranking.map(({ rep, result }) => ({
+    name: names.get(rep.id) ?? '',
+    followUp: result.followUpLossRevenue,
+    response: result.responseLossRevenue,
+  }));
+  const worst = breakdown.ranking[0];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+        <h3 className="text-primary font-bold flex items-center gap-2">
+          <Users size={20} className="text-accent" /> {t('team.title')}
+        </h3>
+        <p className="text-sm text-gray-500">
+          {t('team.efficiency')}: <span className="font-bold text-gray-800">{breakdown.total.efficiency.toFixed(0)}%</span>
+        </p>
+      </div>
+      {worst && worst.result.totalLossRevenue > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          <RichText text={t('team.worst', { name: names.get(worst.rep.id) ?? '', amount: formatCurrency(worst.result.totalLossRevenue) })} />
+        </p>
+      )}
+
+      <div className="w-full" style={{ height: Math.max(MIN_CHART_HEIGHT, data.length * ROW_HEIGHT + 60) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f3f4f6" />
+            <XAxis
+              type="number"
+              tickFormatter={(val: number) => formatCompactCurrency(val)}
+              tick={{fontSize: 11, fill: '#6b7280'}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={120}
+              tick={{fontSize: 11, fill: '#374151', fontWeight: 500}}
+              axisLine={false}
+              tickLine={false}
+            />
+            <Tooltip
+              cursor={{fill: '#f9fafb'}}
+              formatter={(value: number) => formatCurrency(value)}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Bar dataKey="followUp" name={t('chart.followUpLossShare')} stackId="loss" fill={colors.accentLight} barSize={20} />
+            <Bar dataKey="response" name={t('chart.responseLossShare')} stackId="loss" fill={colors.accent} barSize={20} radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-100">
+              <th className="py-2 pr-2">#</th>
+              <th className="py-2 pr-2">{t('team.name')}</th>
+              <th className="py-2 pr-2 text-right">{t('inputs.leads')}</th>
+              <th className="py-2 pr-2 text-right">{t('dashboard.lostRevenueMonth')}</th>
+              <th className="py-2 pr-2">{t('dashboard.followUp')}</th>
+              <th className="py-2 pr-2">{t('dashboard.responseTime')}</th>
+              <th className="py-2 text-right">{t('dashboard.efficiency')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.ranking.map(({ rep, result }, index) => (
+              <tr key={rep.id} className="border-b border-gray-50">
+                <td className="py-2 pr-2 text-gray-400 font-bold">{index + 1}</td>
+                <td className="py-2 pr-2 font-medium text-gray-800">{names.get(rep.id)}</td>
+                <td className="py-2 pr-2 text-right text-gray-600">{rep.leads}</td>
+                <td className="py-2 pr-2 text-right font-bold text-gray-800">{formatCurrency(result.totalLossRevenue)}</td>
+                <td className="py-2 pr-2"><StatusBadge status={result.followUpStatus} /></td>
+                <td className="py-2 pr-2"><StatusBadge status={result.responseStatus} /></td>
+                <td className="py-2 text-right text-gray-600">{result.efficiency.toFixed(0)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
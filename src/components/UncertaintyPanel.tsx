@@ -0,0 +1,170 @@
+import React from 'react';
+import { Dices, BarChart3, Loader2 } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { useTheme } from '../theme/ThemeProvider';
+import { INPUT_KEYS } from '../engine/diagnostic';
+import { Percentiles, SIMULATION_RUNS, SimulationSummary, UNCERTAINTY_RANGE, UncertaintyOptions } from '../engine/monteCarlo';
+import { useI18n } from '../i18n/I18nProvider';
+import { getInputLabel } from '../utils/inputs';
+import { SliderInput } from './SliderInput';
+
+const PERCENTILE_KEYS: (keyof Percentiles)[] = ['p10', 'p50', 'p90'];
+
+const PercentileTile = ({
+  label,
+  percentiles,
+  format,
+}: {
+  label: string;
+  percentiles: Percentiles;
+  format: (value: number) => string;
+}) => (
+  <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+    <p className="text-xs font-bold text-gray-400 uppercase mb-2">{label}</p>
+    {PERCENTILE_KEYS.map((key) => (
+      <div key={key} className="flex justify-between items-baseline text-sm">
+        <span className="text-gray-400 font-medium uppercase">{key}</span>
+        <span className={`font-bold ${key === 'p50' ? 'text-lg text-gray-900' : 'text-gray-600'}`}>{format(percentiles[key])}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export const UncertaintyPanel = ({
+  uncertainty,
+  simulation,
+  running,
+  approximated,
+  onUncertaintyChange,
+}: {
+  uncertainty: UncertaintyOptions;
+  simulation: SimulationSummary | null;
+  running: boolean;
+  approximated: boolean;
+  onUncertaintyChange: (uncertainty: UncertaintyOptions) => void;
+}) => {
+  const i18n = useI18n();
+  const { colors } = useTheme();
+  const { t, formatCurrency, formatCompactCurrency } = i18n;
+
+  const histogramData = (simulation?.histogram ?? []).map((bin) => ({
+    mid: (bin.from + bin.to) / 2,
+    range: `${formatCompactCurrency(bin.from)} – ${formatCompactCurrency(bin.to)}`,
+    count: bin.count,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+          <h3 className="text-primary font-bold flex items-center gap-2">
+            <Dices size={20} className="text-accent" /> {t('uncertainty.title')}
+            {running && (
+              <span className="flex items-center gap-1 text-xs font-medium text-gray-400">
+                <Loader2 size={12} className="animate-spin" /> {t('uncertainty.running')}
+              </span>
+            )}
+          </h3>
+          <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+            {SIMULATION_RUNS.map((runs) => (
+              <button
+                key={runs}
+                onClick={() => onUncertaintyChange({ ...uncertainty, runs })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${uncertainty.runs === runs ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-primary'}`}
+              >
+                {t('uncertainty.runs', { runs })}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mb-2">{t('uncertainty.description', { runs: uncertainty.runs })}</p>
+        {approximated && <p className="text-xs text-gray-400 mb-2">{t('uncertainty.approxNote')}</p>}
+
+        <h4 className="text-sm font-medium text-gray-700 mt-4 mb-4">{t('uncertainty.inputsTitle')}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8">
+          {INPUT_KEYS.map((key) => (
+            <SliderInput
+              key={key}
+              label={t('uncertainty.spread', { input: getInputLabel(key, i18n) })}
+              value={uncertainty.inputs[key]}
+              onChange={(val) => onUncertaintyChange({ ...uncertainty, inputs: { ...uncertainty.inputs, [key]: val } })}
+              min={UNCERTAINTY_RANGE.min}
+              max={UNCERTAINTY_RANGE.max}
+              step={UNCERTAINTY_RANGE.step}
+              unit="%"
+              highlightColor="blue"
+            />
+          ))}
+          <SliderInput
+            label={t('uncertainty.coefficients')}
+            value={uncertainty.coefficients}
+            onChange={(val) => onUncertaintyChange({ ...uncertainty, coefficients: val })}
+            min={UNCERTAINTY_RANGE.min}
+            max={UNCERTAINTY_RANGE.max}
+            step={UNCERTAINTY_RANGE.step}
+            unit="%"
+            highlightColor="orange"
+          />
+        </div>
+      </div>
+
+      {simulation && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <PercentileTile label={t('uncertainty.monthlyLoss')} percentiles={simulation.totalLossRevenue} format={formatCurrency} />
+            <PercentileTile label={t('uncertainty.annualLoss')} percentiles={simulation.totalLossAnnual} format={formatCurrency} />
+            <PercentileTile label={t('uncertainty.efficiency')} percentiles={simulation.efficiency} format={(val) => `${val.toFixed(0)}%`} />
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col h-[340px]">
+            <h3 className="text-primary font-bold mb-4 flex items-center gap-2">
+              <BarChart3 size={20} className="text-accent" /> {t('uncertainty.histogram')}
+            </h3>
+            <div className="flex-grow w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={histogramData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }} barCategoryGap={1}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                  <XAxis
+                    dataKey="mid"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(val: number) => formatCompactCurrency(val)}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{fontSize: 11, fill: '#6b7280', fontWeight: 500}}
+                  />
+                  <YAxis allowDecimals={false} tick={{fontSize: 11, fill: '#6b7280'}} axisLine={false} tickLine={false} />
+                  <Tooltip
+                    cursor={{fill: '#f9fafb'}}
+                    formatter={(value: number) => [value, t('uncertainty.frequency')]}
+                    labelFormatter={(_: number, payload: { payload?: { range: string } }[]) => payload?.[0]?.payload?.range ?? ''}
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <Bar dataKey="count" fill={colors.accentLight} radius={[2, 2, 0, 0]} />
+                  {PERCENTILE_KEYS.map((key) => (
+                    <ReferenceLine
+                      key={key}
+                      x={simulation.totalLossAnnual[key]}
+                      stroke={key === 'p50' ? colors.primary : '#9ca3af'}
+                      strokeDasharray={key === 'p50' ? undefined : '4 4'}
+                      label={{ value: key.toUpperCase(), position: 'top', fontSize: 11, fill: '#374151' }}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
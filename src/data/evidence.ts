@@ -0,0 +1,59 @@
+import { Locale, MessageKey } from '../i18n';
+
+// --- Evidence Catalog ---
+// Studies quoted on the dashboard and cited in the printed report. Claims live in the
+// translation catalog, with `**...**` marking the highlighted figures. Tags say which part of
+// the diagnosis an item supports, so the most relevant ones can be picked for each result
+// (see utils/evidence.ts).
+
+export type EvidenceTag = 'follow-up' | 'response-time' | 'general';
+
+export interface EvidenceItem {
+  id: string;
+  source: string;
+  url: string;
+  claimKey: MessageKey;
+  tags: EvidenceTag[];
+  segments?: string[]; // Segment presets the study speaks to; ranked higher for them, still shown to others
+  locales?: Locale[];  // Only shown in these languages; every language when omitted
+}
+
+export const EVIDENCE: EvidenceItem[] = [
+  {
+    id: 'marketing-donut',
+    source: 'Marketing Donut',
+    url: 'https://www.marketingdonut.co.uk/sales/sales-strategy/why-you-must-follow-up-leads',
+    claimKey: 'market.marketingDonut.claim',
+    tags: ['follow-up'],
+    segments: ['saas', 'industry', 'b2b-services'], // The figure is for B2B sales
+  },
+  {
+    id: 'mit',
+    source: 'MIT Study',
+    url: 'https://cdn2.hubspot.net/hub/25649/file-13535879-pdf/docs/mit_study.pdf',
+    claimKey: 'market.mit.claim',
+    tags: ['response-time'],
+  },
+  {
+    id: 'hubspot',
+    source: 'HubSpot',
+    url: 'https://blog.hubspot.com/blog/tabid/6307/bid/30901/30-thought-provoking-lead-nurturing-stats-you-can-t-ignore.aspx',
+    claimKey: 'market.hubspot.claim',
+    tags: ['response-time', 'general'],
+  },
+  {
+    id: 'hbr',
+    source: 'Harvard Business Review',
+    url: 'https://hbr.org/2011/03/the-short-life-of-online-sales-leads',
+    claimKey: 'market.hbr.claim',
+    tags: ['response-time'],
+  },
+  {
+    id: 'drift',
+    source: 'Drift',
+    url: 'https://www.drift.com/blog/lead-response-report-2018/',
+    claimKey: 'market.drift.claim',
+    tags: ['response-time', 'general'],
+    segments: ['saas', 'b2b-services'], // Survey of B2B companies
+  },
+];
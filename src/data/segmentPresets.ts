@@ -0,0 +1,91 @@
+import { CoefficientOverrides, DiagnosticInputs } from '../engine/diagnostic';
+
+// --- Segment Presets ---
+// Benchmarks per industry: status thresholds, recovery coefficients, the ideal figures quoted in
+// the advice, and typical slider values applied when the segment is picked. Anything left out
+// keeps the generic default. `maxAttempts` must stay within `INPUT_RANGES.followUps.max`, or the
+// slider can never reach the zero-loss point. To add a segment, append an entry here and add its
+// `segments.<id>` label to every catalog in `src/i18n/messages`; the segment pickers, the lead form
+// and the CLI read the list from here.
+
+export interface SegmentPreset {
+  id: string;
+  inputs: Partial<DiagnosticInputs>;
+  coefficients: CoefficientOverrides;
+}
+
+export const SEGMENT_PRESETS: SegmentPreset[] = [
+  {
+    // Buyers contact several agencies at once; the first to answer usually gets the visit
+    id: 'real-estate',
+    inputs: { leads: 200, conversion: 2, ticket: 15000, followUps: 3, responseTime: 120 },
+    coefficients: {
+      followUp: { recoveryRate: 0.08, idealAttempts: 8 },
+      response: { excellentMinutes: 5, goodMinutes: 15, warningMinutes: 60 },
+    },
+  },
+  {
+    // Enrollment decisions take weeks and follow the school calendar
+    id: 'education',
+    inputs: { leads: 300, conversion: 8, ticket: 6000, followUps: 3, responseTime: 60 },
+    coefficients: {
+      followUp: { recoveryRate: 0.12, idealAttempts: 6 },
+      response: { excellentMinutes: 5, goodMinutes: 30, warningMinutes: 120 },
+    },
+  },
+  {
+    // Patients book with whoever confirms first; few attempts are tolerated
+    id: 'health',
+    inputs: { leads: 150, conversion: 25, ticket: 800, followUps: 2, responseTime: 30 },
+    coefficients: {
+      followUp: { maxAttempts: 6, recoveryRate: 0.15, idealAttempts: 4 },
+      response: { excellentMinutes: 5, goodMinutes: 15, warningMinutes: 30, recoveryRate: 0.2 },
+    },
+  },
+  {
+    // Longer cycles: response matters less than a persistent cadence
+    id: 'saas',
+    inputs: { leads: 120, conversion: 5, ticket: 12000, followUps: 4, responseTime: 240 },
+    coefficients: {
+      followUp: { recoverableShare: 0.55, idealAttempts: 8 },
+      response: { excellentMinutes: 5, goodMinutes: 60, warningMinutes: 240, recoverableShare: 0.5 },
+    },
+  },
+  {
+    // Quote-driven sales with technical buyers who expect an answer within the day
+    id: 'industry',
+    inputs: { leads: 40, conversion: 15, ticket: 50000, followUps: 3, responseTime: 480 },
+    coefficients: {
+      followUp: { recoveryRate: 0.1, idealAttempts: 6 },
+      response: { excellentMinutes: 30, goodMinutes: 120, warningMinutes: 480, recoverableShare: 0.45 },
+    },
+  },
+  {
+    id: 'b2b-services',
+    inputs: { leads: 60, conversion: 12, ticket: 8000, followUps: 3, responseTime: 180 },
+    coefficients: {
+      followUp: { idealAttempts: 7 },
+      response: { excellentMinutes: 15, goodMinutes: 60, warningMinutes: 240 },
+    },
+  },
+  {
+    // High volume, impulse purchases: minutes decide the sale and persistence annoys
+    id: 'retail',
+    inputs: { leads: 800, conversion: 15, ticket: 300, followUps: 1, responseTime: 30 },
+    coefficients: {
+      followUp: { maxAttempts: 5, warningFactor: 0.4, criticalFactor: 0.7, idealAttempts: 3 },
+      response: { excellentMinutes: 2, goodMinutes: 10, warningMinutes: 30, recoverableShare: 0.7 },
+    },
+  },
+  {
+    id: 'automotive',
+    inputs: { leads: 250, conversion: 4, ticket: 50000, followUps: 3, responseTime: 60 },
+    coefficients: {
+      followUp: { maxAttempts: 10, recoveryRate: 0.1, idealAttempts: 6 },
+      response: { excellentMinutes: 5, goodMinutes: 15, warningMinutes: 60 },
+    },
+  },
+];
+
+export const getSegmentPreset = (id: string | null | undefined) =>
+  SEGMENT_PRESETS.find((preset) => preset.id === id) ?? null;
@@ -0,0 +1,21 @@
+import './index.css';
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { EmbedApp } from './embed/EmbedApp';
+import { parseLayout } from './embed/protocol';
+import { I18nProvider } from './i18n/I18nProvider';
+import { applyThemeColors, getThemeMessages, loadTheme } from './theme';
+import { ThemeProvider } from './theme/ThemeProvider';
+
+loadTheme(window.location.search).then((theme) => {
+  applyThemeColors(theme.colors);
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <ThemeProvider theme={theme}>
+        <I18nProvider overrides={getThemeMessages(theme)} productName={theme.productName}>
+          <EmbedApp layout={parseLayout(new URLSearchParams(window.location.search).get('layout'))} />
+        </I18nProvider>
+      </ThemeProvider>
+    </React.StrictMode>,
+  );
+});
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { calculateDiagnostic, clampInput, DiagnosticInputs, INPUT_KEYS, INPUT_RANGES } from '../engine/diagnostic';
+import { DiagnosticDashboard } from '../components/DiagnosticDashboard';
+import { LeadCaptureModal } from '../components/LeadCaptureModal';
+import { LossAnnouncer } from '../components/LossAnnouncer';
+import { Logo } from '../components/Logo';
+import { SliderInput, TimeSliderInput } from '../components/SliderInput';
+import { useI18n } from '../i18n/I18nProvider';
+import { useTheme } from '../theme/ThemeProvider';
+import { parseInputsFromSearch } from '../utils/shareLink';
+import {
+  EMBED_MESSAGE_SOURCE,
+  EmbedLayout,
+  EmbedMessage,
+  HostMessage,
+  isEmbedMessage,
+  isOriginAllowed,
+  parseAllowedOrigins,
+  WidgetMessage,
+} from './protocol';
+
+// --- Embedded Calculator ---
+// Single-channel calculator for iframes. It only talks to the parent page when the page passes
+// its origin as ?parentOrigin= and that origin is allowlisted (VITE_EMBED_ALLOWED_ORIGINS, plus
+// our own origin). Messages go out with that exact target origin, so a page that lies about its
+// origin never receives them.
+
+const ALLOWED_ORIGINS = [window.location.origin, ...parseAllowedOrigins(import.meta.env.VITE_EMBED_ALLOWED_ORIGINS)];
+
+const getHostOrigin = (search: string) => {
+  if (window.parent === window) return null;
+  const origin = new URLSearchParams(search).get('parentOrigin');
+  return origin && isOriginAllowed(origin, ALLOWED_ORIGINS) ? origin : null;
+};
+
+// Ignores unknown keys and non-numbers; clamps the rest like a shared link would.
+const sanitizeInputs = (raw: unknown): Partial<DiagnosticInputs> => {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const inputs: Partial<DiagnosticInputs> = {};
+  INPUT_KEYS.forEach((key) => {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) inputs[key] = clampInput(key, value);
+  });
+  return inputs;
+};
+
+export const EmbedApp = ({ layout }: { layout: EmbedLayout }) => {
+  const { t, currencySymbol, formatCurrency } = useI18n();
+  const theme = useTheme();
+  const [inputs, setInputs] = useState(() => parseInputsFromSearch(window.location.search));
+  const [hostOrigin] = useState(() => getHostOrigin(window.location.search));
+  const [leadModalOpen, setLeadModalOpen] = useState(false);
+  const readySent = useRef(false);
+  const result = useMemo(() => calculateDiagnostic(inputs), [inputs]);
+
+  const post = useCallback(
+    (message: WidgetMessage) => {
+      if (!hostOrigin) return;
+      const envelope: EmbedMessage<WidgetMessage> = { ...message, source: EMBED_MESSAGE_SOURCE };
+      window.parent.postMessage(envelope, hostOrigin);
+    },
+    [hostOrigin]
+  );
+
+  const update = (key: keyof DiagnosticInputs, value: number) => setInputs((prev) => ({ ...prev, [key]: value }));
+
+  useEffect(() => {
+    if (!hostOrigin) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== hostOrigin || !isEmbedMessage(event.data)) return;
+      const message = event.data as EmbedMessage<HostMessage>;
+      if (message.type === 'setInputs') {
+        setInputs((prev) => ({ ...prev, ...sanitizeInputs(message.inputs) }));
+      } else if (message.type === 'getResult') {
+        post({ type: 'result', inputs, result });
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [hostOrigin, post, inputs, result]);
+
+  // Lets the host size the iframe to its content
+  useEffect(() => {
+    if (!hostOrigin || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => post({ type: 'resize', height: document.documentElement.scrollHeight }));
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [hostOrigin, post]);
+
+  // The first result goes out as 'ready', every later change as 'result'
+  useEffect(() => {
+    post({ type: readySent.current ? 'result' : 'ready', inputs, result });
+    readySent.current = true;
+  }, [post, inputs, result]);
+
+  // A connected host handles the CTA itself; standalone embeds use the theme's CTA page or the
+  // built-in contact form
+  const handleCta = () => {
+    post({ type: 'cta', inputs, result });
+    if (hostOrigin) return;
+    if (theme.cta.url) {
+      window.open(theme.cta.url, '_blank', 'noopener,noreferrer');
+    } else {
+      setLeadModalOpen(true);
+    }
+  };
+
+  const sliders = (
+    <>
+      <SliderInput
+        label={t('inputs.leads')}
+        value={inputs.leads}
+        onChange={(val) => update('leads', val)}
+        min={INPUT_RANGES.leads.min}
+        max={INPUT_RANGES.leads.max}
+        step={INPUT_RANGES.leads.step}
+        highlightColor="blue"
+      />
+      <SliderInput
+        label={t('inputs.conversion')}
+        value={inputs.conversion}
+        onChange={(val) => update('conversion', val)}
+        min={INPUT_RANGES.conversion.min}
+        max={INPUT_RANGES.conversion.max}
+        step={INPUT_RANGES.conversion.step}
+        unit="%"
+        highlightColor="blue"
+      />
+      <SliderInput
+        label={t('inputs.ticket')}
+        value={inputs.ticket}
+        onChange={(val) => update('ticket', val)}
+        min={INPUT_RANGES.ticket.min}
+        max={INPUT_RANGES.ticket.max}
+        step={INPUT_RANGES.ticket.step}
+        prefix={`${currencySymbol} `}
+        highlightColor="blue"
+      />
+      <SliderInput
+        label={t('inputs.followUps')}
+        value={inputs.followUps}
+        onChange={(val) => update('followUps', val)}
+        min={INPUT_RANGES.followUps.min}
+        max={INPUT_RANGES.followUps.max}
+        step={INPUT_RANGES.followUps.step}
+        highlightColor="orange"
+      />
+      <TimeSliderInput
+        label={t('inputs.responseTime')}
+        value={inputs.responseTime}
+        onChange={(val) => update('responseTime', val)}
+      />
+    </>
+  );
+
+  const ctaButton = (
+    <button
+      onClick={handleCta}
+      className="w-full bg-accent hover:bg-accent-dark text-white px-6 py-3 rounded-lg font-bold text-sm transition-all shadow-lg"
+    >
+      {t('footer.cta')}
+    </button>
+  );
+
+  return (
+    <div className="bg-gray-50 text-gray-800 font-sans p-4">
+      {layout === 'compact' ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 max-w-md mx-auto">
+          <div className="mb-6"><Logo /></div>
+          {sliders}
+          <div className="bg-gradient-to-br from-red-900 via-red-800 to-red-900 rounded-xl p-5 text-white text-center mb-4">
+            <p className="text-xs text-red-200 uppercase tracking-wider mb-1 flex items-center justify-center gap-2">
+              <AlertTriangle size={14} /> {t('dashboard.annualWaste')}
+            </p>
+            <p className="text-3xl font-black tracking-tight">{formatCurrency(result.totalLossAnnual)}</p>
+            <p className="text-xs text-white/70 mt-2">
+              {t('dashboard.efficiency')}: {result.efficiency.toFixed(0)}%
+            </p>
+          </div>
+          {ctaButton}
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-6">
+          <div className="w-full lg:w-80 lg:shrink-0 bg-white rounded-xl shadow-sm border border-gray-100 p-6 self-start">
+            <div className="mb-6"><Logo /></div>
+            {sliders}
+            {ctaButton}
+          </div>
+          <div className="flex-1 space-y-6">
+            <DiagnosticDashboard result={result} inputs={inputs} />
+          </div>
+        </div>
+      )}
+
+      <LossAnnouncer monthlyLoss={result.totalLossRevenue} />
+
+      {leadModalOpen && (
+        <LeadCaptureModal inputs={inputs} result={result} onClose={() => setLeadModalOpen(false)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { EMBED_MESSAGE_SOURCE, isEmbedMessage, isOriginAllowed, parseAllowedOrigins, parseLayout } from './protocol';
+
+describe('parseAllowedOrigins', () => {
+  it('splits, trims and drops trailing slashes and empty entries', () => {
+    expect(parseAllowedOrigins(' https://a.com/, https://*.b.com ,,')).toEqual(['https://a.com', 'https://*.b.com']);
+  });
+
+  it('is empty when nothing is configured', () => {
+    expect(parseAllowedOrigins(undefined)).toEqual([]);
+    expect(parseAllowedOrigins('')).toEqual([]);
+  });
+});
+
+describe('isOriginAllowed', () => {
+  const allowlist = ['https://shop.com', 'https://*.example.com'];
+
+  it('accepts exact origins', () => {
+    expect(isOriginAllowed('https://shop.com', allowlist)).toBe(true);
+  });
+
+  it('accepts any depth of subdomain for a wildcard', () => {
+    expect(isOriginAllowed('https://www.example.com', allowlist)).toBe(true);
+    expect(isOriginAllowed('https://a.b.example.com', allowlist)).toBe(true);
+  });
+
+  it('does not let a wildcard match the bare domain', () => {
+    expect(isOriginAllowed('https://example.com', allowlist)).toBe(false);
+  });
+
+  it('rejects look-alike domains', () => {
+    expect(isOriginAllowed('https://evilexample.com', allowlist)).toBe(false);
+    expect(isOriginAllowed('https://www.example.com.evil.com', allowlist)).toBe(false);
+    expect(isOriginAllowed('https://shop.com.evil.com', allowlist)).toBe(false);
+  });
+
+  it('requires the same scheme and port', () => {
+    expect(isOriginAllowed('http://shop.com', allowlist)).toBe(false);
+    expect(isOriginAllowed('http://www.example.com', allowlist)).toBe(false);
+    expect(isOriginAllowed('https://shop.com:8443', allowlist)).toBe(false);
+    expect(isOriginAllowed('https://www.example.com:8443', allowlist)).toBe(false);
+  });
+
+  it('rejects opaque origins and empty allowlists', () => {
+    expect(isOriginAllowed('null', allowlist)).toBe(false);
+    expect(isOriginAllowed('https://shop.com', [])).toBe(false);
+  });
+});
+
+describe('isEmbedMessage', () => {
+  it('only accepts objects from the calculator protocol', () => {
+    expect(isEmbedMessage({ source: EMBED_MESSAGE_SOURCE, type: 'getResult' })).toBe(true);
+    expect(isEmbedMessage({ source: 'other', type: 'getResult' })).toBe(false);
+    expect(isEmbedMessage({ source: EMBED_MESSAGE_SOURCE })).toBe(false);
+    expect(isEmbedMessage(null)).toBe(false);
+    expect(isEmbedMessage('abil-calculator')).toBe(false);
+  });
+});
+
+describe('parseLayout', () => {
+  it('defaults to the compact layout', () => {
+    expect(parseLayout('full')).toBe('full');
+    expect(parseLayout(null)).toBe('compact');
+    expect(parseLayout('wide')).toBe('compact');
+  });
+});
@@ -0,0 +1,48 @@
+import type { CalculationResult, DiagnosticInputs } from '../engine/diagnostic';
+
+// --- Embed Protocol ---
+// Messages exchanged between the embedded calculator (embed.html, in an iframe) and the host
+// page. Every message carries `source` so both sides can ignore unrelated postMessage traffic.
+// Shared by the iframe app and the <abil-calculator> loader; keep it free of runtime imports.
+
+export const EMBED_MESSAGE_SOURCE = 'abil-calculator';
+
+export type EmbedLayout = 'compact' | 'full';
+
+// Host → calculator
+export type HostMessage =
+  | { type: 'setInputs'; inputs: Partial<DiagnosticInputs> }
+  | { type: 'getResult' };
+
+// Calculator → host
+export type WidgetMessage =
+  | { type: 'ready' | 'result' | 'cta'; inputs: DiagnosticInputs; result: CalculationResult }
+  | { type: 'resize'; height: number };
+
+export type EmbedMessage<T extends HostMessage | WidgetMessage> = T & { source: typeof EMBED_MESSAGE_SOURCE };
+
+export const isEmbedMessage = (data: unknown): data is { source: typeof EMBED_MESSAGE_SOURCE; type: string } =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE &&
+  typeof (data as { type?: unknown }).type === 'string';
+
+export const parseLayout = (value: string | null): EmbedLayout => (value === 'full' ? 'full' : 'compact');
+
+// --- Origin Allowlist ---
+
+// Comma-separated origins; `https://*.example.com` matches any subdomain of example.com.
+export const parseAllowedOrigins = (raw: string | undefined): string[] =>
+  (raw ?? '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+export const isOriginAllowed = (origin: string, allowlist: string[]) =>
+  allowlist.some((allowed) => {
+    if (allowed === origin) return true;
+    const wildcard = allowed.match(/^(https?:\/\/)\*\.(.+)$/);
+    if (!wildcard) return false;
+    const [, scheme, domain] = wildcard;
+    return origin.startsWith(scheme) && origin.slice(scheme.length).endsWith(`.${domain}`);
+  });
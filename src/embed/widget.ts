@@ -0,0 +1,106 @@
+import type { DiagnosticInputs } from '../engine/diagnostic';
+import { EMBED_MESSAGE_SOURCE, EmbedMessage, HostMessage, isEmbedMessage, WidgetMessage } from './protocol';
+
+// --- <abil-calculator> Loader ---
+// Standalone script (built to /widget.js) that host pages load with
+// <script type="module" src="https://…/widget.js">. The element renders embed.html in an iframe,
+// forwards attribute changes and setInputs() calls to it, sizes it to its content and re-emits
+// its messages as DOM events: `abil:ready`, `abil:result` and `abil:cta`, with
+// { inputs, result } as `detail`.
+
+// Attribute → input, e.g. <abil-calculator leads="200" response-time="30">
+const INPUT_ATTRIBUTES: Record<string, keyof DiagnosticInputs> = {
+  leads: 'leads',
+  conversion: 'conversion',
+  ticket: 'ticket',
+  'follow-ups': 'followUps',
+  'response-time': 'responseTime',
+};
+
+// Passed to embed.html as query parameters under the same name
+const FRAME_PARAMS = ['layout', 'lang', 'currency', 'theme'];
+
+// Changing these reloads the iframe
+const FRAME_ATTRIBUTES = [...FRAME_PARAMS, 'base-url'];
+
+// embed.html sits next to widget.js unless `base-url` says otherwise (e.g. the dev server)
+const DEFAULT_BASE_URL = import.meta.url.slice(0, import.meta.url.lastIndexOf('/') + 1);
+
+class AbilCalculatorElement extends HTMLElement {
+  static observedAttributes = [...Object.keys(INPUT_ATTRIBUTES), ...FRAME_ATTRIBUTES];
+
+  private iframe: HTMLIFrameElement | null = null;
+
+  private get frameUrl() {
+    return new URL('embed.html', this.getAttribute('base-url') ?? DEFAULT_BASE_URL);
+  }
+
+  connectedCallback() {
+    this.iframe = document.createElement('iframe');
+    this.iframe.title = this.getAttribute('title') ?? 'Abil CRM';
+    this.iframe.style.cssText = 'width:100%;border:0;display:block;min-height:480px;';
+    this.iframe.src = this.buildSrc();
+    this.appendChild(this.iframe);
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener('message', this.handleMessage);
+    this.iframe?.remove();
+    this.iframe = null;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+    if (!this.iframe || oldValue === value) return;
+    const key = INPUT_ATTRIBUTES[name];
+    if (key) {
+      const number = Number(value);
+      if (value !== null && Number.isFinite(number)) this.setInputs({ [key]: number });
+    } else {
+      this.iframe.src = this.buildSrc();
+    }
+  }
+
+  setInputs(inputs: Partial<DiagnosticInputs>) {
+    this.post({ type: 'setInputs', inputs });
+  }
+
+  requestResult() {
+    this.post({ type: 'getResult' });
+  }
+
+  private buildSrc() {
+    const url = this.frameUrl;
+    Object.entries(INPUT_ATTRIBUTES).forEach(([attribute, key]) => {
+      const value = this.getAttribute(attribute);
+      if (value !== null) url.searchParams.set(key, value);
+    });
+    FRAME_PARAMS.forEach((attribute) => {
+      const value = this.getAttribute(attribute);
+      if (value !== null) url.searchParams.set(attribute, value);
+    });
+    url.searchParams.set('parentOrigin', window.location.origin);
+    return url.toString();
+  }
+
+  private post(message: HostMessage) {
+    const envelope: EmbedMessage<HostMessage> = { ...message, source: EMBED_MESSAGE_SOURCE };
+    this.iframe?.contentWindow?.postMessage(envelope, this.frameUrl.origin);
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (!this.iframe || event.source !== this.iframe.contentWindow) return;
+    if (event.origin !== this.frameUrl.origin || !isEmbedMessage(event.data)) return;
+    const message = event.data as EmbedMessage<WidgetMessage>;
+    if (message.type === 'resize') {
+      this.iframe.style.height = `${message.height}px`;
+      return;
+    }
+    const { inputs, result } = message;
+    this.dispatchEvent(new CustomEvent(`abil:${message.type}`, { detail: { inputs, result }, bubbles: true, composed: true }));
+  };
+}
+
+if (!customElements.get('abil-calculator')) {
+  customElements.define('abil-calculator', AbilCalculatorElement);
+}
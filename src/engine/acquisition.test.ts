@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAcquisition, clampAcquisitionValue, DEFAULT_ACQUISITION_COSTS } from './acquisition';
+import { calculateDiagnostic, DEFAULT_INPUTS } from './diagnostic';
+
+const result = calculateDiagnostic(DEFAULT_INPUTS);
+
+describe('calculateAcquisition', () => {
+  it('charges the cost per lead to every lost sale', () => {
+    const acquisition = calculateAcquisition(result, DEFAULT_INPUTS.leads, { basis: 'monthly', marketing: 10000, salesTeam: 20000 });
+    expect(acquisition.costPerLead).toBe(100);
+    expect(acquisition.wastedFollowUp).toBeCloseTo(result.followUpLossSales * 100);
+    expect(acquisition.wastedResponse).toBeCloseTo(result.responseLossSales * 100);
+    expect(acquisition.wastedMarketingAnnual).toBeCloseTo(acquisition.wastedMarketing * 12);
+  });
+
+  it('gives the same answer for a monthly budget and the matching cost per lead', () => {
+    const monthly = calculateAcquisition(result, 100, { basis: 'monthly', marketing: 5000, salesTeam: 0 });
+    const perLead = calculateAcquisition(result, 100, { basis: 'perLead', marketing: 50, salesTeam: 0 });
+    expect(perLead).toEqual(monthly);
+  });
+
+  it('lowers the CAC and raises the ROAS once the lost sales are recovered', () => {
+    const acquisition = calculateAcquisition(result, DEFAULT_INPUTS.leads, DEFAULT_ACQUISITION_COSTS);
+    const totalCost = DEFAULT_ACQUISITION_COSTS.marketing + DEFAULT_ACQUISITION_COSTS.salesTeam;
+    expect(acquisition.currentCac).toBeCloseTo(totalCost / result.currentSales);
+    expect(acquisition.potentialCac!).toBeLessThan(acquisition.currentCac!);
+    expect(acquisition.currentRoas).toBeCloseTo(result.currentRevenue / DEFAULT_ACQUISITION_COSTS.marketing);
+    expect(acquisition.potentialRoas!).toBeGreaterThan(acquisition.currentRoas!);
+  });
+
+  it('has no CAC without sales and no ROAS without spend', () => {
+    const noSales = calculateDiagnostic({ ...DEFAULT_INPUTS, conversion: 0 });
+    expect(calculateAcquisition(noSales, 100, DEFAULT_ACQUISITION_COSTS).currentCac).toBeNull();
+    const free = calculateAcquisition(result, 100, { basis: 'monthly', marketing: 0, salesTeam: 1000 });
+    expect(free.currentRoas).toBeNull();
+    expect(free.wastedMarketing).toBe(0);
+  });
+
+  it('handles zero leads', () => {
+    expect(calculateAcquisition(result, 0, DEFAULT_ACQUISITION_COSTS).costPerLead).toBe(0);
+  });
+});
+
+describe('clampAcquisitionValue', () => {
+  it('clamps to the range of the basis', () => {
+    expect(clampAcquisitionValue('perLead', 99999)).toBe(2000);
+    expect(clampAcquisitionValue('monthly', -1)).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { CalculationResult, DEFAULT_COEFFICIENTS, ModelCoefficients } from './diagnostic';
+
+// --- Acquisition Costs ---
+// Optional cost side of the diagnostic. Every lost sale started as a lead that marketing already
+// paid for, so its cost per lead is money wasted; the lost sales also inflate the cost of each
+// customer won (CAC) and shrink the return on ad spend (ROAS). "Potential" figures assume the
+// same spend with the lost sales recovered.
+
+export type MarketingCostBasis = 'monthly' | 'perLead';
+
+export interface AcquisitionCosts {
+  basis: MarketingCostBasis;
+  marketing: number; // Monthly spend or cost per lead, depending on `basis`
+  salesTeam: number; // Monthly cost of the sales team (salaries, commissions, tools)
+}
+
+export type AcquisitionCostKey = Exclude<keyof AcquisitionCosts, 'basis'>;
+
+export interface AcquisitionResult {
+  marketingSpend: number; // Monthly
+  costPerLead: number;
+
+  wastedFollowUp: number;  // Monthly marketing spend on sales lost to weak follow-up
+  wastedResponse: number;  // Monthly marketing spend on sales lost to slow response
+  wastedMarketing: number;
+  wastedMarketingAnnual: number;
+
+  currentCac: number | null;   // Marketing and sales cost per sale; null without sales
+  potentialCac: number | null;
+  currentRoas: number | null;  // Revenue per unit of marketing spend; null without spend
+  potentialRoas: number | null;
+}
+
+export const ACQUISITION_RANGES: Record<MarketingCostBasis | 'salesTeam', { min: number; max: number; step: number }> = {
+  monthly: { min: 0, max: 1000000, step: 500 },
+  perLead: { min: 0, max: 2000, step: 1 },
+  salesTeam: { min: 0, max: 1000000, step: 500 },
+};
+
+export const DEFAULT_ACQUISITION_COSTS: AcquisitionCosts = {
+  basis: 'monthly',
+  marketing: 10000,
+  salesTeam: 20000,
+};
+
+export const isMarketingCostBasis = (value: string): value is MarketingCostBasis => value === 'monthly' || value === 'perLead';
+
+export const clampAcquisitionValue = (range: keyof typeof ACQUISITION_RANGES, value: number) => {
+  const { min, max } = ACQUISITION_RANGES[range];
+  return Math.min(max, Math.max(min, value));
+};
+
+export const calculateAcquisition = (
+  result: CalculationResult,
+  leads: number,
+  costs: AcquisitionCosts,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): AcquisitionResult => {
+  const marketingSpend = costs.basis === 'monthly' ? costs.marketing : costs.marketing * leads;
+  const costPerLead = leads > 0 ? marketingSpend / leads : 0;
+
+  const wastedFollowUp = result.followUpLossSales * costPerLead;
+  const wastedResponse = result.responseLossSales * costPerLead;
+  const wastedMarketing = wastedFollowUp + wastedResponse;
+
+  const totalCost = marketingSpend + costs.salesTeam;
+  const potentialSales = result.currentSales + result.totalLossSales;
+  const potentialRevenue = result.currentRevenue + result.totalLossRevenue;
+
+  return {
+    marketingSpend,
+    costPerLead,
+
+    wastedFollowUp,
+    wastedResponse,
+    wastedMarketing,
+    wastedMarketingAnnual: wastedMarketing * coefficients.monthsPerYear,
+
+    currentCac: result.currentSales > 0 ? totalCost / result.currentSales : null,
+    potentialCac: potentialSales > 0 ? totalCost / potentialSales : null,
+    currentRoas: marketingSpend > 0 ? result.currentRevenue / marketingSpend : null,
+    potentialRoas: marketingSpend > 0 ? potentialRevenue / marketingSpend : null,
+  };
+};
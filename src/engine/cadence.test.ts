@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeCadence,
+  CadenceTouch,
+  CHANNEL_WEIGHTS,
+  createTouchId,
+  DECAY_HALF_LIFE_DAYS,
+  DEFAULT_CADENCE,
+  getCadenceFollowUps,
+  getCadenceWarnings,
+  SAME_DAY_FACTOR,
+} from './cadence';
+import { calculateDiagnostic, DEFAULT_INPUTS } from './diagnostic';
+
+const touch = (day: number, channel: CadenceTouch['channel'] = 'call', id = `t-${day}-${channel}`): CadenceTouch => ({ id, day, channel });
+
+describe('getCadenceFollowUps', () => {
+  it('weights touches by channel', () => {
+    expect(getCadenceFollowUps([touch(0, 'call')])).toBe(CHANNEL_WEIGHTS.call);
+    expect(getCadenceFollowUps([touch(0, 'email')])).toBe(CHANNEL_WEIGHTS.email);
+  });
+
+  it('halves a touch every half-life', () => {
+    expect(getCadenceFollowUps([touch(DECAY_HALF_LIFE_DAYS)])).toBeCloseTo(0.5);
+    expect(getCadenceFollowUps([touch(DECAY_HALF_LIFE_DAYS * 2)])).toBeCloseTo(0.25);
+  });
+
+  it('discounts repeat touches on the same day, whatever the input order', () => {
+    const sameDay = [touch(2, 'call'), touch(0, 'call'), touch(0, 'whatsapp')];
+    const expected = CHANNEL_WEIGHTS.call + CHANNEL_WEIGHTS.whatsapp * SAME_DAY_FACTOR + CHANNEL_WEIGHTS.call * 0.5 ** (2 / DECAY_HALF_LIFE_DAYS);
+    expect(getCadenceFollowUps(sameDay)).toBeCloseTo(expected);
+  });
+
+  it('is zero for an empty cadence', () => {
+    expect(getCadenceFollowUps([])).toBe(0);
+  });
+});
+
+describe('getCadenceWarnings', () => {
+  it('accepts the default cadence', () => {
+    expect(getCadenceWarnings(DEFAULT_CADENCE)).toEqual([]);
+  });
+
+  it('flags more than two touches on one day', () => {
+    expect(getCadenceWarnings([touch(0), touch(0, 'email'), touch(0, 'whatsapp'), touch(20)])).toContain('compressed');
+  });
+
+  it('flags four or more touches crammed into a few days', () => {
+    expect(getCadenceWarnings([touch(12), touch(13), touch(14), touch(14, 'email')])).toEqual(['compressed']);
+  });
+
+  it('flags a cadence that ends before day 14', () => {
+    expect(getCadenceWarnings([touch(0), touch(7)])).toEqual(['stopsEarly']);
+  });
+
+  it('has nothing to say about an empty cadence', () => {
+    expect(getCadenceWarnings([])).toEqual([]);
+  });
+});
+
+describe('analyzeCadence', () => {
+  const analysis = analyzeCadence(DEFAULT_CADENCE, DEFAULT_INPUTS);
+
+  it('credits touches in day order with sales that add up to the whole cadence', () => {
+    const summed = analysis.touches.reduce((sum, c) => sum + c.recoveredSales, 0);
+    expect(summed).toBeCloseTo(analysis.recoveredSales);
+    expect(analysis.touches.reduce((sum, c) => sum + c.share, 0)).toBeCloseTo(1);
+    expect(analysis.touches.map((c) => c.touch.day)).toEqual([0, 0, 1, 3, 5, 8, 14]);
+  });
+
+  it('recovers what the follow-up loss drops by against no follow-up', () => {
+    const none = calculateDiagnostic({ ...DEFAULT_INPUTS, followUps: 0 });
+    const withCadence = calculateDiagnostic({ ...DEFAULT_INPUTS, followUps: analysis.effectiveFollowUps });
+    expect(analysis.recoveredSales).toBeCloseTo(none.followUpLossSales - withCadence.followUpLossSales);
+    expect(analysis.recoveredRevenue).toBeCloseTo(analysis.recoveredSales * DEFAULT_INPUTS.ticket);
+  });
+
+  it('handles an empty cadence', () => {
+    const empty = analyzeCadence([], DEFAULT_INPUTS);
+    expect(empty.recoveredSales).toBe(0);
+    expect(empty.touches).toEqual([]);
+  });
+});
+
+describe('createTouchId', () => {
+  it('creates the next free id', () => {
+    expect(createTouchId(DEFAULT_CADENCE)).toBe('touch-8');
+    expect(createTouchId([{ ...DEFAULT_CADENCE[0], id: 'touch-2' }])).toBe('touch-3');
+  });
+});
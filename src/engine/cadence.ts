@@ -0,0 +1,142 @@
+import {
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  getFollowUpLossFactor,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Follow-up Cadence ---
+// Optional replacement for the follow-up count: a list of touches, each on a day offset from the
+// lead's arrival and through a channel. Each touch is worth a fraction of an attempt: its channel
+// weight, halved every `DECAY_HALF_LIFE_DAYS` as the lead goes cold, and halved again when it
+// repeats a day that already had a touch. The sum is the effective attempt count fed to the usual
+// follow-up loss factor, so the rest of the model is unchanged. Touches are credited, in day order,
+// with the recovered sales their share of attempts adds; the log curve makes later touches worth less.
+
+export type TouchChannel = 'call' | 'whatsapp' | 'email';
+
+export interface CadenceTouch {
+  id: string;
+  day: number; // Days after the lead arrives, 0 = same day
+  channel: TouchChannel;
+}
+
+export type CadenceWarning = 'compressed' | 'stopsEarly';
+
+export interface TouchContribution {
+  touch: CadenceTouch;
+  attempts: number;         // Effective attempts this touch is worth
+  recoveredSales: number;   // Monthly sales this touch brings back
+  recoveredRevenue: number;
+  share: number;            // Of the cadence's recovered sales (0-1)
+}
+
+export interface CadenceAnalysis {
+  effectiveFollowUps: number;
+  touches: TouchContribution[]; // Sorted by day
+  recoveredSales: number;       // Monthly, against no follow-up at all
+  recoveredRevenue: number;
+  warnings: CadenceWarning[];
+}
+
+export const TOUCH_CHANNELS: TouchChannel[] = ['call', 'whatsapp', 'email'];
+
+// Calls and WhatsApp get answered; emails are easy to ignore
+export const CHANNEL_WEIGHTS: Record<TouchChannel, number> = {
+  call: 1,
+  whatsapp: 0.9,
+  email: 0.5,
+};
+
+export const DECAY_HALF_LIFE_DAYS = 14;
+export const SAME_DAY_FACTOR = 0.5;
+
+export const CADENCE_DAY_RANGE = { min: 0, max: 90, step: 1 };
+export const MAX_TOUCHES = 15;
+
+// Warning thresholds: more touches than this on one day, or 4+ touches less than a day apart on
+// average, is compressed; a cadence whose last touch comes before this day stops early
+export const MAX_TOUCHES_PER_DAY = 2;
+export const MIN_CADENCE_DAYS = 14;
+
+export const DEFAULT_CADENCE: CadenceTouch[] = [
+  { id: 'touch-1', day: 0, channel: 'call' },
+  { id: 'touch-2', day: 0, channel: 'whatsapp' },
+  { id: 'touch-3', day: 1, channel: 'call' },
+  { id: 'touch-4', day: 3, channel: 'email' },
+  { id: 'touch-5', day: 5, channel: 'whatsapp' },
+  { id: 'touch-6', day: 8, channel: 'call' },
+  { id: 'touch-7', day: 14, channel: 'email' },
+];
+
+export const isTouchChannel = (value: string): value is TouchChannel => TOUCH_CHANNELS.includes(value as TouchChannel);
+
+export const clampCadenceDay = (day: number) =>
+  Math.min(CADENCE_DAY_RANGE.max, Math.max(CADENCE_DAY_RANGE.min, Math.round(day)));
+
+// Next free id, for touches added in the UI or read from a link
+export const createTouchId = (cadence: CadenceTouch[]) => {
+  let n = cadence.length + 1;
+  while (cadence.some((touch) => touch.id === `touch-${n}`)) n++;
+  return `touch-${n}`;
+};
+
+const sortByDay = (cadence: CadenceTouch[]) => [...cadence].sort((a, b) => a.day - b.day);
+
+const getTouchAttempts = (cadence: CadenceTouch[]) => {
+  const sorted = sortByDay(cadence);
+  return sorted.map((touch, i) => {
+    const repeat = i > 0 && sorted[i - 1].day === touch.day;
+    const decay = 0.5 ** (touch.day / DECAY_HALF_LIFE_DAYS);
+    return { touch, attempts: CHANNEL_WEIGHTS[touch.channel] * decay * (repeat ? SAME_DAY_FACTOR : 1) };
+  });
+};
+
+// What the cadence is worth as a plain `followUps` input
+export const getCadenceFollowUps = (cadence: CadenceTouch[]) =>
+  getTouchAttempts(cadence).reduce((sum, t) => sum + t.attempts, 0);
+
+export const getCadenceWarnings = (cadence: CadenceTouch[]): CadenceWarning[] => {
+  if (cadence.length === 0) return [];
+  const sorted = sortByDay(cadence);
+  const span = sorted[sorted.length - 1].day - sorted[0].day;
+
+  const perDay = new Map<number, number>();
+  sorted.forEach((touch) => perDay.set(touch.day, (perDay.get(touch.day) ?? 0) + 1));
+  const crowdedDay = [...perDay.values()].some((count) => count > MAX_TOUCHES_PER_DAY);
+
+  const warnings: CadenceWarning[] = [];
+  if (crowdedDay || (sorted.length >= 4 && span < sorted.length - 1)) warnings.push('compressed');
+  if (sorted[sorted.length - 1].day < MIN_CADENCE_DAYS) warnings.push('stopsEarly');
+  return warnings;
+};
+
+// `inputs.followUps` is ignored; the cadence takes its place
+export const analyzeCadence = (
+  cadence: CadenceTouch[],
+  inputs: Pick<DiagnosticInputs, 'leads' | 'conversion' | 'ticket'>,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): CadenceAnalysis => {
+  const { recoverableShare, recoveryRate } = coefficients.followUp;
+  const nonConvertedLeads = inputs.leads * (1 - inputs.conversion / 100);
+  const noFollowUpFactor = getFollowUpLossFactor(0, coefficients);
+  const recoveredAt = (attempts: number) =>
+    nonConvertedLeads * recoverableShare * recoveryRate * (noFollowUpFactor - getFollowUpLossFactor(attempts, coefficients));
+
+  let cumulative = 0;
+  const contributions = getTouchAttempts(cadence).map(({ touch, attempts }) => {
+    const before = recoveredAt(cumulative);
+    cumulative += attempts;
+    const recoveredSales = recoveredAt(cumulative) - before;
+    return { touch, attempts, recoveredSales, recoveredRevenue: recoveredSales * inputs.ticket, share: 0 };
+  });
+
+  const recoveredSales = recoveredAt(cumulative);
+  return {
+    effectiveFollowUps: cumulative,
+    touches: contributions.map((c) => ({ ...c, share: recoveredSales > 0 ? c.recoveredSales / recoveredSales : 0 })),
+    recoveredSales,
+    recoveredRevenue: recoveredSales * inputs.ticket,
+    warnings: getCadenceWarnings(cadence),
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChannels, clampChannelInput, DEFAULT_CHANNELS, getBlendedInputs, LeadChannel } from './channels';
+import { calculateDiagnostic, getFollowUpLossFactor, INPUT_RANGES } from './diagnostic';
+
+const SHARED = { ticket: 2000, followUps: 3 };
+
+describe('getBlendedInputs', () => {
+  it('sums the leads and weights conversion and response time by leads', () => {
+    const channels: LeadChannel[] = [
+      { id: 'whatsapp', leads: 100, conversion: 10, responseTime: 30 },
+      { id: 'website', leads: 300, conversion: 2, responseTime: 90 },
+    ];
+    expect(getBlendedInputs(channels, SHARED)).toEqual({
+      leads: 400,
+      conversion: 4,
+      ticket: 2000,
+      followUps: 3,
+      responseTime: 75,
+    });
+  });
+
+  it('falls back to the fastest response time without leads', () => {
+    const blended = getBlendedInputs([{ id: 'phone', leads: 0, conversion: 10, responseTime: 600 }], SHARED);
+    expect(blended.conversion).toBe(0);
+    expect(blended.responseTime).toBe(INPUT_RANGES.responseTime.min);
+  });
+});
+
+describe('calculateChannels', () => {
+  it('sums the per-channel results into the total', () => {
+    const breakdown = calculateChannels(DEFAULT_CHANNELS, SHARED);
+    const results = DEFAULT_CHANNELS.map((c) => calculateDiagnostic({ ...SHARED, leads: c.leads, conversion: c.conversion, responseTime: c.responseTime }));
+
+    expect(breakdown.channels.map((o) => o.channel)).toEqual(DEFAULT_CHANNELS);
+    expect(breakdown.total.totalLossRevenue).toBeCloseTo(results.reduce((sum, r) => sum + r.totalLossRevenue, 0));
+    expect(breakdown.total.currentSales).toBeCloseTo(results.reduce((sum, r) => sum + r.currentSales, 0));
+    expect(breakdown.total.followUpFactor).toBe(getFollowUpLossFactor(SHARED.followUps));
+  });
+
+  it('matches the single-channel model for one channel', () => {
+    const channel: LeadChannel = { id: 'website', leads: 150, conversion: 6, responseTime: 45 };
+    const single = calculateDiagnostic({ ...SHARED, leads: 150, conversion: 6, responseTime: 45 });
+    const { total } = calculateChannels([channel], SHARED);
+    expect(total.totalLossRevenue).toBeCloseTo(single.totalLossRevenue);
+    expect(total.efficiency).toBeCloseTo(single.efficiency);
+    expect(total.responseStatus).toBe(single.responseStatus);
+  });
+});
+
+describe('clampChannelInput', () => {
+  it('keeps channel inputs in range', () => {
+    expect(clampChannelInput('conversion', 150)).toBe(100);
+    expect(clampChannelInput('responseTime', -5)).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  calculateDiagnostic,
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  getFollowUpLossFactor,
+  INPUT_RANGES,
+  ModelCoefficients,
+} from './diagnostic';
+import { combineResults } from './rollup';
+
+// --- Lead Channels ---
+// Optional multi-channel mode: each lead source has its own volume, conversion and response time,
+// while ticket and follow-up cadence stay shared. Every channel goes through the same loss model and
+// the results are summed back into a single `CalculationResult`.
+
+export type ChannelId = 'whatsapp' | 'website' | 'phone' | 'marketplace';
+
+export interface LeadChannel {
+  id: ChannelId;
+  leads: number;
+  conversion: number;
+  responseTime: number;
+}
+
+export type ChannelInputKey = Exclude<keyof LeadChannel, 'id'>;
+export type SharedInputs = Pick<DiagnosticInputs, 'ticket' | 'followUps'>;
+
+export interface ChannelOutcome {
+  channel: LeadChannel;
+  result: CalculationResult;
+}
+
+export interface ChannelBreakdown {
+  total: CalculationResult;
+  channels: ChannelOutcome[]; // Same order as the input channels
+}
+
+export const CHANNEL_IDS: ChannelId[] = ['whatsapp', 'website', 'phone', 'marketplace'];
+
+export const CHANNEL_INPUT_KEYS: ChannelInputKey[] = ['leads', 'conversion', 'responseTime'];
+
+// A channel may be unused, so it can have zero leads; the other ranges match the single-channel inputs.
+export const CHANNEL_INPUT_RANGES: Record<ChannelInputKey, { min: number; max: number; step: number }> = {
+  leads: { ...INPUT_RANGES.leads, min: 0 },
+  conversion: INPUT_RANGES.conversion,
+  responseTime: INPUT_RANGES.responseTime,
+};
+
+export const DEFAULT_CHANNELS: LeadChannel[] = [
+  { id: 'whatsapp', leads: 50, conversion: 8, responseTime: 120 },
+  { id: 'website', leads: 30, conversion: 10, responseTime: 60 },
+  { id: 'phone', leads: 10, conversion: 20, responseTime: 5 },
+  { id: 'marketplace', leads: 10, conversion: 6, responseTime: 90 },
+];
+
+export const isChannelId = (value: unknown): value is ChannelId => CHANNEL_IDS.includes(value as ChannelId);
+
+export const clampChannelInput = (key: ChannelInputKey, value: number) => {
+  const { min, max } = CHANNEL_INPUT_RANGES[key];
+  return Math.min(max, Math.max(min, value));
+};
+
+// --- Roll-up ---
+
+// Single-channel inputs that describe the mix as a whole: summed leads, blended conversion and a
+// lead-weighted response time. Used where a view needs one `DiagnosticInputs` (advice, scenarios, sensitivity).
+export const getBlendedInputs = (channels: LeadChannel[], shared: SharedInputs): DiagnosticInputs => {
+  const leads = channels.reduce((sum, c) => sum + c.leads, 0);
+  const sales = channels.reduce((sum, c) => sum + c.leads * (c.conversion / 100), 0);
+  const weightedTime = channels.reduce((sum, c) => sum + c.leads * c.responseTime, 0);
+  return {
+    leads,
+    conversion: leads > 0 ? (sales / leads) * 100 : 0,
+    ticket: shared.ticket,
+    followUps: shared.followUps,
+    responseTime: leads > 0 ? weightedTime / leads : INPUT_RANGES.responseTime.min,
+  };
+};
+
+export const calculateChannels = (
+  channels: LeadChannel[],
+  shared: SharedInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): ChannelBreakdown => {
+  const outcomes = channels.map((channel) => ({
+    channel,
+    result: calculateDiagnostic({ ...shared, leads: channel.leads, conversion: channel.conversion, responseTime: channel.responseTime }, coefficients),
+  }));
+  const blended = getBlendedInputs(channels, shared);
+
+  return {
+    channels: outcomes,
+    total: combineResults(
+      outcomes.map((o) => o.result),
+      channels.map((c) => c.leads),
+      // The follow-up factor depends only on the shared cadence, so it holds for the total as well.
+      { followUpFactor: getFollowUpLossFactor(shared.followUps, coefficients), responseTime: blended.responseTime },
+      coefficients,
+    ),
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDiagnostic,
+  clampInput,
+  DEFAULT_COEFFICIENTS,
+  DEFAULT_INPUTS,
+  getFollowUpLossFactor,
+  getResponseTimeLossFactor,
+  INPUT_RANGES,
+  MODEL_VERSION,
+} from './diagnostic';
+
+describe('calculateDiagnostic', () => {
+  it('reports the model version', () => {
+    expect(calculateDiagnostic(DEFAULT_INPUTS).modelVersion).toBe(MODEL_VERSION);
+  });
+
+  it('handles 0% conversion without dividing by zero', () => {
+    const result = calculateDiagnostic({ ...DEFAULT_INPUTS, conversion: 0 });
+    expect(result.currentSales).toBe(0);
+    expect(result.currentRevenue).toBe(0);
+    expect(result.totalLossSales).toBeGreaterThan(0);
+    expect(result.efficiency).toBe(0);
+    expect(Number.isFinite(result.totalLossRevenue)).toBe(true);
+  });
+
+  it('reports full efficiency at 100% conversion', () => {
+    const result = calculateDiagnostic({ ...DEFAULT_INPUTS, conversion: 100 });
+    expect(result.totalLossSales).toBe(0);
+    expect(result.efficiency).toBe(100);
+  });
+
+  it('loses every recoverable follow-up sale with 0 follow-ups', () => {
+    const inputs = { ...DEFAULT_INPUTS, followUps: 0 };
+    const result = calculateDiagnostic(inputs);
+    const { recoverableShare, recoveryRate } = DEFAULT_COEFFICIENTS.followUp;
+    const nonConverted = inputs.leads * (1 - inputs.conversion / 100);
+
+    expect(result.followUpFactor).toBe(1);
+    expect(result.followUpStatus).toBe('CRITICAL');
+    expect(result.followUpLossSales).toBeCloseTo(nonConverted * recoverableShare * recoveryRate);
+  });
+
+  it('rates a 180-minute response as critical', () => {
+    const result = calculateDiagnostic({ ...DEFAULT_INPUTS, responseTime: 180 });
+    expect(result.responseStatus).toBe('CRITICAL');
+    expect(result.responseFactor).toBeGreaterThan(0.5);
+    expect(result.responseFactor).toBeLessThan(1);
+    expect(result.responseLossSales).toBeGreaterThan(calculateDiagnostic(DEFAULT_INPUTS).responseLossSales);
+  });
+
+  it('annualizes the monthly figures', () => {
+    const result = calculateDiagnostic(DEFAULT_INPUTS);
+    expect(result.annualRevenue).toBeCloseTo(result.currentRevenue * DEFAULT_COEFFICIENTS.monthsPerYear);
+    expect(result.totalLossAnnual).toBeCloseTo(result.totalLossRevenue * DEFAULT_COEFFICIENTS.monthsPerYear);
+  });
+});
+
+describe('loss factors', () => {
+  it('reaches zero follow-up loss at maxAttempts and stays there', () => {
+    const { maxAttempts } = DEFAULT_COEFFICIENTS.followUp;
+    expect(getFollowUpLossFactor(maxAttempts)).toBe(0);
+    expect(getFollowUpLossFactor(maxAttempts + 5)).toBe(0);
+    expect(getFollowUpLossFactor(-1)).toBe(1);
+  });
+
+  it('grows the response loss with the response time', () => {
+    expect(getResponseTimeLossFactor(1)).toBeLessThan(getResponseTimeLossFactor(60));
+    expect(getResponseTimeLossFactor(60)).toBeLessThan(getResponseTimeLossFactor(180));
+  });
+});
+
+describe('clampInput', () => {
+  it('keeps values inside the input ranges', () => {
+    expect(clampInput('conversion', -5)).toBe(INPUT_RANGES.conversion.min);
+    expect(clampInput('conversion', 150)).toBe(INPUT_RANGES.conversion.max);
+    expect(clampInput('followUps', 12)).toBe(INPUT_RANGES.followUps.max);
+    expect(clampInput('responseTime', 0)).toBe(INPUT_RANGES.responseTime.min);
+    expect(clampInput('leads', 1)).toBe(INPUT_RANGES.leads.min);
+  });
+
+  it('leaves values already in range untouched', () => {
+    expect(clampInput('responseTime', 180)).toBe(180);
+    expect(clampInput('ticket', 5000)).toBe(5000);
+  });
+});
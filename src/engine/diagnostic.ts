@@ -0,0 +1,223 @@
+// --- Diagnostic Engine ---
+// Pure loss model shared by the dashboard and any other consumer (reports, CLI, embeds).
+// No React or DOM imports allowed here.
+
+// Printed in reports, saved with history records and shown by the CLI: bump it whenever the
+// inputs, their ranges or the coefficients change, so one label always means one model.
+export const MODEL_VERSION = '1.1.0';
+
+// --- Types & Interfaces ---
+
+export interface DiagnosticInputs {
+  leads: number;        // Leads received per month
+  conversion: number;   // Conversion rate in percent (0-100)
+  ticket: number;       // Average ticket
+  followUps: number;    // Follow-up attempts per lead
+  responseTime: number; // Average first response time in minutes
+}
+
+export type FollowUpStatus = 'CRITICAL' | 'WARNING' | 'ADEQUATE';
+export type ResponseStatus = 'CRITICAL' | 'WARNING' | 'IMPROVE' | 'GOOD' | 'EXCELLENT';
+
+export interface CalculationResult {
+  modelVersion: string;
+
+  currentSales: number;
+  currentRevenue: number;
+  annualRevenue: number;
+
+  followUpStatus: FollowUpStatus;
+  followUpLossSales: number;
+  followUpLossRevenue: number;
+  followUpLossAnnual: number;
+  followUpFactor: number;
+
+  responseStatus: ResponseStatus;
+  responseLossSales: number;
+  responseLossRevenue: number;
+  responseLossAnnual: number;
+  responseFactor: number;
+
+  totalLossSales: number;
+  totalLossRevenue: number;
+  totalLossAnnual: number;
+  efficiency: number;
+}
+
+export interface ModelCoefficients {
+  followUp: {
+    maxAttempts: number;      // Attempts beyond this add no recovery (log base)
+    recoverableShare: number; // Share of non-converted leads reachable by follow-up
+    recoveryRate: number;     // Share of reachable leads that would close
+    criticalFactor: number;   // Loss factor above this is CRITICAL
+    warningFactor: number;    // Loss factor at or above this is WARNING
+    idealAttempts: number;    // Benchmark quoted in the advice; not used by the model
+  };
+  response: {
+    k: number;                // Sigmoid steepness
+    midpoint: number;         // Sigmoid midpoint on log10(minutes + 1)
+    recoverableShare: number; // Share of non-converted leads reachable by faster response
+    recoveryRate: number;     // Share of reachable leads that would close
+    excellentMinutes: number; // Up to this is EXCELLENT
+    goodMinutes: number;      // Up to this is GOOD
+    warningMinutes: number;   // Up to this is WARNING, above is CRITICAL
+  };
+  monthsPerYear: number;
+}
+
+export type CoefficientOverrides = {
+  [K in keyof ModelCoefficients]?: ModelCoefficients[K] extends object
+    ? Partial<ModelCoefficients[K]>
+    : ModelCoefficients[K];
+};
+
+// --- Defaults ---
+
+export const DEFAULT_COEFFICIENTS: ModelCoefficients = {
+  followUp: {
+    maxAttempts: 10,
+    recoverableShare: 0.50,
+    recoveryRate: 0.12,
+    criticalFactor: 0.60,
+    warningFactor: 0.30,
+    idealAttempts: 7,
+  },
+  response: {
+    k: 2.5,
+    midpoint: 1.78,
+    recoverableShare: 0.60,
+    recoveryRate: 0.15,
+    excellentMinutes: 5,
+    goodMinutes: 30,
+    warningMinutes: 60,
+  },
+  monthsPerYear: 12,
+};
+
+export const DEFAULT_INPUTS: DiagnosticInputs = {
+  leads: 100,
+  conversion: 10,
+  ticket: 5000,
+  followUps: 3,
+  responseTime: 60,
+};
+
+// Valid range for each input. Shared by the slider controls and any external input validation.
+export const INPUT_RANGES: Record<keyof DiagnosticInputs, { min: number; max: number; step: number }> = {
+  leads: { min: 10, max: 5000, step: 10 },
+  conversion: { min: 0, max: 100, step: 0.5 },
+  ticket: { min: 50, max: 50000, step: 50 },
+  followUps: { min: 0, max: 10, step: 1 },
+  responseTime: { min: 1, max: 1440, step: 1 },
+};
+
+export const INPUT_KEYS = Object.keys(DEFAULT_INPUTS) as (keyof DiagnosticInputs)[];
+
+export const clampInput = (key: keyof DiagnosticInputs, value: number) => {
+  const { min, max } = INPUT_RANGES[key];
+  return Math.min(max, Math.max(min, value));
+};
+
+export const resolveCoefficients = (overrides: CoefficientOverrides = {}): ModelCoefficients => ({
+  followUp: { ...DEFAULT_COEFFICIENTS.followUp, ...overrides.followUp },
+  response: { ...DEFAULT_COEFFICIENTS.response, ...overrides.response },
+  monthsPerYear: overrides.monthsPerYear ?? DEFAULT_COEFFICIENTS.monthsPerYear,
+});
+
+// --- Factors ---
+
+// 1 at zero attempts, decaying logarithmically to 0 at `maxAttempts`.
+export const getFollowUpLossFactor = (followUps: number, coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS) => {
+  const { maxAttempts } = coefficients.followUp;
+  const safeFollowUps = Math.min(Math.max(followUps, 0), maxAttempts);
+  const rawLossPercentage = 1 - (Math.log(safeFollowUps + 1) / Math.log(maxAttempts + 1));
+  return Math.max(0, rawLossPercentage);
+};
+
+// Sigmoid over log10(minutes + 1).
+export const getResponseTimeLossFactor = (responseTime: number, coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS) => {
+  const { k, midpoint } = coefficients.response;
+  const timeLog = Math.log10(Math.max(responseTime, 0) + 1);
+  return 1 / (1 + Math.exp(-k * (timeLog - midpoint)));
+};
+
+export const getFollowUpStatus = (lossFactor: number, coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS): FollowUpStatus => {
+  const { criticalFactor, warningFactor } = coefficients.followUp;
+  if (lossFactor > criticalFactor) return 'CRITICAL';
+  if (lossFactor >= warningFactor) return 'WARNING';
+  return 'ADEQUATE';
+};
+
+export const getResponseStatus = (responseTime: number, coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS): ResponseStatus => {
+  const { excellentMinutes, goodMinutes, warningMinutes } = coefficients.response;
+  if (responseTime <= excellentMinutes) return 'EXCELLENT';
+  if (responseTime <= goodMinutes) return 'GOOD';
+  if (responseTime <= warningMinutes) return 'WARNING';
+  return 'CRITICAL';
+};
+
+// --- Model ---
+
+export const calculateDiagnostic = (
+  inputs: DiagnosticInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): CalculationResult => {
+  const { leads, conversion, ticket, followUps, responseTime } = inputs;
+  const { monthsPerYear } = coefficients;
+
+  const currentSales = leads * (conversion / 100);
+  const currentRevenue = currentSales * ticket;
+  const annualRevenue = currentRevenue * monthsPerYear;
+
+  const nonConvertedLeads = leads - currentSales;
+
+  // Follow-up
+  const followUpLossFactor = getFollowUpLossFactor(followUps, coefficients);
+  const followUpStatus = getFollowUpStatus(followUpLossFactor, coefficients);
+
+  const maxFollowUpRecoverable = nonConvertedLeads * coefficients.followUp.recoverableShare;
+  const followUpRecoverableLeads = maxFollowUpRecoverable * followUpLossFactor;
+  const followUpLossSales = followUpRecoverableLeads * coefficients.followUp.recoveryRate;
+  const followUpLossRevenue = followUpLossSales * ticket;
+
+  // Response time
+  const responseTimeLossFactor = getResponseTimeLossFactor(responseTime, coefficients);
+  const responseStatus = getResponseStatus(responseTime, coefficients);
+
+  const maxResponseRecoverable = nonConvertedLeads * coefficients.response.recoverableShare;
+  const responseRecoverableLeads = maxResponseRecoverable * responseTimeLossFactor;
+  const responseLossSales = responseRecoverableLeads * coefficients.response.recoveryRate;
+  const responseLossRevenue = responseLossSales * ticket;
+
+  // Totals
+  const totalLossSales = followUpLossSales + responseLossSales;
+  const totalLossRevenue = followUpLossRevenue + responseLossRevenue;
+
+  const totalPotentialSales = currentSales + totalLossSales;
+  const efficiency = totalPotentialSales > 0 ? (currentSales / totalPotentialSales) * 100 : 100;
+
+  return {
+    modelVersion: MODEL_VERSION,
+
+    currentSales,
+    currentRevenue,
+    annualRevenue,
+
+    followUpStatus,
+    followUpLossSales,
+    followUpLossRevenue,
+    followUpLossAnnual: followUpLossRevenue * monthsPerYear,
+    followUpFactor: followUpLossFactor,
+
+    responseStatus,
+    responseLossSales,
+    responseLossRevenue,
+    responseLossAnnual: responseLossRevenue * monthsPerYear,
+    responseFactor: responseTimeLossFactor,
+
+    totalLossSales,
+    totalLossRevenue,
+    totalLossAnnual: totalLossRevenue * monthsPerYear,
+    efficiency,
+  };
+};
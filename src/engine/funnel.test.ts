@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INPUTS } from './diagnostic';
+import { calculateFunnel, DEFAULT_FUNNEL, getFunnelConversion, scaleResponseGaps } from './funnel';
+
+describe('getFunnelConversion', () => {
+  it('multiplies the stage rates', () => {
+    expect(getFunnelConversion(DEFAULT_FUNNEL)).toBeCloseTo(10);
+    expect(getFunnelConversion({ ...DEFAULT_FUNNEL, won: 0 })).toBe(0);
+  });
+});
+
+describe('calculateFunnel', () => {
+  const { result, stages } = calculateFunnel(DEFAULT_INPUTS, DEFAULT_FUNNEL);
+
+  it('walks the leads down the stages', () => {
+    expect(stages.map((s) => s.id)).toEqual(['lead', 'contacted', 'qualified', 'proposal', 'won']);
+    expect(stages.map((s) => s.count)).toEqual([100, 80, 40, 20, 10]);
+    expect(result.currentSales).toBe(10);
+    expect(result.currentRevenue).toBe(10 * DEFAULT_INPUTS.ticket);
+  });
+
+  it('carries the response gap down at the downstream rates', () => {
+    const contactedGap = stages[1].responseGap;
+    expect(stages[2].responseGap).toBeCloseTo(contactedGap * 0.5);
+    expect(stages[4].responseGap).toBeCloseTo(contactedGap * 0.125);
+    expect(stages[4].responseGap).toBeCloseTo(result.responseLossSales);
+  });
+
+  it('puts the follow-up loss on the won stage only', () => {
+    expect(stages.slice(0, 4).every((s) => s.followUpGap === 0)).toBe(true);
+    expect(stages[4].followUpGap).toBe(result.followUpLossSales);
+  });
+
+  it('loses nothing once every lead is contacted and every proposal closes', () => {
+    const perfect = calculateFunnel(DEFAULT_INPUTS, { contacted: 100, qualified: 50, proposal: 50, won: 100 });
+    expect(perfect.result.totalLossSales).toBe(0);
+    expect(perfect.result.efficiency).toBe(100);
+  });
+
+  it('reports full efficiency for a funnel that sells nothing and loses nothing', () => {
+    const empty = calculateFunnel({ ...DEFAULT_INPUTS, leads: 0 }, DEFAULT_FUNNEL);
+    expect(empty.result.efficiency).toBe(100);
+  });
+});
+
+describe('scaleResponseGaps', () => {
+  it('rescales only the response gaps', () => {
+    const { stages } = calculateFunnel(DEFAULT_INPUTS, DEFAULT_FUNNEL);
+    const scaled = scaleResponseGaps(stages, 2);
+    expect(scaled.map((s) => s.responseGap)).toEqual(stages.map((s) => s.responseGap * 2));
+    expect(scaled.map((s) => s.followUpGap)).toEqual(stages.map((s) => s.followUpGap));
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  getFollowUpLossFactor,
+  getFollowUpStatus,
+  getResponseStatus,
+  getResponseTimeLossFactor,
+  MODEL_VERSION,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Funnel Model ---
+// Advanced mode that replaces the single conversion rate with stage-to-stage rates
+// (lead → contacted → qualified → proposal → won). Each loss hits the stage it belongs to:
+// slow responses leave leads uncontacted, missing follow-ups leave proposals stalled.
+// Recovered leads then close at the funnel's own downstream rates instead of `recoveryRate`.
+
+export type FunnelStageId = 'lead' | 'contacted' | 'qualified' | 'proposal' | 'won';
+
+// Conversion into each stage from the previous one, in percent
+export interface FunnelRates {
+  contacted: number;
+  qualified: number;
+  proposal: number;
+  won: number;
+}
+
+export interface FunnelStage {
+  id: FunnelStageId;
+  count: number;         // Leads reaching this stage today
+  responseGap: number;   // Extra leads that would reach it with the response time loss recovered
+  followUpGap: number;   // Extra leads that would reach it with the follow-up loss recovered
+}
+
+export interface FunnelResult {
+  result: CalculationResult;
+  stages: FunnelStage[]; // Lead first, won last
+}
+
+export const FUNNEL_RATE_KEYS: (keyof FunnelRates)[] = ['contacted', 'qualified', 'proposal', 'won'];
+
+export const FUNNEL_RATE_RANGE = { min: 0, max: 100, step: 1 };
+
+// Multiplies out to the default 10% conversion
+export const DEFAULT_FUNNEL: FunnelRates = {
+  contacted: 80,
+  qualified: 50,
+  proposal: 50,
+  won: 50,
+};
+
+export const clampFunnelRate = (value: number) => Math.min(FUNNEL_RATE_RANGE.max, Math.max(FUNNEL_RATE_RANGE.min, value));
+
+// Overall lead → won conversion in percent, for consumers that need a single rate.
+export const getFunnelConversion = (rates: FunnelRates) =>
+  FUNNEL_RATE_KEYS.reduce((product, key) => product * (rates[key] / 100), 1) * 100;
+
+export const calculateFunnel = (
+  inputs: Omit<DiagnosticInputs, 'conversion'>,
+  rates: FunnelRates,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): FunnelResult => {
+  const { leads, ticket, followUps, responseTime } = inputs;
+  const { monthsPerYear } = coefficients;
+  const contactedRate = rates.contacted / 100;
+  const qualifiedRate = rates.qualified / 100;
+  const proposalRate = rates.proposal / 100;
+  const wonRate = rates.won / 100;
+
+  const contacted = leads * contactedRate;
+  const qualified = contacted * qualifiedRate;
+  const proposals = qualified * proposalRate;
+  const currentSales = proposals * wonRate;
+  const currentRevenue = currentSales * ticket;
+
+  // Response time: a share of the uncontacted leads would have been reached with a faster first response
+  const responseTimeLossFactor = getResponseTimeLossFactor(responseTime, coefficients);
+  const lostContacts = (leads - contacted) * coefficients.response.recoverableShare * responseTimeLossFactor;
+  const responseLossSales = lostContacts * qualifiedRate * proposalRate * wonRate;
+  const responseLossRevenue = responseLossSales * ticket;
+
+  // Follow-up: a share of the proposals that did not close would have closed with more attempts
+  const followUpLossFactor = getFollowUpLossFactor(followUps, coefficients);
+  const stalledProposals = (proposals - currentSales) * coefficients.followUp.recoverableShare * followUpLossFactor;
+  const followUpLossSales = stalledProposals * wonRate;
+  const followUpLossRevenue = followUpLossSales * ticket;
+
+  const totalLossSales = followUpLossSales + responseLossSales;
+  const totalLossRevenue = followUpLossRevenue + responseLossRevenue;
+  const totalPotentialSales = currentSales + totalLossSales;
+
+  const stages: FunnelStage[] = [
+    { id: 'lead', count: leads, responseGap: 0, followUpGap: 0 },
+    { id: 'contacted', count: contacted, responseGap: lostContacts, followUpGap: 0 },
+    { id: 'qualified', count: qualified, responseGap: lostContacts * qualifiedRate, followUpGap: 0 },
+    { id: 'proposal', count: proposals, responseGap: lostContacts * qualifiedRate * proposalRate, followUpGap: 0 },
+    { id: 'won', count: currentSales, responseGap: responseLossSales, followUpGap: followUpLossSales },
+  ];
+
+  return {
+    stages,
+    result: {
+      modelVersion: MODEL_VERSION,
+
+      currentSales,
+      currentRevenue,
+      annualRevenue: currentRevenue * monthsPerYear,
+
+      followUpStatus: getFollowUpStatus(followUpLossFactor, coefficients),
+      followUpLossSales,
+      followUpLossRevenue,
+      followUpLossAnnual: followUpLossRevenue * monthsPerYear,
+      followUpFactor: followUpLossFactor,
+
+      responseStatus: getResponseStatus(responseTime, coefficients),
+      responseLossSales,
+      responseLossRevenue,
+      responseLossAnnual: responseLossRevenue * monthsPerYear,
+      responseFactor: responseTimeLossFactor,
+
+      totalLossSales,
+      totalLossRevenue,
+      totalLossAnnual: totalLossRevenue * monthsPerYear,
+      efficiency: totalPotentialSales > 0 ? (currentSales / totalPotentialSales) * 100 : 100,
+    },
+  };
+};
+
+// Rescales the response time gaps, e.g. after the response loss was recomputed from a distribution.
+export const scaleResponseGaps = (stages: FunnelStage[], scale: number): FunnelStage[] =>
+  stages.map((stage) => ({ ...stage, responseGap: stage.responseGap * scale }));
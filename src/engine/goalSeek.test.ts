@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiagnostic, DEFAULT_INPUTS, INPUT_RANGES } from './diagnostic';
+import { RESPONSE_TIME_STOPS, seekGoal } from './goalSeek';
+
+const INPUTS = { ...DEFAULT_INPUTS, followUps: 2, responseTime: 240 };
+
+describe('seekGoal', () => {
+  it('reports a target that today already meets without changing anything', () => {
+    const goal = seekGoal(INPUTS, { metric: 'revenue', target: 0, levers: 'both' });
+    expect(goal.alreadyMet).toBe(true);
+    expect(goal.reachable).toBe(true);
+    expect(goal.path).toEqual([]);
+    expect(goal.solution).toEqual({ followUps: 2, responseTime: 240 });
+  });
+
+  it('meets a revenue target and reports what it recovers', () => {
+    const goal = seekGoal(INPUTS, { metric: 'revenue', target: 5000, levers: 'both' });
+    const today = calculateDiagnostic(INPUTS);
+    const after = calculateDiagnostic({ ...INPUTS, ...goal.solution });
+
+    expect(goal.reachable).toBe(true);
+    expect(goal.extraRevenue).toBeGreaterThanOrEqual(5000);
+    expect(goal.extraRevenue).toBeCloseTo(today.totalLossRevenue - after.totalLossRevenue);
+    expect(goal.path[goal.path.length - 1]).toMatchObject(goal.solution);
+  });
+
+  it('meets an efficiency target', () => {
+    const goal = seekGoal(INPUTS, { metric: 'efficiency', target: 60, levers: 'both' });
+    expect(goal.reachable).toBe(true);
+    expect(goal.result.efficiency).toBeGreaterThanOrEqual(60);
+  });
+
+  it('only moves the chosen lever', () => {
+    const followUps = seekGoal(INPUTS, { metric: 'revenue', target: 3000, levers: 'followUps' });
+    expect(followUps.solution.responseTime).toBe(240);
+    expect(followUps.path.every((step) => step.lever === 'followUps')).toBe(true);
+
+    const responseTime = seekGoal(INPUTS, { metric: 'revenue', target: 3000, levers: 'responseTime' });
+    expect(responseTime.solution.followUps).toBe(2);
+    expect(responseTime.path.every((step) => step.lever === 'responseTime')).toBe(true);
+  });
+
+  it('backs the last response time cut off to the slowest minute that still works', () => {
+    const goal = seekGoal(INPUTS, { metric: 'revenue', target: 3000, levers: 'responseTime' });
+    const { responseTime } = goal.solution;
+    const recovered = (minutes: number) =>
+      calculateDiagnostic(INPUTS).totalLossRevenue - calculateDiagnostic({ ...INPUTS, responseTime: minutes }).totalLossRevenue;
+
+    expect(recovered(responseTime)).toBeGreaterThanOrEqual(3000);
+    expect(recovered(responseTime + 1)).toBeLessThan(3000);
+    expect(RESPONSE_TIME_STOPS).not.toContain(responseTime);
+  });
+
+  it('stops at the best the levers can do when the target is out of reach', () => {
+    const goal = seekGoal(INPUTS, { metric: 'efficiency', target: 100, levers: 'both' });
+    expect(goal.reachable).toBe(false);
+    expect(goal.solution).toEqual({ followUps: INPUT_RANGES.followUps.max, responseTime: 1 });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  calculateDiagnostic,
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  INPUT_RANGES,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Goal Seek ---
+// Reverse of the diagnostic: given a target (extra monthly revenue or efficiency), find the
+// smallest change to the follow-up cadence and/or response time that reaches it. The search
+// walks from today's inputs one move at a time, always taking the move that recovers the most
+// revenue, so the steps double as an action plan. The last response time move is refined to the
+// slowest minute that still meets the target.
+
+export type GoalMetric = 'revenue' | 'efficiency';
+export type GoalLevers = 'followUps' | 'responseTime' | 'both';
+export type GoalLever = Exclude<GoalLevers, 'both'>;
+
+export interface GoalSeekOptions {
+  metric: GoalMetric;
+  target: number; // Extra monthly revenue, or efficiency in percent
+  levers: GoalLevers;
+}
+
+export type GoalOperation = Pick<DiagnosticInputs, 'followUps' | 'responseTime'>;
+
+export interface GoalSeekStep extends GoalOperation {
+  lever: GoalLever;     // What this step changed
+  extraRevenue: number; // Monthly revenue recovered against today, after this step
+  efficiency: number;
+}
+
+export interface GoalSeekResult {
+  reachable: boolean;
+  alreadyMet: boolean;
+  baseline: GoalOperation;
+  baselineResult: CalculationResult;
+  solution: GoalOperation; // Where the search stopped: the answer, or the best the levers can do
+  result: CalculationResult;
+  extraRevenue: number;
+  path: GoalSeekStep[];    // Today's inputs excluded
+}
+
+export const DEFAULT_GOAL_SEEK_OPTIONS: GoalSeekOptions = {
+  metric: 'revenue',
+  target: 10000,
+  levers: 'both',
+};
+
+// Response time moves stop at each status threshold and at a few familiar marks
+export const RESPONSE_TIME_STOPS = [1440, 480, 240, 120, 60, 30, 15, 5, 1];
+
+const getMetric = (options: GoalSeekOptions, result: CalculationResult, extraRevenue: number) =>
+  options.metric === 'revenue' ? extraRevenue : result.efficiency;
+
+const getMoves = (operation: GoalOperation, levers: GoalLevers): { lever: GoalLever; operation: GoalOperation }[] => {
+  const moves: { lever: GoalLever; operation: GoalOperation }[] = [];
+  if (levers !== 'responseTime' && operation.followUps < INPUT_RANGES.followUps.max) {
+    moves.push({ lever: 'followUps', operation: { ...operation, followUps: Math.floor(operation.followUps) + 1 } });
+  }
+  const nextStop = RESPONSE_TIME_STOPS.find((stop) => stop < operation.responseTime);
+  if (levers !== 'followUps' && nextStop !== undefined) {
+    moves.push({ lever: 'responseTime', operation: { ...operation, responseTime: nextStop } });
+  }
+  return moves;
+};
+
+export const seekGoal = (
+  inputs: DiagnosticInputs,
+  options: GoalSeekOptions,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): GoalSeekResult => {
+  const baselineResult = calculateDiagnostic(inputs, coefficients);
+  const evaluate = (operation: GoalOperation) => {
+    const result = calculateDiagnostic({ ...inputs, ...operation }, coefficients);
+    const extraRevenue = baselineResult.totalLossRevenue - result.totalLossRevenue;
+    return { result, extraRevenue, met: getMetric(options, result, extraRevenue) >= options.target };
+  };
+
+  const baseline: GoalOperation = { followUps: inputs.followUps, responseTime: inputs.responseTime };
+  let operation = baseline;
+  let current = evaluate(operation);
+  const path: GoalSeekStep[] = [];
+  const alreadyMet = current.met;
+
+  while (!current.met) {
+    const candidates = getMoves(operation, options.levers).map((move) => ({ ...move, ...evaluate(move.operation) }));
+    if (candidates.length === 0) break;
+    let best = candidates.reduce((a, b) => (b.extraRevenue > a.extraRevenue ? b : a));
+
+    // Back off to the slowest response time that still meets the target
+    if (best.met && best.lever === 'responseTime') {
+      let fast = best.operation.responseTime;
+      let slow = operation.responseTime;
+      while (slow - fast > INPUT_RANGES.responseTime.step) {
+        const mid = Math.floor((fast + slow) / 2);
+        if (evaluate({ ...operation, responseTime: mid }).met) fast = mid;
+        else slow = mid;
+      }
+      const refined = { ...operation, responseTime: fast };
+      best = { ...best, operation: refined, ...evaluate(refined) };
+    }
+
+    operation = best.operation;
+    current = best;
+    path.push({ ...operation, lever: best.lever, extraRevenue: best.extraRevenue, efficiency: best.result.efficiency });
+  }
+
+  return {
+    reachable: current.met,
+    alreadyMet,
+    baseline,
+    baselineResult,
+    solution: operation,
+    result: current.result,
+    extraRevenue: current.extraRevenue,
+    path,
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiagnostic, DEFAULT_INPUTS } from './diagnostic';
+import { DEFAULT_UNCERTAINTY, runMonteCarlo } from './monteCarlo';
+
+const FAST = { ...DEFAULT_UNCERTAINTY, runs: 500 };
+
+describe('runMonteCarlo', () => {
+  it('gives the same bands for the same seed', () => {
+    expect(runMonteCarlo(DEFAULT_INPUTS, FAST)).toEqual(runMonteCarlo(DEFAULT_INPUTS, FAST));
+    expect(runMonteCarlo(DEFAULT_INPUTS, FAST, undefined, 1)).not.toEqual(runMonteCarlo(DEFAULT_INPUTS, FAST, undefined, 2));
+  });
+
+  it('orders the percentiles and bins every run', () => {
+    const summary = runMonteCarlo(DEFAULT_INPUTS, FAST);
+    const { p10, p50, p90 } = summary.totalLossAnnual;
+    expect(p10).toBeLessThan(p50);
+    expect(p50).toBeLessThan(p90);
+    expect(summary.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+  });
+
+  it('collapses to the point estimate without uncertainty', () => {
+    const none = { inputs: { leads: 0, conversion: 0, ticket: 0, followUps: 0, responseTime: 0 }, coefficients: 0, runs: 10 };
+    const expected = calculateDiagnostic(DEFAULT_INPUTS).totalLossAnnual;
+    const { p10, p90 } = runMonteCarlo(DEFAULT_INPUTS, none).totalLossAnnual;
+    expect(p10).toBeCloseTo(expected);
+    expect(p90).toBeCloseTo(expected);
+  });
+
+  it('runs at least once', () => {
+    expect(runMonteCarlo(DEFAULT_INPUTS, { ...FAST, runs: 0 }).runs).toBe(1);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  calculateDiagnostic,
+  clampInput,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  INPUT_KEYS,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Monte Carlo Simulation ---
+// Repeats the loss model with every input and the main model coefficients drawn from a
+// triangular distribution around their current value (± the given percent), and summarizes the
+// spread of the outcomes as P10/P50/P90. Seeded, so the same inputs always give the same bands.
+
+export type InputUncertainty = Record<keyof DiagnosticInputs, number>;
+
+export interface UncertaintyOptions {
+  inputs: InputUncertainty; // ± percent of each input
+  coefficients: number;     // ± percent of the recovery shares, rates and sigmoid shape
+  runs: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationSummary {
+  runs: number;
+  followUpLossRevenue: Percentiles;
+  responseLossRevenue: Percentiles;
+  totalLossRevenue: Percentiles;
+  totalLossAnnual: Percentiles;
+  efficiency: Percentiles;
+  histogram: HistogramBin[]; // Distribution of totalLossAnnual
+}
+
+export const DEFAULT_UNCERTAINTY: UncertaintyOptions = {
+  inputs: {
+    leads: 10,
+    conversion: 20,
+    ticket: 15,
+    followUps: 20,
+    responseTime: 30,
+  },
+  coefficients: 20,
+  runs: 2000,
+};
+
+export const UNCERTAINTY_RANGE = { min: 0, max: 50, step: 5 };
+export const SIMULATION_RUNS = [1000, 2000, 5000];
+
+const HISTOGRAM_BINS = 20;
+const DEFAULT_SEED = 20240601;
+
+// --- Sampling ---
+
+// Mulberry32: small, fast and good enough for sampling; Math.random can't be seeded.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Symmetric triangular distribution on value × (1 ± percent / 100), peaking at the value.
+const sampleAround = (value: number, percent: number, random: () => number) => {
+  const spread = value * (percent / 100);
+  return value + (random() - random()) * spread;
+};
+
+const sampleCoefficients = (
+  coefficients: ModelCoefficients,
+  percent: number,
+  random: () => number,
+): ModelCoefficients => {
+  const { followUp, response } = coefficients;
+  const share = (value: number) => Math.min(1, Math.max(0, sampleAround(value, percent, random)));
+  return {
+    ...coefficients,
+    followUp: {
+      ...followUp,
+      recoverableShare: share(followUp.recoverableShare),
+      recoveryRate: share(followUp.recoveryRate),
+    },
+    response: {
+      ...response,
+      k: sampleAround(response.k, percent, random),
+      midpoint: sampleAround(response.midpoint, percent, random),
+      recoverableShare: share(response.recoverableShare),
+      recoveryRate: share(response.recoveryRate),
+    },
+  };
+};
+
+// --- Summary ---
+
+// Linear interpolation between the closest ranks; `sorted` must be ascending.
+const getPercentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const summarize = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: getPercentile(sorted, 0.1),
+    p50: getPercentile(sorted, 0.5),
+    p90: getPercentile(sorted, 0.9),
+  };
+};
+
+const buildHistogram = (values: number[]): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count += 1;
+  });
+  return bins;
+};
+
+// --- Simulation ---
+
+export const runMonteCarlo = (
+  inputs: DiagnosticInputs,
+  uncertainty: UncertaintyOptions,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+  seed = DEFAULT_SEED,
+): SimulationSummary => {
+  const random = createRandom(seed);
+  const runs = Math.max(1, Math.round(uncertainty.runs));
+  const followUpLoss: number[] = [];
+  const responseLoss: number[] = [];
+  const totalLoss: number[] = [];
+  const annualLoss: number[] = [];
+  const efficiency: number[] = [];
+
+  for (let i = 0; i < runs; i++) {
+    const sampled = { ...inputs };
+    INPUT_KEYS.forEach((key) => {
+      sampled[key] = clampInput(key, sampleAround(inputs[key], uncertainty.inputs[key], random));
+    });
+    const result = calculateDiagnostic(sampled, sampleCoefficients(coefficients, uncertainty.coefficients, random));
+    followUpLoss.push(result.followUpLossRevenue);
+    responseLoss.push(result.responseLossRevenue);
+    totalLoss.push(result.totalLossRevenue);
+    annualLoss.push(result.totalLossAnnual);
+    efficiency.push(result.efficiency);
+  }
+
+  return {
+    runs,
+    followUpLossRevenue: summarize(followUpLoss),
+    responseLossRevenue: summarize(responseLoss),
+    totalLossRevenue: summarize(totalLoss),
+    totalLossAnnual: summarize(annualLoss),
+    efficiency: summarize(efficiency),
+    histogram: buildHistogram(annualLoss),
+  };
+};
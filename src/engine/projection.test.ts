@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiagnostic, DEFAULT_INPUTS } from './diagnostic';
+import {
+  applyProjectedAnnuals,
+  buildProjection,
+  DEFAULT_PROJECTION_OPTIONS,
+  FLAT_SEASONALITY,
+  getRampShare,
+  getSeasonalYearWeight,
+} from './projection';
+
+const result = calculateDiagnostic(DEFAULT_INPUTS);
+
+describe('getRampShare', () => {
+  it('waits for the delay and then ramps up linearly', () => {
+    expect([1, 2, 3, 4, 5, 6].map((month) => getRampShare(month, 2, 3))).toEqual([0, 0, 1 / 3, 2 / 3, 1, 1]);
+    expect(getRampShare(1, 0, 0)).toBe(1);
+  });
+});
+
+describe('buildProjection', () => {
+  it('matches monthly × 12 with flat seasonality and no improvement', () => {
+    const { months, totals } = buildProjection(result, 0, DEFAULT_PROJECTION_OPTIONS);
+    expect(months).toHaveLength(12);
+    expect(totals.totalLoss).toBeCloseTo(result.totalLossRevenue * 12);
+    expect(totals.recovered).toBe(0);
+    expect(totals.lost).toBeCloseTo(totals.totalLoss);
+  });
+
+  it('caps the recoverable revenue at the monthly loss', () => {
+    const options = { ...DEFAULT_PROJECTION_OPTIONS, rampMonths: 0 };
+    const { totals } = buildProjection(result, result.totalLossRevenue * 10, options);
+    expect(totals.recovered).toBeCloseTo(totals.totalLoss);
+    expect(totals.lost).toBeCloseTo(0);
+  });
+
+  it('wraps the calendar and applies the seasonal weights', () => {
+    const seasonality = FLAT_SEASONALITY.map((_, calendarMonth) => (calendarMonth === 0 ? 2 : 1));
+    const { months } = buildProjection(result, 0, { ...DEFAULT_PROJECTION_OPTIONS, horizonMonths: 24, startMonth: 11, seasonality });
+    expect(months.map((m) => m.calendarMonth).slice(0, 3)).toEqual([11, 0, 1]);
+    expect(months[1].totalLoss).toBeCloseTo(result.totalLossRevenue * 2);
+    expect(months[23].cumulativeLost).toBeCloseTo(result.totalLossRevenue * 26);
+  });
+});
+
+describe('applyProjectedAnnuals', () => {
+  it('annualizes over the seasonal year', () => {
+    const seasonality = FLAT_SEASONALITY.map((_, calendarMonth) => (calendarMonth < 6 ? 0.5 : 1.5));
+    const annual = applyProjectedAnnuals(result, { startMonth: 0, seasonality });
+    expect(getSeasonalYearWeight(seasonality)).toBe(12);
+    expect(annual.totalLossAnnual).toBeCloseTo(result.totalLossRevenue * 12);
+
+    const busy = applyProjectedAnnuals(result, { startMonth: 0, seasonality: FLAT_SEASONALITY.map(() => 1.5) });
+    expect(busy.annualRevenue).toBeCloseTo(result.currentRevenue * 18);
+    expect(busy.followUpLossAnnual + busy.responseLossAnnual).toBeCloseTo(busy.totalLossAnnual);
+  });
+});
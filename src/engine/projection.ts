@@ -0,0 +1,136 @@
+import { CalculationResult } from './diagnostic';
+
+// --- Monthly Projection ---
+// Month-by-month series instead of "monthly × 12". Each month is scaled by a seasonality weight
+// (1 = an average month) and the improvement is phased in linearly after an optional delay.
+
+export type ProjectionHorizon = 12 | 24;
+
+export interface ProjectionOptions {
+  horizonMonths: ProjectionHorizon;
+  startMonth: number;       // Calendar month of the first projected month, 0 = January
+  rampDelayMonths: number;  // Months before the improved operation starts to take effect
+  rampMonths: number;       // Months from the start of the ramp to the full effect; 0 = immediate
+  seasonality: number[];    // 12 weights indexed by calendar month
+}
+
+export interface ProjectionMonth {
+  month: number;            // 1-based position in the projection
+  calendarMonth: number;    // 0 = January
+  weight: number;
+  ramp: number;             // Share of the improvement in effect, 0-1
+  revenue: number;          // Current revenue for the month
+  followUpLoss: number;     // Losses if nothing changes
+  responseLoss: number;
+  totalLoss: number;
+  recovered: number;        // Part of the loss the improvement wins back this month
+  lost: number;             // Part of the loss still left on the table
+  cumulativeRecovered: number;
+  cumulativeLost: number;
+}
+
+export interface Projection {
+  months: ProjectionMonth[];
+  totals: {
+    revenue: number;
+    totalLoss: number;
+    recovered: number;
+    lost: number;
+  };
+}
+
+export const FLAT_SEASONALITY: number[] = Array.from({ length: 12 }, () => 1);
+
+export const SEASONALITY_RANGE = { min: 0, max: 3, step: 0.05 };
+export const RAMP_DELAY_RANGE = { min: 0, max: 12, step: 1 };
+export const RAMP_MONTHS_RANGE = { min: 0, max: 12, step: 1 };
+
+export const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
+  horizonMonths: 12,
+  startMonth: 0,
+  rampDelayMonths: 0,
+  rampMonths: 3,
+  seasonality: FLAT_SEASONALITY,
+};
+
+// A year of seasonal weights expressed in average months; with flat seasonality this is 12.
+// Engines that annualize with `monthsPerYear` (scenarios, sensitivity) can use it to match the series.
+export const getSeasonalYearWeight = (seasonality: number[]) =>
+  FLAT_SEASONALITY.reduce((sum, _, calendarMonth) => sum + (seasonality[calendarMonth] ?? 1), 0);
+
+// Linear ramp: 0 until the delay is over, then reaches 1 after `rampMonths` months.
+export const getRampShare = (month: number, rampDelayMonths: number, rampMonths: number) => {
+  const elapsed = month - rampDelayMonths;
+  if (elapsed <= 0) return 0;
+  if (rampMonths <= 0) return 1;
+  return Math.min(1, elapsed / rampMonths);
+};
+
+const sumMonths = (months: ProjectionMonth[], key: keyof ProjectionMonth) =>
+  months.reduce((acc, m) => acc + m[key], 0);
+
+// `recoverableRevenue` is the monthly loss the improved operation wins back once fully in effect
+// (e.g. the monthly revenue delta of a scenario comparison). It is capped at the monthly loss.
+export const buildProjection = (
+  result: CalculationResult,
+  recoverableRevenue: number,
+  options: ProjectionOptions,
+): Projection => {
+  const recoverable = Math.min(Math.max(recoverableRevenue, 0), result.totalLossRevenue);
+  const months: ProjectionMonth[] = [];
+  let cumulativeRecovered = 0;
+  let cumulativeLost = 0;
+
+  for (let month = 1; month <= options.horizonMonths; month++) {
+    const calendarMonth = (options.startMonth + month - 1) % 12;
+    const weight = options.seasonality[calendarMonth] ?? 1;
+    const ramp = getRampShare(month, options.rampDelayMonths, options.rampMonths);
+
+    const totalLoss = result.totalLossRevenue * weight;
+    const recovered = recoverable * ramp * weight;
+    const lost = totalLoss - recovered;
+    cumulativeRecovered += recovered;
+    cumulativeLost += lost;
+
+    months.push({
+      month,
+      calendarMonth,
+      weight,
+      ramp,
+      revenue: result.currentRevenue * weight,
+      followUpLoss: result.followUpLossRevenue * weight,
+      responseLoss: result.responseLossRevenue * weight,
+      totalLoss,
+      recovered,
+      lost,
+      cumulativeRecovered,
+      cumulativeLost,
+    });
+  }
+
+  return {
+    months,
+    totals: {
+      revenue: sumMonths(months, 'revenue'),
+      totalLoss: sumMonths(months, 'totalLoss'),
+      recovered: cumulativeRecovered,
+      lost: cumulativeLost,
+    },
+  };
+};
+
+// Replaces the flat "× monthsPerYear" annual fields with the sum of the first 12 projected months,
+// so seasonality is reflected everywhere the result is shown.
+export const applyProjectedAnnuals = (
+  result: CalculationResult,
+  options: Pick<ProjectionOptions, 'startMonth' | 'seasonality'>,
+): CalculationResult => {
+  const { months } = buildProjection(result, 0, { ...DEFAULT_PROJECTION_OPTIONS, ...options, horizonMonths: 12 });
+  return {
+    ...result,
+    annualRevenue: sumMonths(months, 'revenue'),
+    followUpLossAnnual: sumMonths(months, 'followUpLoss'),
+    responseLossAnnual: sumMonths(months, 'responseLoss'),
+    totalLossAnnual: sumMonths(months, 'totalLoss'),
+  };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiagnostic, DEFAULT_INPUTS } from './diagnostic';
+import {
+  applyResponseDistribution,
+  DEFAULT_RESPONSE_DISTRIBUTION,
+  getBucketShares,
+  getMedianResponseMinutes,
+  ResponseDistribution,
+} from './responseDistribution';
+
+describe('getBucketShares', () => {
+  it('turns cumulative percentages into shares that sum to one', () => {
+    const shares = getBucketShares(DEFAULT_RESPONSE_DISTRIBUTION);
+    [0.2, 0.25, 0.2, 0.2, 0.1, 0.05].forEach((share, i) => expect(shares[i]).toBeCloseTo(share));
+    expect(shares.reduce((sum, s) => sum + s, 0)).toBeCloseTo(1);
+  });
+
+  it('treats values that go down as flat and clamps out-of-range ones', () => {
+    const shares = getBucketShares({ '5m': 50, '30m': 40, '1h': 120, '3h': 0, '24h': -5 });
+    expect(shares).toEqual([0.5, 0, 0.5, 0, 0, 0]);
+  });
+});
+
+describe('getMedianResponseMinutes', () => {
+  it('uses the bucket that holds the median lead', () => {
+    expect(getMedianResponseMinutes(DEFAULT_RESPONSE_DISTRIBUTION)).toBe(45);
+    expect(getMedianResponseMinutes({ '5m': 60, '30m': 70, '1h': 80, '3h': 90, '24h': 100 })).toBe(3);
+    expect(getMedianResponseMinutes({ '5m': 0, '30m': 0, '1h': 0, '3h': 0, '24h': 10 })).toBe(2880);
+  });
+});
+
+describe('applyResponseDistribution', () => {
+  const base = calculateDiagnostic(DEFAULT_INPUTS);
+
+  it('swaps the response loss and keeps the follow-up loss', () => {
+    const { result, buckets, scale } = applyResponseDistribution(base, DEFAULT_RESPONSE_DISTRIBUTION);
+    expect(result.followUpLossSales).toBe(base.followUpLossSales);
+    expect(result.currentSales).toBe(base.currentSales);
+    expect(result.responseLossSales).toBeCloseTo(base.responseLossSales * scale);
+    expect(buckets.reduce((sum, b) => sum + b.lossSales, 0)).toBeCloseTo(result.responseLossSales);
+    expect(result.totalLossSales).toBeCloseTo(result.followUpLossSales + result.responseLossSales);
+  });
+
+  it('weighs a slow tail more than its median suggests', () => {
+    const tail: ResponseDistribution = { '5m': 60, '30m': 60, '1h': 60, '3h': 60, '24h': 60 };
+    const single = calculateDiagnostic({ ...DEFAULT_INPUTS, responseTime: getMedianResponseMinutes(tail) });
+    expect(applyResponseDistribution(single, tail).result.responseLossSales).toBeGreaterThan(single.responseLossSales);
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  getResponseStatus,
+  getResponseTimeLossFactor,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Response Time Distribution ---
+// Optional replacement for the single average response time: the share of leads answered within
+// each time limit. Every bucket goes through the same sigmoid at a representative time and the
+// factors are averaged by share, so a few leads answered the next day weigh as much as they should.
+
+export type ResponseBucketId = '5m' | '30m' | '1h' | '3h' | '24h' | 'over24h';
+export type BoundedBucketId = Exclude<ResponseBucketId, 'over24h'>;
+
+// Cumulative percent of leads answered within each limit; the rest is answered after 24h (or never)
+export type ResponseDistribution = Record<BoundedBucketId, number>;
+
+export interface ResponseBucket {
+  id: ResponseBucketId;
+  maxMinutes: number | null;  // Upper limit, null for the open-ended last bucket
+  representativeMinutes: number;
+}
+
+export interface ResponseBucketLoss {
+  id: ResponseBucketId;
+  share: number;          // Share of leads in the bucket, 0-1
+  factor: number;         // Sigmoid loss factor at the representative time
+  lossSales: number;
+  lossRevenue: number;
+}
+
+export interface DistributionResult {
+  result: CalculationResult;
+  buckets: ResponseBucketLoss[];
+  // Ratio between the distribution's loss factor and the single-average one. Response losses
+  // are linear in the factor, so anything derived from them can be rescaled by it.
+  scale: number;
+}
+
+export const RESPONSE_BUCKETS: ResponseBucket[] = [
+  { id: '5m', maxMinutes: 5, representativeMinutes: 3 },
+  { id: '30m', maxMinutes: 30, representativeMinutes: 15 },
+  { id: '1h', maxMinutes: 60, representativeMinutes: 45 },
+  { id: '3h', maxMinutes: 180, representativeMinutes: 120 },
+  { id: '24h', maxMinutes: 1440, representativeMinutes: 600 },
+  { id: 'over24h', maxMinutes: null, representativeMinutes: 2880 },
+];
+
+export const BOUNDED_BUCKET_IDS: BoundedBucketId[] = ['5m', '30m', '1h', '3h', '24h'];
+
+export const DEFAULT_RESPONSE_DISTRIBUTION: ResponseDistribution = {
+  '5m': 20,
+  '30m': 45,
+  '1h': 65,
+  '3h': 85,
+  '24h': 95,
+};
+
+export const DISTRIBUTION_RANGE = { min: 0, max: 100, step: 1 };
+
+export const clampDistributionValue = (value: number) =>
+  Math.min(DISTRIBUTION_RANGE.max, Math.max(DISTRIBUTION_RANGE.min, value));
+
+// Per-bucket shares (0-1, summing to 1). Cumulative values that go down are treated as flat.
+export const getBucketShares = (distribution: ResponseDistribution): number[] => {
+  let previous = 0;
+  const shares = BOUNDED_BUCKET_IDS.map((id) => {
+    const cumulative = Math.max(previous, clampDistributionValue(distribution[id]));
+    const share = (cumulative - previous) / 100;
+    previous = cumulative;
+    return share;
+  });
+  return [...shares, (100 - previous) / 100];
+};
+
+// Representative time of the bucket holding the median lead; drives the response status.
+export const getMedianResponseMinutes = (distribution: ResponseDistribution) => {
+  const shares = getBucketShares(distribution);
+  let cumulative = 0;
+  const index = shares.findIndex((share) => (cumulative += share) >= 0.5);
+  return RESPONSE_BUCKETS[index === -1 ? RESPONSE_BUCKETS.length - 1 : index].representativeMinutes;
+};
+
+// Swaps the response time part of a result (from the single-channel or funnel model) for the
+// distribution. Follow-up losses and current figures are unchanged.
+export const applyResponseDistribution = (
+  result: CalculationResult,
+  distribution: ResponseDistribution,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): DistributionResult => {
+  const shares = getBucketShares(distribution);
+  const factors = RESPONSE_BUCKETS.map((bucket) => getResponseTimeLossFactor(bucket.representativeMinutes, coefficients));
+  const responseFactor = shares.reduce((sum, share, i) => sum + share * factors[i], 0);
+  const scale = result.responseFactor > 0 ? responseFactor / result.responseFactor : 0;
+
+  const responseLossSales = result.responseLossSales * scale;
+  const responseLossRevenue = result.responseLossRevenue * scale;
+  const totalLossSales = result.followUpLossSales + responseLossSales;
+  const totalLossRevenue = result.followUpLossRevenue + responseLossRevenue;
+  const totalPotentialSales = result.currentSales + totalLossSales;
+  const { monthsPerYear } = coefficients;
+
+  const buckets = RESPONSE_BUCKETS.map((bucket, i): ResponseBucketLoss => {
+    const weight = responseFactor > 0 ? (shares[i] * factors[i]) / responseFactor : 0;
+    return {
+      id: bucket.id,
+      share: shares[i],
+      factor: factors[i],
+      lossSales: responseLossSales * weight,
+      lossRevenue: responseLossRevenue * weight,
+    };
+  });
+
+  return {
+    scale,
+    buckets,
+    result: {
+      ...result,
+      responseStatus: getResponseStatus(getMedianResponseMinutes(distribution), coefficients),
+      responseLossSales,
+      responseLossRevenue,
+      responseLossAnnual: responseLossRevenue * monthsPerYear,
+      responseFactor,
+      totalLossSales,
+      totalLossRevenue,
+      totalLossAnnual: totalLossRevenue * monthsPerYear,
+      efficiency: totalPotentialSales > 0 ? (result.currentSales / totalPotentialSales) * 100 : 100,
+    },
+  };
+};
@@ -0,0 +1,70 @@
+import {
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  getFollowUpStatus,
+  getResponseStatus,
+  MODEL_VERSION,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Roll-up ---
+// Sums the results of the parts of an operation (lead channels, sales reps) into one
+// `CalculationResult`. Sales and revenue add up; the factors and statuses describe the whole
+// through the lead-weighted follow-up factor and response time, which the caller supplies.
+
+export interface RollupFactors {
+  followUpFactor: number;
+  responseTime: number; // Lead-weighted, in minutes
+}
+
+const sumResults = (results: CalculationResult[], key: keyof CalculationResult) =>
+  results.reduce((sum, r) => sum + (r[key] as number), 0);
+
+// Lead-weighted average of a value; `fallback` when there are no leads at all
+export const weightByLeads = (values: number[], leads: number[], fallback: number) => {
+  const totalLeads = leads.reduce((sum, l) => sum + l, 0);
+  return totalLeads > 0 ? values.reduce((sum, v, i) => sum + v * leads[i], 0) / totalLeads : fallback;
+};
+
+export const combineResults = (
+  results: CalculationResult[],
+  leads: number[], // Per part, same order as `results`
+  { followUpFactor, responseTime }: RollupFactors,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): CalculationResult => {
+  const currentSales = sumResults(results, 'currentSales');
+  const currentRevenue = sumResults(results, 'currentRevenue');
+  const followUpLossSales = sumResults(results, 'followUpLossSales');
+  const followUpLossRevenue = sumResults(results, 'followUpLossRevenue');
+  const responseLossSales = sumResults(results, 'responseLossSales');
+  const responseLossRevenue = sumResults(results, 'responseLossRevenue');
+  const totalLossSales = followUpLossSales + responseLossSales;
+  const totalLossRevenue = followUpLossRevenue + responseLossRevenue;
+  const totalPotentialSales = currentSales + totalLossSales;
+  const { monthsPerYear } = coefficients;
+
+  return {
+    modelVersion: MODEL_VERSION,
+
+    currentSales,
+    currentRevenue,
+    annualRevenue: currentRevenue * monthsPerYear,
+
+    followUpStatus: getFollowUpStatus(followUpFactor, coefficients),
+    followUpLossSales,
+    followUpLossRevenue,
+    followUpLossAnnual: followUpLossRevenue * monthsPerYear,
+    followUpFactor,
+
+    responseStatus: getResponseStatus(responseTime, coefficients),
+    responseLossSales,
+    responseLossRevenue,
+    responseLossAnnual: responseLossRevenue * monthsPerYear,
+    responseFactor: weightByLeads(results.map((r) => r.responseFactor), leads, 0),
+
+    totalLossSales,
+    totalLossRevenue,
+    totalLossAnnual: totalLossRevenue * monthsPerYear,
+    efficiency: totalPotentialSales > 0 ? (currentSales / totalPotentialSales) * 100 : 100,
+  };
+};
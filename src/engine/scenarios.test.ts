@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INPUTS } from './diagnostic';
+import { compareScenarios, createDefaultScenarios, DEFAULT_TARGET_OPERATION } from './scenarios';
+
+describe('createDefaultScenarios', () => {
+  it('builds the target from the current inputs and the target operation', () => {
+    const [baseline, target] = createDefaultScenarios(DEFAULT_INPUTS);
+    expect(baseline.inputs).toEqual(DEFAULT_INPUTS);
+    expect(baseline.inputs).not.toBe(DEFAULT_INPUTS);
+    expect(target.inputs).toEqual({ ...DEFAULT_INPUTS, ...DEFAULT_TARGET_OPERATION });
+  });
+});
+
+describe('compareScenarios', () => {
+  it('credits the target with the loss it stops having', () => {
+    const [baseline, target] = createDefaultScenarios({ ...DEFAULT_INPUTS, followUps: 1, responseTime: 180 });
+    const { baseline: today, target: better, deltas } = compareScenarios(baseline, target);
+
+    expect(today.monthlyRevenue).toBe(today.result.currentRevenue);
+    expect(deltas.monthlyRevenue).toBeCloseTo(today.result.totalLossRevenue - better.result.totalLossRevenue);
+    expect(deltas.annualRevenue).toBeCloseTo(deltas.monthlyRevenue * 12);
+    expect(deltas.recoveredSales).toBeGreaterThan(0);
+    expect(deltas.followUpStatus).toEqual({ from: 'CRITICAL', to: 'ADEQUATE', direction: 'better' });
+    expect(deltas.responseStatus.direction).toBe('better');
+  });
+
+  it('reports no change when both scenarios match', () => {
+    const [baseline] = createDefaultScenarios(DEFAULT_INPUTS);
+    const { deltas } = compareScenarios(baseline, { ...baseline, id: 'copy' });
+    expect(deltas.monthlyRevenue).toBe(0);
+    expect(deltas.efficiency).toBe(0);
+    expect(deltas.followUpStatus.direction).toBe('same');
+  });
+
+  it('flags a target that operates worse than today', () => {
+    const [baseline] = createDefaultScenarios(DEFAULT_INPUTS);
+    const worse = { ...baseline, id: 'worse', inputs: { ...DEFAULT_INPUTS, responseTime: 1440 } };
+    const { deltas } = compareScenarios(baseline, worse);
+    expect(deltas.monthlyRevenue).toBeLessThan(0);
+    expect(deltas.responseStatus.direction).toBe('worse');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  calculateDiagnostic,
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  FollowUpStatus,
+  ModelCoefficients,
+  ResponseStatus,
+} from './diagnostic';
+
+// --- Scenarios ---
+// A scenario is a named input set. Comparisons are always made against a baseline ("today"),
+// whose lost revenue is the pool the target scenario can recover.
+
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: DiagnosticInputs;
+}
+
+export interface ScenarioOutcome {
+  scenario: Scenario;
+  result: CalculationResult;
+  monthlyRevenue: number; // Revenue the scenario is expected to bring in, measured against the baseline
+  annualRevenue: number;
+  monthlySales: number;
+}
+
+export interface StatusChange<T extends string> {
+  from: T;
+  to: T;
+  direction: 'better' | 'worse' | 'same';
+}
+
+export interface ScenarioComparison {
+  baseline: ScenarioOutcome;
+  target: ScenarioOutcome;
+  deltas: {
+    monthlyRevenue: number;
+    annualRevenue: number;
+    recoveredSales: number;
+    efficiency: number; // Percentage points
+    followUpStatus: StatusChange<FollowUpStatus>;
+    responseStatus: StatusChange<ResponseStatus>;
+  };
+}
+
+// Worst to best
+const FOLLOW_UP_STATUS_RANK: FollowUpStatus[] = ['CRITICAL', 'WARNING', 'ADEQUATE'];
+const RESPONSE_STATUS_RANK: ResponseStatus[] = ['CRITICAL', 'WARNING', 'IMPROVE', 'GOOD', 'EXCELLENT'];
+
+export const DEFAULT_TARGET_OPERATION: Pick<DiagnosticInputs, 'followUps' | 'responseTime'> = {
+  followUps: 8,
+  responseTime: 5,
+};
+
+export const createDefaultScenarios = (
+  current: DiagnosticInputs,
+  names: { baseline: string; target: string } = { baseline: 'Hoje', target: 'Com Abil CRM' },
+): [Scenario, Scenario] => [
+  { id: 'baseline', name: names.baseline, inputs: { ...current } },
+  { id: 'target', name: names.target, inputs: { ...current, ...DEFAULT_TARGET_OPERATION } },
+];
+
+const compareStatus = <T extends string>(rank: T[], from: T, to: T): StatusChange<T> => {
+  const diff = rank.indexOf(to) - rank.indexOf(from);
+  return { from, to, direction: diff > 0 ? 'better' : diff < 0 ? 'worse' : 'same' };
+};
+
+const buildOutcome = (
+  scenario: Scenario,
+  result: CalculationResult,
+  baselineResult: CalculationResult,
+  monthsPerYear: number,
+): ScenarioOutcome => {
+  // Whatever the scenario stops losing (relative to today) is added to its own current figures.
+  const monthlyRevenue = result.currentRevenue + baselineResult.totalLossRevenue - result.totalLossRevenue;
+  const monthlySales = result.currentSales + baselineResult.totalLossSales - result.totalLossSales;
+  return {
+    scenario,
+    result,
+    monthlyRevenue,
+    annualRevenue: monthlyRevenue * monthsPerYear,
+    monthlySales,
+  };
+};
+
+export const compareScenarios = (
+  baseline: Scenario,
+  target: Scenario,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): ScenarioComparison => {
+  const baselineResult = calculateDiagnostic(baseline.inputs, coefficients);
+  const targetResult = calculateDiagnostic(target.inputs, coefficients);
+
+  const baselineOutcome = buildOutcome(baseline, baselineResult, baselineResult, coefficients.monthsPerYear);
+  const targetOutcome = buildOutcome(target, targetResult, baselineResult, coefficients.monthsPerYear);
+
+  return {
+    baseline: baselineOutcome,
+    target: targetOutcome,
+    deltas: {
+      monthlyRevenue: targetOutcome.monthlyRevenue - baselineOutcome.monthlyRevenue,
+      annualRevenue: targetOutcome.annualRevenue - baselineOutcome.annualRevenue,
+      recoveredSales: targetOutcome.monthlySales - baselineOutcome.monthlySales,
+      efficiency: targetResult.efficiency - baselineResult.efficiency,
+      followUpStatus: compareStatus(FOLLOW_UP_STATUS_RANK, baselineResult.followUpStatus, targetResult.followUpStatus),
+      responseStatus: compareStatus(RESPONSE_STATUS_RANK, baselineResult.responseStatus, targetResult.responseStatus),
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiagnostic, DEFAULT_INPUTS, INPUT_KEYS, INPUT_RANGES } from './diagnostic';
+import { buildLossHeatmap, runSensitivity } from './sensitivity';
+
+describe('runSensitivity', () => {
+  it('perturbs every input and sorts by swing', () => {
+    const { baseLoss, items } = runSensitivity(DEFAULT_INPUTS);
+    expect(baseLoss).toBe(calculateDiagnostic(DEFAULT_INPUTS).totalLossAnnual);
+    expect(items.map((item) => item.key).sort()).toEqual([...INPUT_KEYS].sort());
+    items.slice(1).forEach((item, i) => expect(item.swing).toBeLessThanOrEqual(items[i].swing));
+  });
+
+  it('moves by one slider step in step mode and stays inside the ranges', () => {
+    const inputs = { ...DEFAULT_INPUTS, followUps: INPUT_RANGES.followUps.max };
+    const followUps = runSensitivity(inputs, { mode: 'step', percent: 0 }).items.find((item) => item.key === 'followUps');
+    expect(followUps?.lowValue).toBe(INPUT_RANGES.followUps.max - INPUT_RANGES.followUps.step);
+    expect(followUps?.highValue).toBe(INPUT_RANGES.followUps.max);
+  });
+
+  it('gives a zero swing to every input when nothing moves', () => {
+    const { items } = runSensitivity(DEFAULT_INPUTS, { mode: 'percent', percent: 0 });
+    expect(items.every((item) => item.swing === 0)).toBe(true);
+  });
+});
+
+describe('buildLossHeatmap', () => {
+  it('lays out the cells by response time, then follow-ups', () => {
+    const heatmap = buildLossHeatmap(DEFAULT_INPUTS, undefined, [0, 8], [5, 1440]);
+    expect(heatmap.cells.map((row) => row.map((cell) => [cell.responseTime, cell.followUps]))).toEqual([
+      [[5, 0], [5, 8]],
+      [[1440, 0], [1440, 8]],
+    ]);
+    expect(heatmap.maxLoss).toBe(heatmap.cells[1][0].totalLossAnnual);
+    expect(heatmap.minLoss).toBe(heatmap.cells[0][1].totalLossAnnual);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  calculateDiagnostic,
+  clampInput,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  INPUT_KEYS,
+  INPUT_RANGES,
+  ModelCoefficients,
+} from './diagnostic';
+
+// --- Sensitivity Analysis ---
+// One-at-a-time perturbation of each input through the loss model, ranked by the swing it
+// causes on `totalLossAnnual`.
+
+export type PerturbationMode = 'percent' | 'step';
+
+export interface SensitivityOptions {
+  mode: PerturbationMode;
+  percent: number; // Used in 'percent' mode, e.g. 0.1 for ±10%
+}
+
+export interface SensitivityItem {
+  key: keyof DiagnosticInputs;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  lowLoss: number;  // totalLossAnnual with the input at lowValue
+  highLoss: number; // totalLossAnnual with the input at highValue
+  swing: number;    // |highLoss - lowLoss|
+}
+
+export interface SensitivityResult {
+  baseLoss: number;
+  items: SensitivityItem[]; // Sorted by swing, largest first
+}
+
+export interface HeatmapCell {
+  followUps: number;
+  responseTime: number;
+  totalLossAnnual: number;
+}
+
+export interface LossHeatmap {
+  followUpValues: number[];
+  responseTimeValues: number[];
+  cells: HeatmapCell[][]; // [responseTime index][followUps index]
+  minLoss: number;
+  maxLoss: number;
+}
+
+export const DEFAULT_SENSITIVITY_OPTIONS: SensitivityOptions = {
+  mode: 'percent',
+  percent: 0.1,
+};
+
+export const HEATMAP_FOLLOW_UPS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+export const HEATMAP_RESPONSE_TIMES = [1, 5, 10, 15, 30, 45, 60, 90, 120, 180, 480, 1440];
+
+const perturb = (key: keyof DiagnosticInputs, value: number, options: SensitivityOptions) => {
+  const delta = options.mode === 'step' ? INPUT_RANGES[key].step : Math.abs(value) * options.percent;
+  return {
+    lowValue: clampInput(key, value - delta),
+    highValue: clampInput(key, value + delta),
+  };
+};
+
+export const runSensitivity = (
+  inputs: DiagnosticInputs,
+  options: SensitivityOptions = DEFAULT_SENSITIVITY_OPTIONS,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): SensitivityResult => {
+  const baseLoss = calculateDiagnostic(inputs, coefficients).totalLossAnnual;
+
+  const items = INPUT_KEYS.map((key): SensitivityItem => {
+    const { lowValue, highValue } = perturb(key, inputs[key], options);
+    const lowLoss = calculateDiagnostic({ ...inputs, [key]: lowValue }, coefficients).totalLossAnnual;
+    const highLoss = calculateDiagnostic({ ...inputs, [key]: highValue }, coefficients).totalLossAnnual;
+    return {
+      key,
+      baseValue: inputs[key],
+      lowValue,
+      highValue,
+      lowLoss,
+      highLoss,
+      swing: Math.abs(highLoss - lowLoss),
+    };
+  });
+
+  return {
+    baseLoss,
+    items: items.sort((a, b) => b.swing - a.swing),
+  };
+};
+
+export const buildLossHeatmap = (
+  inputs: DiagnosticInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+  followUpValues: number[] = HEATMAP_FOLLOW_UPS,
+  responseTimeValues: number[] = HEATMAP_RESPONSE_TIMES,
+): LossHeatmap => {
+  let minLoss = Infinity;
+  let maxLoss = -Infinity;
+
+  const cells = responseTimeValues.map((responseTime) =>
+    followUpValues.map((followUps) => {
+      const { totalLossAnnual } = calculateDiagnostic({ ...inputs, followUps, responseTime }, coefficients);
+      minLoss = Math.min(minLoss, totalLossAnnual);
+      maxLoss = Math.max(maxLoss, totalLossAnnual);
+      return { followUps, responseTime, totalLossAnnual };
+    })
+  );
+
+  return { followUpValues, responseTimeValues, cells, minLoss, maxLoss };
+};
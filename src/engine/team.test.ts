@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiagnostic, INPUT_RANGES } from './diagnostic';
+import { calculateTeam, clampRepInput, createRepId, DEFAULT_TEAM, getTeamBlendedInputs, SalesRep } from './team';
+
+const SHARED = { ticket: 4000 };
+
+describe('getTeamBlendedInputs', () => {
+  it('sums the leads and weights the rest by each rep\'s leads', () => {
+    const reps: SalesRep[] = [
+      { id: 'rep-1', name: 'A', leads: 30, conversion: 10, followUps: 6, responseTime: 10 },
+      { id: 'rep-2', name: 'B', leads: 10, conversion: 30, followUps: 2, responseTime: 90 },
+    ];
+    expect(getTeamBlendedInputs(reps, SHARED)).toEqual({ leads: 40, conversion: 15, ticket: 4000, followUps: 5, responseTime: 30 });
+  });
+
+  it('handles a team without leads', () => {
+    const blended = getTeamBlendedInputs([{ ...DEFAULT_TEAM[0], leads: 0 }], SHARED);
+    expect(blended.leads).toBe(0);
+    expect(blended.conversion).toBe(0);
+    expect(Number.isFinite(blended.followUps)).toBe(true);
+  });
+});
+
+describe('calculateTeam', () => {
+  const breakdown = calculateTeam(DEFAULT_TEAM, SHARED);
+
+  it('runs each rep through the loss model and sums the results', () => {
+    const results = DEFAULT_TEAM.map((rep) => calculateDiagnostic({ ...SHARED, ...rep }));
+    expect(breakdown.reps.map((o) => o.result.totalLossRevenue)).toEqual(results.map((r) => r.totalLossRevenue));
+    expect(breakdown.total.totalLossRevenue).toBeCloseTo(results.reduce((sum, r) => sum + r.totalLossRevenue, 0));
+  });
+
+  it('ranks reps by monthly loss, biggest first, keeping the input order in `reps`', () => {
+    expect(breakdown.reps.map((o) => o.rep.id)).toEqual(['rep-1', 'rep-2', 'rep-3']);
+    const losses = breakdown.ranking.map((o) => o.result.totalLossRevenue);
+    expect([...losses].sort((a, b) => b - a)).toEqual(losses);
+  });
+
+  it('gives a rep without leads no loss', () => {
+    const { reps } = calculateTeam([{ ...DEFAULT_TEAM[0], leads: 0 }], SHARED);
+    expect(reps[0].result.totalLossRevenue).toBe(0);
+  });
+});
+
+describe('rep helpers', () => {
+  it('allows zero leads but clamps the rest like the calculator', () => {
+    expect(clampRepInput('leads', -10)).toBe(0);
+    expect(clampRepInput('followUps', 99)).toBe(INPUT_RANGES.followUps.max);
+  });
+
+  it('creates the next free id', () => {
+    expect(createRepId(DEFAULT_TEAM)).toBe('rep-4');
+    expect(createRepId([{ ...DEFAULT_TEAM[0], id: 'rep-2' }])).toBe('rep-3');
+  });
+});
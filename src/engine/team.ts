@@ -0,0 +1,113 @@
+import {
+  calculateDiagnostic,
+  CalculationResult,
+  DEFAULT_COEFFICIENTS,
+  DiagnosticInputs,
+  getFollowUpLossFactor,
+  INPUT_RANGES,
+  ModelCoefficients,
+} from './diagnostic';
+import { combineResults, weightByLeads } from './rollup';
+
+// --- Sales Team ---
+// Optional team mode: each salesperson has their own leads, conversion, follow-up cadence and
+// response time, while the ticket stays shared. Every rep goes through the same loss model, the
+// results are summed into the company-level `CalculationResult`, and reps are ranked by loss.
+
+export interface SalesRep {
+  id: string;
+  name: string;
+  leads: number;
+  conversion: number;
+  followUps: number;
+  responseTime: number;
+}
+
+export type RepInputKey = Exclude<keyof SalesRep, 'id' | 'name'>;
+export type TeamSharedInputs = Pick<DiagnosticInputs, 'ticket'>;
+
+export interface RepOutcome {
+  rep: SalesRep;
+  result: CalculationResult;
+}
+
+export interface TeamBreakdown {
+  total: CalculationResult;
+  reps: RepOutcome[];    // Same order as the input reps
+  ranking: RepOutcome[]; // Highest monthly loss first
+}
+
+export const REP_INPUT_KEYS: RepInputKey[] = ['leads', 'conversion', 'followUps', 'responseTime'];
+
+// A rep may be new or on leave, so they can have zero leads
+export const REP_INPUT_RANGES: Record<RepInputKey, { min: number; max: number; step: number }> = {
+  leads: { ...INPUT_RANGES.leads, min: 0 },
+  conversion: INPUT_RANGES.conversion,
+  followUps: INPUT_RANGES.followUps,
+  responseTime: INPUT_RANGES.responseTime,
+};
+
+export const MAX_REPS = 20;
+export const MAX_REP_NAME_LENGTH = 40;
+
+export const DEFAULT_TEAM: SalesRep[] = [
+  { id: 'rep-1', name: 'Ana', leads: 40, conversion: 12, followUps: 5, responseTime: 15 },
+  { id: 'rep-2', name: 'Bruno', leads: 35, conversion: 8, followUps: 2, responseTime: 90 },
+  { id: 'rep-3', name: 'Carla', leads: 25, conversion: 10, followUps: 3, responseTime: 240 },
+];
+
+export const clampRepInput = (key: RepInputKey, value: number) => {
+  const { min, max } = REP_INPUT_RANGES[key];
+  return Math.min(max, Math.max(min, value));
+};
+
+// Next free id, for reps added in the UI or read from a link
+export const createRepId = (reps: SalesRep[]) => {
+  let n = reps.length + 1;
+  while (reps.some((rep) => rep.id === `rep-${n}`)) n++;
+  return `rep-${n}`;
+};
+
+// --- Roll-up ---
+
+// Single inputs that describe the team as a whole: summed leads, blended conversion and a
+// lead-weighted cadence and response time. Used where a view needs one `DiagnosticInputs`.
+export const getTeamBlendedInputs = (reps: SalesRep[], shared: TeamSharedInputs): DiagnosticInputs => {
+  const leads = reps.reduce((sum, r) => sum + r.leads, 0);
+  const sales = reps.reduce((sum, r) => sum + r.leads * (r.conversion / 100), 0);
+  const repLeads = reps.map((r) => r.leads);
+  return {
+    leads,
+    conversion: leads > 0 ? (sales / leads) * 100 : 0,
+    ticket: shared.ticket,
+    followUps: weightByLeads(reps.map((r) => r.followUps), repLeads, INPUT_RANGES.followUps.min),
+    responseTime: weightByLeads(reps.map((r) => r.responseTime), repLeads, INPUT_RANGES.responseTime.min),
+  };
+};
+
+export const calculateTeam = (
+  reps: SalesRep[],
+  shared: TeamSharedInputs,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): TeamBreakdown => {
+  const outcomes = reps.map((rep) => ({
+    rep,
+    result: calculateDiagnostic(
+      { ticket: shared.ticket, leads: rep.leads, conversion: rep.conversion, followUps: rep.followUps, responseTime: rep.responseTime },
+      coefficients,
+    ),
+  }));
+  const repLeads = reps.map((r) => r.leads);
+  const blended = getTeamBlendedInputs(reps, shared);
+  const followUpFactor = weightByLeads(
+    outcomes.map((o) => o.result.followUpFactor),
+    repLeads,
+    getFollowUpLossFactor(blended.followUps, coefficients),
+  );
+
+  return {
+    reps: outcomes,
+    ranking: [...outcomes].sort((a, b) => b.result.totalLossRevenue - a.result.totalLossRevenue),
+    total: combineResults(outcomes.map((o) => o.result), repLeads, { followUpFactor, responseTime: blended.responseTime }, coefficients),
+  };
+};
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  createI18n,
+  CurrencyCode,
+  DEFAULT_LOCALE,
+  DEFAULT_PRODUCT_NAME,
+  getLocaleConfig,
+  I18n,
+  isCurrency,
+  Locale,
+  matchLocale,
+  MessageOverrides,
+} from './index';
+
+// --- I18n Context ---
+
+const LOCALE_STORAGE_KEY = 'abil:locale';
+const CURRENCY_STORAGE_KEY = 'abil:currency';
+
+interface I18nContextValue extends I18n {
+  setLocale: (locale: Locale) => void;
+  setCurrency: (currency: CurrencyCode) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const readStorage = (key: string) => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string) => {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch {
+    // Storage unavailable: the choice just won't persist
+  }
+};
+
+// ?lang= wins over the saved choice, which wins over the browser language.
+const getInitialLocale = (): Locale => {
+  const fromUrl = matchLocale(new URLSearchParams(window.location.search).get('lang') ?? undefined);
+  return fromUrl ?? matchLocale(readStorage(LOCALE_STORAGE_KEY) ?? undefined) ?? matchLocale(navigator.language) ?? DEFAULT_LOCALE;
+};
+
+const getInitialCurrency = (locale: Locale): CurrencyCode => {
+  const fromUrl = new URLSearchParams(window.location.search).get('currency');
+  if (isCurrency(fromUrl)) return fromUrl;
+  const stored = readStorage(CURRENCY_STORAGE_KEY);
+  return isCurrency(stored) ? stored : getLocaleConfig(locale).defaultCurrency;
+};
+
+export const I18nProvider = ({
+  overrides,
+  productName = DEFAULT_PRODUCT_NAME,
+  children,
+}: {
+  overrides?: MessageOverrides;
+  productName?: string;
+  children: React.ReactNode;
+}) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+  const [currency, setCurrencyState] = useState<CurrencyCode>(() => getInitialCurrency(locale));
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    ...createI18n(locale, currency, { overrides, productName }),
+    setLocale: (next) => {
+      setLocaleState(next);
+      writeStorage(LOCALE_STORAGE_KEY, next);
+    },
+    setCurrency: (next) => {
+      setCurrencyState(next);
+      writeStorage(CURRENCY_STORAGE_KEY, next);
+    },
+  }), [locale, currency, overrides, productName]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+};
@@ -0,0 +1,87 @@
+import { formatCompactCurrency, formatCurrency, formatTime, getCurrencySymbol } from '../utils/format';
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { MessageKey, Messages, ptBR } from './messages/ptBR';
+
+// --- Locales & Currencies ---
+
+export type Locale = 'pt-BR' | 'es' | 'en';
+export type CurrencyCode = 'BRL' | 'USD' | 'MXN' | 'ARS' | 'COP' | 'CLP' | 'PEN' | 'EUR';
+
+export const LOCALES: { id: Locale; label: string; intlLocale: string; defaultCurrency: CurrencyCode }[] = [
+  { id: 'pt-BR', label: 'Português', intlLocale: 'pt-BR', defaultCurrency: 'BRL' },
+  { id: 'es', label: 'Español', intlLocale: 'es-419', defaultCurrency: 'MXN' },
+  { id: 'en', label: 'English', intlLocale: 'en-US', defaultCurrency: 'USD' },
+];
+
+export const CURRENCIES: CurrencyCode[] = ['BRL', 'USD', 'MXN', 'ARS', 'COP', 'CLP', 'PEN', 'EUR'];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+const CATALOG: Record<Locale, Messages> = {
+  'pt-BR': ptBR,
+  es,
+  en,
+};
+
+export type { MessageKey };
+export type TranslateParams = Record<string, string | number>;
+
+// Per-locale replacements for catalog messages, e.g. from a white-label theme
+export type MessageOverrides = Partial<Record<Locale, Partial<Record<MessageKey, string>>>>;
+
+// `{product}` is filled in every message unless the caller passes its own value
+export const DEFAULT_PRODUCT_NAME = 'Abil CRM';
+
+export interface I18n {
+  locale: Locale;
+  intlLocale: string;
+  currency: CurrencyCode;
+  currencySymbol: string;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  formatCurrency: (value: number) => string;
+  formatCompactCurrency: (value: number) => string;
+  formatTime: (minutes: number) => string;
+}
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((l) => l.id === value);
+export const isCurrency = (value: unknown): value is CurrencyCode => CURRENCIES.includes(value as CurrencyCode);
+
+export const getLocaleConfig = (locale: Locale) => LOCALES.find((l) => l.id === locale) ?? LOCALES[0];
+
+// Picks the closest supported locale for a BCP 47 tag such as 'es-AR' or 'en-GB'.
+export const matchLocale = (tag: string | undefined): Locale | null => {
+  if (!tag) return null;
+  if (isLocale(tag)) return tag;
+  const language = tag.toLowerCase().split('-')[0];
+  if (language === 'pt') return 'pt-BR';
+  return isLocale(language) ? language : null;
+};
+
+export const translate = (locale: Locale, key: MessageKey, params?: TranslateParams, overrides: MessageOverrides = {}) => {
+  const template = overrides[locale]?.[key] ?? CATALOG[locale][key] ?? ptBR[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// Removes the `**emphasis**` markers for plain-text contexts (tooltips, titles, print).
+export const stripEmphasis = (text: string) => text.replace(/\*\*/g, '');
+
+export const createI18n = (
+  locale: Locale = DEFAULT_LOCALE,
+  currency?: CurrencyCode,
+  { overrides, productName = DEFAULT_PRODUCT_NAME }: { overrides?: MessageOverrides; productName?: string } = {},
+): I18n => {
+  const { intlLocale, defaultCurrency } = getLocaleConfig(locale);
+  const activeCurrency = currency ?? defaultCurrency;
+  return {
+    locale,
+    intlLocale,
+    currency: activeCurrency,
+    currencySymbol: getCurrencySymbol(intlLocale, activeCurrency),
+    t: (key, params) => translate(locale, key, { product: productName, ...params }, overrides),
+    formatCurrency: (value) => formatCurrency(value, intlLocale, activeCurrency),
+    formatCompactCurrency: (value) => formatCompactCurrency(value, intlLocale, activeCurrency),
+    formatTime,
+  };
+};
@@ -0,0 +1,388 @@
+import { Messages } from './ptBR';
+
+export const en: Messages = {
+  // App shell
+  'app.title': 'Sales Diagnostic',
+  'header.exportPdf': 'Export PDF',
+  'header.copyLink': 'Copy link',
+  'header.linkCopied': 'Link copied!',
+  'header.copyLinkPrompt': 'Copy the diagnostic link:',
+  'header.reset': 'Reset',
+  'header.guided': 'Guided mode',
+  'header.expert': 'Expert view',
+  'header.undo': 'Undo',
+  'header.redo': 'Redo',
+  'header.history': 'History',
+  'header.language': 'Language',
+  'header.currency': 'Currency',
+  'sidebar.title': 'Parameters',
+  'sidebar.segment': 'Industry',
+  'sidebar.operationalEfficiency': 'Operational Efficiency',
+  'sidebar.channelMode': 'Split leads by channel',
+  'sidebar.channelModeHint': 'Each channel has its own volume, conversion and response time. Deal size and follow-up apply to all.',
+  'sidebar.funnelMode': 'Stage-by-stage funnel',
+  'sidebar.funnelModeHint': 'Replaces the conversion rate with a rate per stage. Response time affects contact; follow-up affects the proposal.',
+  'sidebar.teamMode': 'Diagnose each salesperson',
+  'sidebar.teamModeHint': 'Each salesperson has their own leads, conversion, follow-ups and response time. Deal size applies to all.',
+  'sidebar.importCsv': 'Import CRM CSV',
+  'sidebar.distributionMode': 'Enter a response time distribution',
+  'sidebar.cadenceMode': 'Build a follow-up cadence',
+  'views.dashboard': 'Diagnostic',
+  'views.compare': 'Compare scenarios',
+  'views.goal': 'Goal',
+  'views.sensitivity': 'Sensitivity',
+  'views.projection': 'Projection',
+  'views.uncertainty': 'Uncertainty',
+
+  // Inputs
+  'inputs.leads': 'Leads received/month',
+  'inputs.conversion': 'Conversion rate',
+  'inputs.ticket': 'Average deal size',
+  'inputs.followUps': 'Follow-up attempts',
+  'inputs.responseTime': 'Average response time',
+
+  // Statuses
+  'status.CRITICAL': 'CRITICAL',
+  'status.WARNING': 'POOR',
+  'status.IMPROVE': 'IMPROVE',
+  'status.GOOD': 'ATTENTION',
+  'status.ADEQUATE': 'ADEQUATE',
+  'status.EXCELLENT': 'GREAT',
+
+  // Dashboard
+  'dashboard.currentDiagnosis': 'Current Diagnostic',
+  'dashboard.currentDiagnosisSubtitle': 'Overview of your performance',
+  'dashboard.monthlyRevenue': 'Revenue/month',
+  'dashboard.monthlySales': 'Sales/month',
+  'dashboard.annualProjection': 'Annual Projection',
+  'dashboard.followUp': 'Follow-up',
+  'dashboard.responseTime': 'Response Time',
+  'dashboard.lostSalesMonth': 'Lost sales/month',
+  'dashboard.lostRevenueMonth': 'Lost revenue/month',
+  'dashboard.lostRevenueYear': 'Lost revenue/year',
+  'dashboard.totalImpact': 'Total Financial Impact',
+  'dashboard.optimized': 'Optimized Operation',
+  'dashboard.totalImpactDescription': 'This is the estimated amount your company misses out on every year because of gaps in the lead handling process.',
+  'dashboard.optimizedDescription': 'Your sales operation is reaching its full efficiency potential on the analyzed metrics.',
+  'dashboard.efficiency': 'Sales Efficiency',
+  'dashboard.annualWaste': 'Annual Waste',
+  'dashboard.salesPotential': 'Sales Potential',
+  'dashboard.lossComposition': 'Loss Breakdown',
+  'dashboard.total': 'Total',
+
+  // Advice
+  'advice.followUpAdequate': 'Excellent! You keep a volume of attempts that ensures maximum lead recovery.',
+  'advice.followUpLow': 'You only make {followUps} attempts. To maximize conversion, aim for more than {ideal}.',
+  'advice.responseExcellent': 'Excellent response speed! Keep it up.',
+  'advice.responseGood': 'Current time: {time}. There is still room to improve.',
+  'advice.responseSlow': 'Current time: {time}. The ideal is ≤ {ideal}.',
+
+  // Charts
+  'chart.currentSales': 'Current Sales',
+  'chart.followUpLoss': 'Loss (Follow-up)',
+  'chart.responseLoss': 'Loss (Time)',
+  'chart.followUpLossShare': 'Follow-up loss',
+  'chart.responseLossShare': 'Response time loss',
+  'chart.revenue': 'Revenue',
+
+  // Market data
+  'market.marketingDonut.claim': '**80% of B2B sales** require 5 or more follow-ups to close.',
+  'market.mit.claim': 'Responding within **5 minutes** makes contact **9x** more likely.',
+  'market.hubspot.claim': '**35–50%** of sales go to the vendor that responds first.',
+  'market.hbr.claim': 'Companies that tried to contact leads **within an hour** were nearly **7x** as likely to qualify them as those that waited longer.',
+  'market.drift.claim': 'Only **7%** of companies responded to a lead **within the first five minutes**.',
+
+  // Footer
+  'footer.lossMessage': 'Every month, **{amount}** is left on the table.',
+  'footer.optimizedMessage': 'Congratulations! Your sales operation is optimized.',
+  'footer.cta': 'Talk to a specialist',
+
+  // Scenarios
+  'scenarios.title': 'Scenario Comparison',
+  'scenarios.baselineName': 'Today',
+  'scenarios.targetName': 'With {product}',
+  'scenarios.nameLabel': 'Scenario name',
+  'scenarios.editBaselineHint': 'Edit this scenario with the parameters on the side.',
+  'scenarios.approxNote': 'With channels, team, funnel or a response time distribution on, the scenarios use the equivalent figures for the whole operation, so "Today" can differ from the dashboard.',
+  'scenarios.followUpAttempts': 'Follow-up ({followUps} attempts)',
+  'scenarios.responseTimeValue': 'Response time ({time})',
+  'scenarios.deltaMonthlyRevenue': 'Monthly revenue',
+  'scenarios.deltaAnnualRevenue': 'Annual revenue',
+  'scenarios.deltaRecoveredSales': 'Recovered sales/month',
+  'scenarios.deltaEfficiency': 'Efficiency',
+  'scenarios.percentagePoints': '{value} pp',
+
+  // Sensitivity
+  'sensitivity.title': 'Which lever matters most?',
+  'sensitivity.description': 'Change in annual waste ({amount}) when each parameter moves on its own.',
+  'sensitivity.modePercent': '±10%',
+  'sensitivity.modeStep': '±1 step',
+  'sensitivity.lowPercent': '-10%',
+  'sensitivity.highPercent': '+10%',
+  'sensitivity.lowStep': '-1 step',
+  'sensitivity.highStep': '+1 step',
+  'sensitivity.heatmapTitle': 'Annual waste map',
+  'sensitivity.heatmapDescription': 'Follow-ups × response time, keeping current leads, conversion and deal size.',
+  'sensitivity.heatmapCorner': 'Time \\ Follow-ups',
+  'sensitivity.heatmapCell': '{followUps} follow-ups, {time}: {amount}/year',
+
+  // Report
+  'report.page': 'Page {page}',
+  'report.inputs': 'Input parameters',
+  'report.lossAnalysis': 'Loss analysis',
+  'report.perYear': '{amount}/year',
+  'report.totalPerYear': 'Total: {amount}/year',
+  'report.marketData': 'Market data',
+  'report.citation': 'Source: [{n}]',
+  'report.disclaimer': 'Estimates based on the parameters provided. Diagnostic model v{version}.',
+
+  // Lead capture
+  'lead.title': 'Talk to a specialist',
+  'lead.close': 'Close',
+  'lead.name': 'Name',
+  'lead.company': 'Company',
+  'lead.email': 'Email',
+  'lead.whatsapp': 'WhatsApp',
+  'lead.segment': 'Industry',
+  'lead.segmentPlaceholder': 'Select...',
+  'lead.consent': 'I authorize {product} to contact me and to process my data and the result of this diagnostic, in accordance with the LGPD.',
+  'lead.submit': 'Send my diagnostic',
+  'lead.sentTitle': 'We received your diagnostic!',
+  'lead.sentDescription': 'A specialist will reach out on WhatsApp shortly.',
+  'lead.queuedTitle': 'Your contact was saved.',
+  'lead.queuedDescription': 'We could not send it right now, but we will retry automatically.',
+  'lead.errorName': 'Enter your name.',
+  'lead.errorCompany': 'Enter the company name.',
+  'lead.errorEmail': 'Enter a valid email.',
+  'lead.errorWhatsapp': 'Enter a valid WhatsApp number with area code.',
+  'lead.errorSegment': 'Select your industry.',
+  'lead.errorConsent': 'You must authorize the contact.',
+  'segments.general': 'General (all industries)',
+  'segments.real-estate': 'Real estate',
+  'segments.education': 'Education',
+  'segments.health': 'Healthcare',
+  'segments.saas': 'Software / SaaS',
+  'segments.industry': 'Manufacturing',
+  'segments.b2b-services': 'B2B services',
+  'segments.retail': 'Retail',
+  'segments.automotive': 'Automotive',
+  'segments.other': 'Other',
+
+  // Channels
+  'channels.whatsapp': 'WhatsApp',
+  'channels.website': 'Website form',
+  'channels.phone': 'Phone',
+  'channels.marketplace': 'Marketplaces',
+  'channels.title': 'Loss by channel',
+  'channels.leakiest': 'Your **{channel}** is where the money leaks: **{amount}** per month.',
+  'channels.leadsPerMonth': '{leads} leads/month',
+
+  // Funnel
+  'funnel.lead': 'Leads',
+  'funnel.contacted': 'Contacted',
+  'funnel.qualified': 'Qualified',
+  'funnel.proposal': 'Proposal',
+  'funnel.won': 'Won',
+  'funnel.rateLabel': '{stage} (% of previous stage)',
+  'funnel.overallConversion': 'Overall conversion: {value}%',
+  'funnel.title': 'Where sales drop out',
+  'funnel.current': 'Today',
+  'funnel.responseGap': 'Lost to response time',
+  'funnel.followUpGap': 'Lost to follow-up',
+  'funnel.dropOut': '**{response}** sales/month drop out at contact (response time) and **{followUp}** at proposal (follow-up).',
+
+  // Projection
+  'projection.title': 'Month-by-month projection',
+  'projection.description': 'How much comes back with the "{target}" scenario\'s operation, rolled out gradually.',
+  'projection.horizon': '{months} months',
+  'projection.rampDelay': 'Improvement starts after',
+  'projection.rampMonths': 'Months to full effect',
+  'projection.monthsUnit': ' months',
+  'projection.seasonality': 'Seasonality',
+  'projection.seasonalityHint': 'Weight of each month relative to an average month (1 = normal).',
+  'projection.resetSeasonality': 'No seasonality',
+  'projection.cumulativeTitle': 'Cumulative: lost vs. recovered',
+  'projection.cumulativeLost': 'Still lost',
+  'projection.cumulativeRecovered': 'Recovered',
+  'projection.monthLabel': 'Month {month} ({name})',
+  'projection.recoveredTotal': 'Recovered over {months} months',
+  'projection.lostTotal': 'Still lost over {months} months',
+  'projection.firstYearLoss': 'First-year waste with no changes',
+  'projection.fullEffect': 'Full effect from',
+  'projection.fullEffectMonth': 'month {month}',
+
+  // CRM import
+  'import.title': 'Import CRM leads',
+  'import.description': 'Upload a CSV lead export (one row per lead). The file is only read in your browser.',
+  'import.chooseFile': 'Choose CSV file',
+  'import.errorEmpty': 'The file has no data rows.',
+  'import.errorRead': 'The file could not be read.',
+  'import.mapping': 'Column mapping',
+  'import.notMapped': '— not mapped —',
+  'import.required': 'required',
+  'import.field.createdAt': 'Created at',
+  'import.field.firstResponseAt': 'First response at',
+  'import.field.attempts': 'Attempt count',
+  'import.field.won': 'Won (yes/no)',
+  'import.field.dealValue': 'Deal value',
+  'import.quality': 'Data quality',
+  'import.rowsUsed': '{used} of {total} rows used',
+  'import.period': 'Period: {start} to {end} ({months} months)',
+  'import.rowsSkipped': '{count} rows without a valid creation date were skipped',
+  'import.missingResponse': '{count} leads without a first response timestamp',
+  'import.negativeResponse': '{count} responses before the lead was created were ignored',
+  'import.missingAttempts': '{count} leads without an attempt count',
+  'import.wonWithoutValue': '{count} won deals without a value',
+  'import.derived': 'Derived values',
+  'import.keepCurrent': 'keeps the current value',
+  'import.apply': 'Use these values',
+  'import.back': 'Change file',
+  'import.close': 'Close',
+
+  // Response time distribution
+  'distribution.hint': 'Cumulative % of leads answered within each limit. The rest is answered after 24h or never.',
+  'distribution.within': 'Within {limit}',
+  'distribution.bucket.5m': 'Up to 5 min',
+  'distribution.bucket.30m': '5–30 min',
+  'distribution.bucket.1h': '30 min–1h',
+  'distribution.bucket.3h': '1–3h',
+  'distribution.bucket.24h': '3–24h',
+  'distribution.bucket.over24h': 'Over 24h',
+  'distribution.remaining': 'After 24h or never: {value}%',
+  'distribution.title': 'Loss by response time range',
+  'distribution.driver': 'Leads answered in **{bucket}** ({share}% of all leads) drive **{percent}%** of the response time loss.',
+  'distribution.leadsShare': '% of leads',
+  'distribution.loss': 'Loss/month',
+
+  // Uncertainty
+  'uncertainty.title': 'Uncertainty ranges',
+  'uncertainty.description': 'Every input and model coefficient varies within its range (±) over {runs} simulations. P10 is the most optimistic case, P50 the median and P90 the most pessimistic.',
+  'uncertainty.running': 'Simulating…',
+  'uncertainty.inputsTitle': 'How precise is each input?',
+  'uncertainty.spread': '{input} (±)',
+  'uncertainty.coefficients': 'Model coefficients (±)',
+  'uncertainty.runs': '{runs} simulations',
+  'uncertainty.monthlyLoss': 'Monthly waste',
+  'uncertainty.annualLoss': 'Annual waste',
+  'uncertainty.efficiency': 'Efficiency',
+  'uncertainty.histogram': 'Annual waste distribution',
+  'uncertainty.frequency': 'Simulations',
+  'uncertainty.range': 'P10–P90: {low} – {high}',
+  'uncertainty.approxNote': 'With channels, team, funnel or a response time distribution on, the simulation uses the equivalent figures for the whole operation.',
+
+  // Guided wizard
+  'wizard.title': 'Find out how much your business loses on poorly handled leads',
+  'wizard.progress': 'Step {step} of {total}',
+  'wizard.back': 'Back',
+  'wizard.next': 'Next',
+  'wizard.finish': 'See my diagnosis',
+  'wizard.dontKnow': 'I don\'t know — use the industry average',
+  'wizard.expert': 'Skip to the expert view',
+  'wizard.segment.question': 'What kind of business are you in?',
+  'wizard.segment.hint': 'Whenever you don\'t know an answer, we\'ll use your industry\'s average.',
+  'wizard.segment.other': 'Other / not sure',
+  'wizard.leads.question': 'How many new interested contacts does your business get each month?',
+  'wizard.leads.hint': 'Add up every channel: forms, WhatsApp, phone and social media.',
+  'wizard.conversion.question': 'Out of every 100 contacts, how many become customers?',
+  'wizard.conversion.hint': 'This is your conversion rate.',
+  'wizard.ticket.question': 'How much does a customer spend, on average, per purchase?',
+  'wizard.ticket.hint': 'This is your average deal size.',
+  'wizard.followUps.question': 'When a contact doesn\'t reply, how many more times does your team try?',
+  'wizard.followUps.hint': 'Count calls, messages and emails after the first attempt.',
+  'wizard.responseTime.question': 'How long does your team usually take to answer a new contact?',
+  'wizard.responseTime.hint': 'Think of the time between the contact arriving and the first reply.',
+  'wizard.estimated': 'We estimated **{inputs}** from the industry average. Adjust them in the sidebar once you have the real numbers.',
+
+  // History
+  'history.title': 'Saved diagnostics',
+  'history.close': 'Close',
+  'history.nameLabel': 'Prospect or company',
+  'history.namePlaceholder': 'e.g. Central Realty',
+  'history.save': 'Save',
+  'history.storageNote': 'Diagnostics are saved in this browser only.',
+  'history.empty': 'No saved diagnostics yet.',
+  'history.open': 'Open',
+  'history.delete': 'Delete',
+  'history.deleteConfirm': 'Delete the "{name}" diagnostic?',
+  'history.savedAt': 'Saved {date}',
+  'history.annualLoss': 'Annual loss when saved: {amount}',
+  'history.modelVersion': 'Model {version}',
+  'history.reopened': 'You\'re viewing **{name}**, saved {date}.',
+  'history.recalculated': 'It was saved with model {saved} and recalculated with the current model ({current}), so the figures may differ.',
+  'history.resetConfirm': 'Reset every input to its default? You can undo this afterwards.',
+  'notice.dismiss': 'Close',
+
+  // Accessibility
+  'a11y.monthlyLoss': 'Estimated monthly loss: {amount}',
+
+  // Team mode
+  'team.title': 'Loss by salesperson',
+  'team.efficiency': 'Team efficiency',
+  'team.worst': '**{name}** loses the most: **{amount}** per month.',
+  'team.name': 'Salesperson',
+  'team.namePlaceholder': 'Salesperson\'s name',
+  'team.unnamed': 'Salesperson {n}',
+  'team.add': 'Add salesperson',
+  'team.remove': 'Remove {name}',
+
+  // Goal seek
+  'goal.title': 'What needs to change to hit the goal?',
+  'goal.description': 'Enter how much more you want to bring in per month, or the efficiency you want, and see the fewest follow-ups and the slowest response time that get there under the current model.',
+  'goal.approxNote': 'With channels, team, funnel or a response time distribution on, the goal is worked out on the equivalent figures for the whole operation, so the starting point can differ from the dashboard.',
+  'goal.metricRevenue': 'Extra revenue',
+  'goal.metricEfficiency': 'Efficiency',
+  'goal.targetRevenue': 'Extra revenue per month',
+  'goal.targetEfficiency': 'Target efficiency',
+  'goal.levers': 'Levers',
+  'goal.leversBoth': 'Follow-up and response',
+  'goal.leversFollowUps': 'Follow-up only',
+  'goal.leversResponseTime': 'Response time only',
+  'goal.alreadyMet': 'Today\'s operation already meets the **{target}** goal.',
+  'goal.reachable': 'The **{target}** goal is reachable with the changes below.',
+  'goal.unreachable': 'The **{target}** goal can\'t be reached with these levers alone. The most they give is **{best}** per month ({efficiency}% efficiency); going further takes more leads, conversion or ticket.',
+  'goal.extraRevenue': 'Extra revenue/month',
+  'goal.pathTitle': 'Step by step',
+  'goal.stepFollowUps': 'Raise follow-up to {followUps} attempts',
+  'goal.stepResponseTime': 'Respond within {time}',
+  'goal.stepOutcome': '+{amount}/month so far · {efficiency}% efficiency',
+  'goal.apply': 'Apply to the sliders',
+  'goal.applyDisabled': 'With channels, team, a response time distribution or a cadence on, adjust each part in the sidebar.',
+
+  // Acquisition costs
+  'costs.sectionTitle': 'Marketing and sales costs',
+  'costs.enable': 'Include acquisition costs',
+  'costs.hint': 'Optional: shows how much of the marketing budget goes to lost leads and the effect on CAC and ROAS.',
+  'costs.basisMonthly': 'Monthly spend',
+  'costs.basisPerLead': 'Cost per lead',
+  'costs.marketingMonthly': 'Marketing spend/month',
+  'costs.marketingPerLead': 'Cost per lead',
+  'costs.salesTeam': 'Sales team cost/month',
+  'costs.title': 'Acquisition Cost',
+  'costs.summary': 'Every lost sale started as a lead you already paid for ({costPerLead} per lead). That is **{amount}** of marketing per month thrown away on leads lost to slow response and weak follow-up.',
+  'costs.wastedMonth': 'Wasted marketing/month',
+  'costs.wastedYear': 'Wasted marketing/year',
+  'costs.cac': 'CAC (now → potential)',
+  'costs.roas': 'ROAS (now → potential)',
+  'costs.currentToPotential': '{current} → {potential}',
+
+  // Follow-up cadence
+  'cadence.hint': 'Each touch counts by channel and day: leads go cold over time, and several touches on the same day add less.',
+  'cadence.day': 'Day',
+  'cadence.channel': 'Channel',
+  'cadence.remove': 'Remove',
+  'cadence.dayLabel': 'Day of touch {n}',
+  'cadence.channelLabel': 'Channel of touch {n}',
+  'cadence.removeLabel': 'Remove touch {n}',
+  'cadence.add': 'Add touch',
+  'cadence.channel.call': 'Call',
+  'cadence.channel.whatsapp': 'WhatsApp',
+  'cadence.channel.email': 'Email',
+  'cadence.effective': 'Worth {count} follow-up attempts.',
+  'cadence.warningCompressed': 'The cadence is too compressed: many touches in a few days come across as pushy and add little. Spread them out.',
+  'cadence.warningStopsEarly': 'The cadence stops too early: keep in touch until at least day {days}, as many leads only answer later.',
+  'cadence.title': 'Contribution of each touch',
+  'cadence.summary': 'The {touches}-touch cadence recovers **{amount}** per month compared with no follow-up.',
+  'cadence.approxNote': 'With channels, funnel or a response time distribution on, the contributions use the equivalent figures for the whole operation and can differ from the loss on the dashboard.',
+  'cadence.touchLabel': 'D{day} · {channel}',
+  'cadence.recovered': 'Recovered revenue/month',
+};
@@ -0,0 +1,388 @@
+import { Messages } from './ptBR';
+
+export const es: Messages = {
+  // App shell
+  'app.title': 'Diagnóstico Comercial',
+  'header.exportPdf': 'Exportar PDF',
+  'header.copyLink': 'Copiar enlace',
+  'header.linkCopied': '¡Enlace copiado!',
+  'header.copyLinkPrompt': 'Copia el enlace del diagnóstico:',
+  'header.reset': 'Reiniciar',
+  'header.guided': 'Modo guiado',
+  'header.expert': 'Vista experta',
+  'header.undo': 'Deshacer',
+  'header.redo': 'Rehacer',
+  'header.history': 'Historial',
+  'header.language': 'Idioma',
+  'header.currency': 'Moneda',
+  'sidebar.title': 'Parámetros',
+  'sidebar.segment': 'Segmento',
+  'sidebar.operationalEfficiency': 'Eficiencia Operativa',
+  'sidebar.channelMode': 'Separar leads por canal',
+  'sidebar.channelModeHint': 'Cada canal tiene su volumen, conversión y tiempo de respuesta. El ticket y el seguimiento valen para todos.',
+  'sidebar.funnelMode': 'Embudo por etapas',
+  'sidebar.funnelModeHint': 'Reemplaza la tasa de conversión por las tasas de cada etapa. El tiempo de respuesta afecta el contacto; el seguimiento afecta la propuesta.',
+  'sidebar.teamMode': 'Diagnóstico por vendedor',
+  'sidebar.teamModeHint': 'Cada vendedor tiene sus propios leads, conversión, seguimientos y tiempo de respuesta. El ticket promedio vale para todos.',
+  'sidebar.importCsv': 'Importar CSV del CRM',
+  'sidebar.distributionMode': 'Informar la distribución del tiempo de respuesta',
+  'sidebar.cadenceMode': 'Armar cadencia de seguimiento',
+  'views.dashboard': 'Diagnóstico',
+  'views.compare': 'Comparar escenarios',
+  'views.goal': 'Meta',
+  'views.sensitivity': 'Sensibilidad',
+  'views.projection': 'Proyección',
+  'views.uncertainty': 'Incertidumbre',
+
+  // Inputs
+  'inputs.leads': 'Leads recibidos/mes',
+  'inputs.conversion': 'Tasa de conversión',
+  'inputs.ticket': 'Ticket promedio',
+  'inputs.followUps': 'Intentos de seguimiento',
+  'inputs.responseTime': 'Tiempo promedio de respuesta',
+
+  // Statuses
+  'status.CRITICAL': 'CRÍTICO',
+  'status.WARNING': 'MALO',
+  'status.IMPROVE': 'MEJORAR',
+  'status.GOOD': 'ATENCIÓN',
+  'status.ADEQUATE': 'ADECUADO',
+  'status.EXCELLENT': 'EXCELENTE',
+
+  // Dashboard
+  'dashboard.currentDiagnosis': 'Diagnóstico Actual',
+  'dashboard.currentDiagnosisSubtitle': 'Visión general de tu desempeño',
+  'dashboard.monthlyRevenue': 'Facturación/mes',
+  'dashboard.monthlySales': 'Ventas/mes',
+  'dashboard.annualProjection': 'Proyección Anual',
+  'dashboard.followUp': 'Seguimiento',
+  'dashboard.responseTime': 'Tiempo de Respuesta',
+  'dashboard.lostSalesMonth': 'Ventas perdidas/mes',
+  'dashboard.lostRevenueMonth': 'Ingresos perdidos/mes',
+  'dashboard.lostRevenueYear': 'Ingresos perdidos/año',
+  'dashboard.totalImpact': 'Impacto Financiero Total',
+  'dashboard.optimized': 'Operación Optimizada',
+  'dashboard.totalImpactDescription': 'Este es el monto estimado que tu empresa deja de ganar cada año por fallas en el proceso de atención.',
+  'dashboard.optimizedDescription': 'Tu operación comercial está alcanzando el máximo potencial de eficiencia en las métricas analizadas.',
+  'dashboard.efficiency': 'Eficiencia Comercial',
+  'dashboard.annualWaste': 'Desperdicio Anual',
+  'dashboard.salesPotential': 'Potencial de Ventas',
+  'dashboard.lossComposition': 'Composición de la Pérdida',
+  'dashboard.total': 'Total',
+
+  // Advice
+  'advice.followUpAdequate': '¡Excelente! Mantienes un volumen de intentos que garantiza la máxima recuperación de leads.',
+  'advice.followUpLow': 'Realizas solo {followUps} intentos. Lo ideal para maximizar la conversión es más de {ideal}.',
+  'advice.responseExcellent': '¡Velocidad de atención excelente! Sigue así.',
+  'advice.responseGood': 'Tiempo actual: {time}. Todavía puede mejorar.',
+  'advice.responseSlow': 'Tiempo actual: {time}. Lo ideal es ≤ {ideal}.',
+
+  // Charts
+  'chart.currentSales': 'Ventas Actuales',
+  'chart.followUpLoss': 'Pérdida (Seguimiento)',
+  'chart.responseLoss': 'Pérdida (Tiempo)',
+  'chart.followUpLossShare': 'Pérdida por Seguimiento',
+  'chart.responseLossShare': 'Pérdida por Tiempo',
+  'chart.revenue': 'Ingresos',
+
+  // Market data
+  'market.marketingDonut.claim': 'El **80% de las ventas B2B** requiere 5 o más seguimientos para cerrarse.',
+  'market.mit.claim': 'Responder en **5 minutos** aumenta las probabilidades de contacto **9x**.',
+  'market.hubspot.claim': 'Entre el **35 y el 50%** de las ventas son para el proveedor que responde primero.',
+  'market.hbr.claim': 'Las empresas que intentaron contactar **en menos de 1 hora** tuvieron casi **7x** más probabilidades de calificar el lead que las que tardaron más.',
+  'market.drift.claim': 'Solo el **7%** de las empresas respondió a un lead **en los primeros 5 minutos**.',
+
+  // Footer
+  'footer.lossMessage': 'Cada mes quedan **{amount}** sobre la mesa.',
+  'footer.optimizedMessage': '¡Felicitaciones! Tu operación comercial está optimizada.',
+  'footer.cta': 'Hablar con un especialista',
+
+  // Scenarios
+  'scenarios.title': 'Comparación de Escenarios',
+  'scenarios.baselineName': 'Hoy',
+  'scenarios.targetName': 'Con {product}',
+  'scenarios.nameLabel': 'Nombre del escenario',
+  'scenarios.editBaselineHint': 'Edita este escenario con los parámetros de al lado.',
+  'scenarios.approxNote': 'Con canales, equipo, embudo o distribución del tiempo de respuesta activos, los escenarios usan los valores equivalentes de toda la operación, así que "Hoy" puede diferir del panel.',
+  'scenarios.followUpAttempts': 'Seguimiento ({followUps} intentos)',
+  'scenarios.responseTimeValue': 'Tiempo de respuesta ({time})',
+  'scenarios.deltaMonthlyRevenue': 'Ingresos mensuales',
+  'scenarios.deltaAnnualRevenue': 'Ingresos anuales',
+  'scenarios.deltaRecoveredSales': 'Ventas recuperadas/mes',
+  'scenarios.deltaEfficiency': 'Eficiencia',
+  'scenarios.percentagePoints': '{value} p.p.',
+
+  // Sensitivity
+  'sensitivity.title': '¿Qué palanca pesa más?',
+  'sensitivity.description': 'Variación del desperdicio anual ({amount}) al mover cada parámetro por separado.',
+  'sensitivity.modePercent': '±10%',
+  'sensitivity.modeStep': '±1 paso',
+  'sensitivity.lowPercent': '-10%',
+  'sensitivity.highPercent': '+10%',
+  'sensitivity.lowStep': '-1 paso',
+  'sensitivity.highStep': '+1 paso',
+  'sensitivity.heatmapTitle': 'Mapa de desperdicio anual',
+  'sensitivity.heatmapDescription': 'Seguimientos × tiempo de respuesta, manteniendo leads, conversión y ticket actuales.',
+  'sensitivity.heatmapCorner': 'Tiempo \\ Seguimientos',
+  'sensitivity.heatmapCell': '{followUps} seguimientos, {time}: {amount}/año',
+
+  // Report
+  'report.page': 'Página {page}',
+  'report.inputs': 'Parámetros informados',
+  'report.lossAnalysis': 'Análisis de pérdidas',
+  'report.perYear': '{amount}/año',
+  'report.totalPerYear': 'Total: {amount}/año',
+  'report.marketData': 'Datos de mercado',
+  'report.citation': 'Fuente: [{n}]',
+  'report.disclaimer': 'Valores estimados a partir de los parámetros informados. Modelo de diagnóstico v{version}.',
+
+  // Lead capture
+  'lead.title': 'Hablar con un especialista',
+  'lead.close': 'Cerrar',
+  'lead.name': 'Nombre',
+  'lead.company': 'Empresa',
+  'lead.email': 'Correo electrónico',
+  'lead.whatsapp': 'WhatsApp',
+  'lead.segment': 'Segmento',
+  'lead.segmentPlaceholder': 'Selecciona...',
+  'lead.consent': 'Autorizo a {product} a contactarme y a tratar mis datos y el resultado de este diagnóstico, conforme a la LGPD.',
+  'lead.submit': 'Enviar mi diagnóstico',
+  'lead.sentTitle': '¡Recibimos tu diagnóstico!',
+  'lead.sentDescription': 'Un especialista te contactará por WhatsApp en breve.',
+  'lead.queuedTitle': 'Tu contacto fue guardado.',
+  'lead.queuedDescription': 'No pudimos enviarlo ahora, pero lo intentaremos de nuevo automáticamente.',
+  'lead.errorName': 'Ingresa tu nombre.',
+  'lead.errorCompany': 'Ingresa el nombre de la empresa.',
+  'lead.errorEmail': 'Ingresa un correo válido.',
+  'lead.errorWhatsapp': 'Ingresa un WhatsApp válido con DDD.',
+  'lead.errorSegment': 'Selecciona el segmento.',
+  'lead.errorConsent': 'Es necesario autorizar el contacto.',
+  'segments.general': 'General (todos los segmentos)',
+  'segments.real-estate': 'Inmobiliaria',
+  'segments.education': 'Educación',
+  'segments.health': 'Salud',
+  'segments.saas': 'Software / SaaS',
+  'segments.industry': 'Industria',
+  'segments.b2b-services': 'Servicios B2B',
+  'segments.retail': 'Comercio minorista',
+  'segments.automotive': 'Automotriz',
+  'segments.other': 'Otro',
+
+  // Channels
+  'channels.whatsapp': 'WhatsApp',
+  'channels.website': 'Formulario del sitio',
+  'channels.phone': 'Teléfono',
+  'channels.marketplace': 'Marketplaces',
+  'channels.title': 'Pérdida por canal',
+  'channels.leakiest': 'Tu **{channel}** es donde se escapa el dinero: **{amount}** por mes.',
+  'channels.leadsPerMonth': '{leads} leads/mes',
+
+  // Funnel
+  'funnel.lead': 'Leads',
+  'funnel.contacted': 'Contactados',
+  'funnel.qualified': 'Calificados',
+  'funnel.proposal': 'Propuesta',
+  'funnel.won': 'Ventas',
+  'funnel.rateLabel': '{stage} (% de la etapa anterior)',
+  'funnel.overallConversion': 'Conversión total: {value}%',
+  'funnel.title': 'Dónde se pierden las ventas',
+  'funnel.current': 'Hoy',
+  'funnel.responseGap': 'Perdido por tiempo de respuesta',
+  'funnel.followUpGap': 'Perdido por seguimiento',
+  'funnel.dropOut': '**{response}** ventas/mes se caen en el contacto (tiempo de respuesta) y **{followUp}** en la propuesta (seguimiento).',
+
+  // Projection
+  'projection.title': 'Proyección mes a mes',
+  'projection.description': 'Cuánto vuelve a la caja con la operación del escenario "{target}", implementada de forma gradual.',
+  'projection.horizon': '{months} meses',
+  'projection.rampDelay': 'Inicio de la mejora',
+  'projection.rampMonths': 'Meses hasta el efecto total',
+  'projection.monthsUnit': ' meses',
+  'projection.seasonality': 'Estacionalidad',
+  'projection.seasonalityHint': 'Peso de cada mes respecto a un mes promedio (1 = normal).',
+  'projection.resetSeasonality': 'Sin estacionalidad',
+  'projection.cumulativeTitle': 'Acumulado: perdido vs. recuperado',
+  'projection.cumulativeLost': 'Aún perdido',
+  'projection.cumulativeRecovered': 'Recuperado',
+  'projection.monthLabel': 'Mes {month} ({name})',
+  'projection.recoveredTotal': 'Recuperado en {months} meses',
+  'projection.lostTotal': 'Aún perdido en {months} meses',
+  'projection.firstYearLoss': 'Desperdicio del 1.er año sin cambios',
+  'projection.fullEffect': 'Efecto total desde el',
+  'projection.fullEffectMonth': 'mes {month}',
+
+  // CRM import
+  'import.title': 'Importar leads del CRM',
+  'import.description': 'Sube una exportación de leads en CSV (una fila por lead). El archivo se lee solo en tu navegador.',
+  'import.chooseFile': 'Elegir archivo CSV',
+  'import.errorEmpty': 'El archivo no tiene filas de datos.',
+  'import.errorRead': 'No se pudo leer el archivo.',
+  'import.mapping': 'Mapeo de columnas',
+  'import.notMapped': '— sin mapear —',
+  'import.required': 'obligatorio',
+  'import.field.createdAt': 'Fecha de creación',
+  'import.field.firstResponseAt': 'Fecha de la primera respuesta',
+  'import.field.attempts': 'N.º de intentos',
+  'import.field.won': 'Venta ganada (sí/no)',
+  'import.field.dealValue': 'Valor de la venta',
+  'import.quality': 'Calidad de los datos',
+  'import.rowsUsed': '{used} de {total} filas usadas',
+  'import.period': 'Período: {start} a {end} ({months} meses)',
+  'import.rowsSkipped': '{count} filas sin fecha de creación válida fueron ignoradas',
+  'import.missingResponse': '{count} leads sin fecha de primera respuesta',
+  'import.negativeResponse': '{count} respuestas anteriores a la creación del lead fueron ignoradas',
+  'import.missingAttempts': '{count} leads sin número de intentos',
+  'import.wonWithoutValue': '{count} ventas sin valor',
+  'import.derived': 'Valores calculados',
+  'import.keepCurrent': 'mantiene el valor actual',
+  'import.apply': 'Usar estos valores',
+  'import.back': 'Cambiar archivo',
+  'import.close': 'Cerrar',
+
+  // Response time distribution
+  'distribution.hint': '% acumulado de leads respondidos dentro de cada plazo. El resto se responde después de 24h o nunca.',
+  'distribution.within': 'En hasta {limit}',
+  'distribution.bucket.5m': 'Hasta 5 min',
+  'distribution.bucket.30m': '5–30 min',
+  'distribution.bucket.1h': '30 min–1h',
+  'distribution.bucket.3h': '1–3h',
+  'distribution.bucket.24h': '3–24h',
+  'distribution.bucket.over24h': 'Más de 24h',
+  'distribution.remaining': 'Después de 24h o nunca: {value}%',
+  'distribution.title': 'Pérdida por rango de tiempo de respuesta',
+  'distribution.driver': 'Los leads respondidos en **{bucket}** ({share}% del total) generan el **{percent}%** de la pérdida por tiempo de respuesta.',
+  'distribution.leadsShare': '% de los leads',
+  'distribution.loss': 'Pérdida/mes',
+
+  // Uncertainty
+  'uncertainty.title': 'Rangos de incertidumbre',
+  'uncertainty.description': 'Cada dato y coeficiente del modelo varía dentro de su rango (±) en {runs} simulaciones. P10 es el escenario más optimista, P50 la mediana y P90 el más pesimista.',
+  'uncertainty.running': 'Simulando…',
+  'uncertainty.inputsTitle': '¿Qué tan preciso es cada dato?',
+  'uncertainty.spread': '{input} (±)',
+  'uncertainty.coefficients': 'Coeficientes del modelo (±)',
+  'uncertainty.runs': '{runs} simulaciones',
+  'uncertainty.monthlyLoss': 'Desperdicio mensual',
+  'uncertainty.annualLoss': 'Desperdicio anual',
+  'uncertainty.efficiency': 'Eficiencia',
+  'uncertainty.histogram': 'Distribución del desperdicio anual',
+  'uncertainty.frequency': 'Simulaciones',
+  'uncertainty.range': 'P10–P90: {low} – {high}',
+  'uncertainty.approxNote': 'Con canales, equipo, embudo o distribución del tiempo de respuesta activos, la simulación usa los valores equivalentes de toda la operación.',
+
+  // Guided wizard
+  'wizard.title': 'Descubra cuánto pierde tu empresa por contactos mal atendidos',
+  'wizard.progress': 'Paso {step} de {total}',
+  'wizard.back': 'Atrás',
+  'wizard.next': 'Siguiente',
+  'wizard.finish': 'Ver mi diagnóstico',
+  'wizard.dontKnow': 'No lo sé — usar el promedio del sector',
+  'wizard.expert': 'Ir a la vista experta',
+  'wizard.segment.question': '¿A qué se dedica tu empresa?',
+  'wizard.segment.hint': 'Cuando no sepas una respuesta, usamos el promedio de tu sector.',
+  'wizard.segment.other': 'Otro / no lo sé',
+  'wizard.leads.question': '¿Cuántos contactos interesados nuevos recibe tu empresa al mes?',
+  'wizard.leads.hint': 'Suma todos los canales: formularios, WhatsApp, teléfono y redes sociales.',
+  'wizard.conversion.question': 'De cada 100 contactos, ¿cuántos se convierten en clientes?',
+  'wizard.conversion.hint': 'Esa es tu tasa de conversión.',
+  'wizard.ticket.question': '¿Cuánto gasta un cliente, en promedio, en cada compra?',
+  'wizard.ticket.hint': 'Ese es tu ticket promedio.',
+  'wizard.followUps.question': 'Cuando un contacto no responde, ¿cuántas veces vuelve a intentarlo tu equipo?',
+  'wizard.followUps.hint': 'Cuenta llamadas, mensajes y correos después del primer intento.',
+  'wizard.responseTime.question': '¿Cuánto tarda tu equipo, normalmente, en responder a un contacto nuevo?',
+  'wizard.responseTime.hint': 'Piensa en el tiempo entre la llegada del contacto y la primera respuesta.',
+  'wizard.estimated': 'Estimamos **{inputs}** con el promedio del sector. Ajusta estos valores en la barra lateral cuando tengas los números reales.',
+
+  // History
+  'history.title': 'Diagnósticos guardados',
+  'history.close': 'Cerrar',
+  'history.nameLabel': 'Cliente o empresa',
+  'history.namePlaceholder': 'Ej.: Inmobiliaria Central',
+  'history.save': 'Guardar',
+  'history.storageNote': 'Los diagnósticos se guardan solo en este navegador.',
+  'history.empty': 'Todavía no hay diagnósticos guardados.',
+  'history.open': 'Abrir',
+  'history.delete': 'Eliminar',
+  'history.deleteConfirm': '¿Eliminar el diagnóstico "{name}"?',
+  'history.savedAt': 'Guardado el {date}',
+  'history.annualLoss': 'Pérdida anual al guardar: {amount}',
+  'history.modelVersion': 'Modelo {version}',
+  'history.reopened': 'Estás viendo **{name}**, guardado el {date}.',
+  'history.recalculated': 'Se guardó con el modelo {saved} y se recalculó con el modelo actual ({current}), así que los valores pueden cambiar.',
+  'history.resetConfirm': '¿Volver todos los valores a los predeterminados? Puedes deshacerlo después.',
+  'notice.dismiss': 'Cerrar',
+
+  // Accessibility
+  'a11y.monthlyLoss': 'Pérdida mensual estimada: {amount}',
+
+  // Team mode
+  'team.title': 'Pérdida por vendedor',
+  'team.efficiency': 'Eficiencia del equipo',
+  'team.worst': '**{name}** es quien más pierde: **{amount}** al mes.',
+  'team.name': 'Vendedor',
+  'team.namePlaceholder': 'Nombre del vendedor',
+  'team.unnamed': 'Vendedor {n}',
+  'team.add': 'Agregar vendedor',
+  'team.remove': 'Quitar a {name}',
+
+  // Goal seek
+  'goal.title': '¿Qué cambiar para alcanzar la meta?',
+  'goal.description': 'Indica cuánto más quieres facturar por mes, o la eficiencia deseada, y ve el mínimo de seguimientos y el tiempo de respuesta máximo que la alcanzan según el modelo actual.',
+  'goal.approxNote': 'Con canales, equipo, embudo o distribución del tiempo de respuesta activos, la meta se calcula sobre los valores equivalentes de toda la operación, así que el punto de partida puede diferir del panel.',
+  'goal.metricRevenue': 'Ingreso extra',
+  'goal.metricEfficiency': 'Eficiencia',
+  'goal.targetRevenue': 'Ingreso extra por mes',
+  'goal.targetEfficiency': 'Eficiencia deseada',
+  'goal.levers': 'Palancas',
+  'goal.leversBoth': 'Seguimiento y respuesta',
+  'goal.leversFollowUps': 'Solo seguimiento',
+  'goal.leversResponseTime': 'Solo tiempo de respuesta',
+  'goal.alreadyMet': 'La operación actual ya alcanza la meta de **{target}**.',
+  'goal.reachable': 'Meta de **{target}** alcanzable con los cambios de abajo.',
+  'goal.unreachable': 'La meta de **{target}** no se alcanza solo con estas palancas. El máximo es **{best}** por mes ({efficiency}% de eficiencia); para ir más allá se necesitan más leads, conversión o ticket.',
+  'goal.extraRevenue': 'Ingreso extra/mes',
+  'goal.pathTitle': 'Paso a paso',
+  'goal.stepFollowUps': 'Subir a {followUps} intentos de seguimiento',
+  'goal.stepResponseTime': 'Responder en menos de {time}',
+  'goal.stepOutcome': '+{amount}/mes acumulado · {efficiency}% de eficiencia',
+  'goal.apply': 'Aplicar en los controles',
+  'goal.applyDisabled': 'Con canales, equipo, distribución del tiempo de respuesta o cadencia activos, ajusta cada parte en la barra lateral.',
+
+  // Acquisition costs
+  'costs.sectionTitle': 'Costos de marketing y ventas',
+  'costs.enable': 'Incluir costos de adquisición',
+  'costs.hint': 'Opcional: muestra cuánto de la inversión en marketing va a leads perdidos y el efecto en el CAC y el ROAS.',
+  'costs.basisMonthly': 'Inversión mensual',
+  'costs.basisPerLead': 'Costo por lead',
+  'costs.marketingMonthly': 'Inversión en marketing/mes',
+  'costs.marketingPerLead': 'Costo por lead',
+  'costs.salesTeam': 'Costo del equipo de ventas/mes',
+  'costs.title': 'Costo de Adquisición',
+  'costs.summary': 'Cada venta perdida empezó como un lead ya pagado ({costPerLead} por lead). Son **{amount}** de marketing al mes desperdiciados en leads perdidos por demora y falta de seguimiento.',
+  'costs.wastedMonth': 'Marketing desperdiciado/mes',
+  'costs.wastedYear': 'Marketing desperdiciado/año',
+  'costs.cac': 'CAC (actual → potencial)',
+  'costs.roas': 'ROAS (actual → potencial)',
+  'costs.currentToPotential': '{current} → {potential}',
+
+  // Follow-up cadence
+  'cadence.hint': 'Cada contacto cuenta según el canal y el día: los leads se enfrían con el tiempo y varios contactos el mismo día rinden menos.',
+  'cadence.day': 'Día',
+  'cadence.channel': 'Canal',
+  'cadence.remove': 'Quitar',
+  'cadence.dayLabel': 'Día del contacto {n}',
+  'cadence.channelLabel': 'Canal del contacto {n}',
+  'cadence.removeLabel': 'Quitar contacto {n}',
+  'cadence.add': 'Agregar contacto',
+  'cadence.channel.call': 'Llamada',
+  'cadence.channel.whatsapp': 'WhatsApp',
+  'cadence.channel.email': 'Correo',
+  'cadence.effective': 'Equivale a {count} intentos de seguimiento.',
+  'cadence.warningCompressed': 'Cadencia muy concentrada: demasiados contactos en pocos días suenan insistentes y rinden poco. Distribuye los contactos.',
+  'cadence.warningStopsEarly': 'La cadencia termina pronto: mantén el contacto al menos hasta el día {days}, porque muchos leads responden más tarde.',
+  'cadence.title': 'Aporte de cada contacto',
+  'cadence.summary': 'La cadencia de {touches} contactos recupera **{amount}** al mes frente a no hacer seguimiento.',
+  'cadence.approxNote': 'Con canales, embudo o distribución del tiempo de respuesta activos, los aportes usan los valores equivalentes de toda la operación y pueden diferir de la pérdida del panel.',
+  'cadence.touchLabel': 'D{day} · {channel}',
+  'cadence.recovered': 'Ingreso recuperado/mes',
+};
@@ -0,0 +1,392 @@
+// Source catalog: every other locale must provide the same keys.
+// `{name}` is replaced by the matching param; `**text**` marks emphasis in rich texts.
+
+export const ptBR = {
+  // App shell
+  'app.title': 'Diagnóstico Comercial',
+  'header.exportPdf': 'Exportar PDF',
+  'header.copyLink': 'Copiar link',
+  'header.linkCopied': 'Link copiado!',
+  'header.copyLinkPrompt': 'Copie o link do diagnóstico:',
+  'header.reset': 'Resetar',
+  'header.guided': 'Modo guiado',
+  'header.expert': 'Visão especialista',
+  'header.undo': 'Desfazer',
+  'header.redo': 'Refazer',
+  'header.history': 'Histórico',
+  'header.language': 'Idioma',
+  'header.currency': 'Moeda',
+  'sidebar.title': 'Parâmetros',
+  'sidebar.segment': 'Segmento',
+  'sidebar.operationalEfficiency': 'Eficiência Operacional',
+  'sidebar.channelMode': 'Separar leads por canal',
+  'sidebar.channelModeHint': 'Cada canal tem seu volume, conversão e tempo de resposta. Ticket e follow-up valem para todos.',
+  'sidebar.funnelMode': 'Funil por etapas',
+  'sidebar.funnelModeHint': 'Substitui a taxa de conversão pelas taxas de cada etapa. O tempo de resposta afeta o contato; o follow-up afeta a proposta.',
+  'sidebar.teamMode': 'Diagnóstico por vendedor',
+  'sidebar.teamModeHint': 'Cada vendedor tem seus próprios leads, conversão, follow-ups e tempo de resposta. O ticket médio vale para todos.',
+  'sidebar.importCsv': 'Importar CSV do CRM',
+  'sidebar.distributionMode': 'Informar distribuição do tempo de resposta',
+  'sidebar.cadenceMode': 'Montar cadência de follow-up',
+  'views.dashboard': 'Diagnóstico',
+  'views.compare': 'Comparar cenários',
+  'views.goal': 'Meta',
+  'views.sensitivity': 'Sensibilidade',
+  'views.projection': 'Projeção',
+  'views.uncertainty': 'Incerteza',
+
+  // Inputs
+  'inputs.leads': 'Leads recebidos/mês',
+  'inputs.conversion': 'Taxa de conversão',
+  'inputs.ticket': 'Ticket médio',
+  'inputs.followUps': 'Tentativas de follow-up',
+  'inputs.responseTime': 'Tempo médio de resposta',
+
+  // Statuses
+  'status.CRITICAL': 'CRÍTICO',
+  'status.WARNING': 'RUIM',
+  'status.IMPROVE': 'MELHORAR',
+  'status.GOOD': 'ATENÇÃO',
+  'status.ADEQUATE': 'ADEQUADO',
+  'status.EXCELLENT': 'ÓTIMO',
+
+  // Dashboard
+  'dashboard.currentDiagnosis': 'Diagnóstico Atual',
+  'dashboard.currentDiagnosisSubtitle': 'Visão geral da sua performance',
+  'dashboard.monthlyRevenue': 'Faturamento/mês',
+  'dashboard.monthlySales': 'Vendas/mês',
+  'dashboard.annualProjection': 'Projeção Anual',
+  'dashboard.followUp': 'Follow-up',
+  'dashboard.responseTime': 'Tempo Resposta',
+  'dashboard.lostSalesMonth': 'Vendas perdidas/mês',
+  'dashboard.lostRevenueMonth': 'Receita perdida/mês',
+  'dashboard.lostRevenueYear': 'Receita perdida/ano',
+  'dashboard.totalImpact': 'Impacto Financeiro Total',
+  'dashboard.optimized': 'Operação Otimizada',
+  'dashboard.totalImpactDescription': 'Este é o montante estimado que sua empresa deixa de ganhar anualmente devido a falhas no processo de atendimento.',
+  'dashboard.optimizedDescription': 'Sua operação comercial está atingindo o máximo potencial de eficiência nas métricas analisadas.',
+  'dashboard.efficiency': 'Eficiência Comercial',
+  'dashboard.annualWaste': 'Desperdício Anual',
+  'dashboard.salesPotential': 'Potencial de Vendas',
+  'dashboard.lossComposition': 'Composição da Perda',
+  'dashboard.total': 'Total',
+
+  // Advice
+  'advice.followUpAdequate': 'Excelente! Você mantém um volume de tentativas que garante a máxima recuperação de leads.',
+  'advice.followUpLow': 'Você realiza apenas {followUps} tentativas. O ideal para maximizar a conversão é acima de {ideal}.',
+  'advice.responseExcellent': 'Velocidade de atendimento excelente! Continue assim.',
+  'advice.responseGood': 'Tempo atual: {time}. Ainda pode melhorar.',
+  'advice.responseSlow': 'Tempo atual: {time}. O ideal é ≤ {ideal}.',
+
+  // Charts
+  'chart.currentSales': 'Vendas Atuais',
+  'chart.followUpLoss': 'Perda (Follow-up)',
+  'chart.responseLoss': 'Perda (Tempo)',
+  'chart.followUpLossShare': 'Perda por Follow-up',
+  'chart.responseLossShare': 'Perda por Tempo',
+  'chart.revenue': 'Receita',
+
+  // Market data
+  'market.marketingDonut.claim': '**80% das vendas B2B** requerem 5 ou mais follow-ups para serem fechadas.',
+  'market.mit.claim': 'Responder em **5 minutos** aumenta as chances de contato em **9x**.',
+  'market.hubspot.claim': '**35–50%** das vendas vão para o fornecedor que responde primeiro.',
+  'market.hbr.claim': 'Empresas que tentaram contato **em até 1 hora** tiveram quase **7x** mais chance de qualificar o lead do que as que demoraram mais.',
+  'market.drift.claim': 'Apenas **7%** das empresas responderam a um lead **nos primeiros 5 minutos**.',
+
+  // Footer
+  'footer.lossMessage': 'A cada mês, **{amount}** são deixados na mesa.',
+  'footer.optimizedMessage': 'Parabéns! Sua operação comercial está otimizada.',
+  'footer.cta': 'Falar com um especialista',
+
+  // Scenarios
+  'scenarios.title': 'Comparação de Cenários',
+  'scenarios.baselineName': 'Hoje',
+  'scenarios.targetName': 'Com {product}',
+  'scenarios.nameLabel': 'Nome do cenário',
+  'scenarios.editBaselineHint': 'Edite este cenário pelos parâmetros ao lado.',
+  'scenarios.approxNote': 'Com canais, equipe, funil ou distribuição do tempo de resposta ativos, os cenários usam os valores equivalentes da operação inteira, então "Hoje" pode diferir do painel.',
+  'scenarios.followUpAttempts': 'Follow-up ({followUps} tentativas)',
+  'scenarios.responseTimeValue': 'Tempo de resposta ({time})',
+  'scenarios.deltaMonthlyRevenue': 'Receita mensal',
+  'scenarios.deltaAnnualRevenue': 'Receita anual',
+  'scenarios.deltaRecoveredSales': 'Vendas recuperadas/mês',
+  'scenarios.deltaEfficiency': 'Eficiência',
+  'scenarios.percentagePoints': '{value} p.p.',
+
+  // Sensitivity
+  'sensitivity.title': 'Qual alavanca pesa mais?',
+  'sensitivity.description': 'Variação do desperdício anual ({amount}) ao mover cada parâmetro isoladamente.',
+  'sensitivity.modePercent': '±10%',
+  'sensitivity.modeStep': '±1 passo',
+  'sensitivity.lowPercent': '-10%',
+  'sensitivity.highPercent': '+10%',
+  'sensitivity.lowStep': '-1 passo',
+  'sensitivity.highStep': '+1 passo',
+  'sensitivity.heatmapTitle': 'Mapa de desperdício anual',
+  'sensitivity.heatmapDescription': 'Follow-ups × tempo de resposta, mantendo leads, conversão e ticket atuais.',
+  'sensitivity.heatmapCorner': 'Tempo \\ Follow-ups',
+  'sensitivity.heatmapCell': '{followUps} follow-ups, {time}: {amount}/ano',
+
+  // Report
+  'report.page': 'Página {page}',
+  'report.inputs': 'Parâmetros informados',
+  'report.lossAnalysis': 'Análise de perdas',
+  'report.perYear': '{amount}/ano',
+  'report.totalPerYear': 'Total: {amount}/ano',
+  'report.marketData': 'Dados de mercado',
+  'report.citation': 'Fonte: [{n}]',
+  'report.disclaimer': 'Valores estimados a partir dos parâmetros informados. Modelo de diagnóstico v{version}.',
+
+  // Lead capture
+  'lead.title': 'Falar com um especialista',
+  'lead.close': 'Fechar',
+  'lead.name': 'Nome',
+  'lead.company': 'Empresa',
+  'lead.email': 'E-mail',
+  'lead.whatsapp': 'WhatsApp',
+  'lead.segment': 'Segmento',
+  'lead.segmentPlaceholder': 'Selecione...',
+  'lead.consent': 'Autorizo a {product} a entrar em contato e a tratar meus dados e o resultado deste diagnóstico, conforme a LGPD.',
+  'lead.submit': 'Enviar meu diagnóstico',
+  'lead.sentTitle': 'Recebemos seu diagnóstico!',
+  'lead.sentDescription': 'Um especialista vai falar com você pelo WhatsApp em breve.',
+  'lead.queuedTitle': 'Seu contato foi salvo.',
+  'lead.queuedDescription': 'Não conseguimos enviar agora, mas vamos tentar novamente automaticamente.',
+  'lead.errorName': 'Informe seu nome.',
+  'lead.errorCompany': 'Informe o nome da empresa.',
+  'lead.errorEmail': 'Informe um e-mail válido.',
+  'lead.errorWhatsapp': 'Informe um WhatsApp válido com DDD.',
+  'lead.errorSegment': 'Selecione o segmento.',
+  'lead.errorConsent': 'É necessário autorizar o contato.',
+  'segments.general': 'Geral (todos os segmentos)',
+  'segments.real-estate': 'Imobiliária',
+  'segments.education': 'Educação',
+  'segments.health': 'Saúde',
+  'segments.saas': 'Software / SaaS',
+  'segments.industry': 'Indústria',
+  'segments.b2b-services': 'Serviços B2B',
+  'segments.retail': 'Varejo',
+  'segments.automotive': 'Automotivo',
+  'segments.other': 'Outro',
+
+  // Channels
+  'channels.whatsapp': 'WhatsApp',
+  'channels.website': 'Formulário do site',
+  'channels.phone': 'Telefone',
+  'channels.marketplace': 'Marketplaces',
+  'channels.title': 'Perda por canal',
+  'channels.leakiest': 'Seu **{channel}** é onde o dinheiro vaza: **{amount}** por mês.',
+  'channels.leadsPerMonth': '{leads} leads/mês',
+
+  // Funnel
+  'funnel.lead': 'Leads',
+  'funnel.contacted': 'Contatados',
+  'funnel.qualified': 'Qualificados',
+  'funnel.proposal': 'Proposta',
+  'funnel.won': 'Vendas',
+  'funnel.rateLabel': '{stage} (% da etapa anterior)',
+  'funnel.overallConversion': 'Conversão total: {value}%',
+  'funnel.title': 'Onde as vendas se perdem',
+  'funnel.current': 'Hoje',
+  'funnel.responseGap': 'Perdido por tempo de resposta',
+  'funnel.followUpGap': 'Perdido por follow-up',
+  'funnel.dropOut': '**{response}** vendas/mês caem no contato (tempo de resposta) e **{followUp}** na proposta (follow-up).',
+
+  // Projection
+  'projection.title': 'Projeção mês a mês',
+  'projection.description': 'Quanto volta para o caixa com a operação do cenário "{target}", implantada de forma gradual.',
+  'projection.horizon': '{months} meses',
+  'projection.rampDelay': 'Início da melhoria',
+  'projection.rampMonths': 'Meses até o efeito total',
+  'projection.monthsUnit': ' meses',
+  'projection.seasonality': 'Sazonalidade',
+  'projection.seasonalityHint': 'Peso de cada mês em relação a um mês médio (1 = normal).',
+  'projection.resetSeasonality': 'Sem sazonalidade',
+  'projection.cumulativeTitle': 'Acumulado: perdido x recuperado',
+  'projection.cumulativeLost': 'Ainda perdido',
+  'projection.cumulativeRecovered': 'Recuperado',
+  'projection.monthLabel': 'Mês {month} ({name})',
+  'projection.recoveredTotal': 'Recuperado em {months} meses',
+  'projection.lostTotal': 'Ainda perdido em {months} meses',
+  'projection.firstYearLoss': 'Desperdício no 1º ano sem mudanças',
+  'projection.fullEffect': 'Efeito total a partir do',
+  'projection.fullEffectMonth': 'mês {month}',
+
+  // CRM import
+  'import.title': 'Importar leads do CRM',
+  'import.description': 'Envie uma exportação de leads em CSV (uma linha por lead). O arquivo é lido apenas no seu navegador.',
+  'import.chooseFile': 'Escolher arquivo CSV',
+  'import.errorEmpty': 'O arquivo não tem linhas de dados.',
+  'import.errorRead': 'Não foi possível ler o arquivo.',
+  'import.mapping': 'Mapeamento de colunas',
+  'import.notMapped': '— não mapeado —',
+  'import.required': 'obrigatório',
+  'import.field.createdAt': 'Data de criação',
+  'import.field.firstResponseAt': 'Data da primeira resposta',
+  'import.field.attempts': 'Nº de tentativas',
+  'import.field.won': 'Venda ganha (sim/não)',
+  'import.field.dealValue': 'Valor da venda',
+  'import.quality': 'Qualidade dos dados',
+  'import.rowsUsed': '{used} de {total} linhas usadas',
+  'import.period': 'Período: {start} a {end} ({months} meses)',
+  'import.rowsSkipped': '{count} linhas sem data de criação válida foram ignoradas',
+  'import.missingResponse': '{count} leads sem data de primeira resposta',
+  'import.negativeResponse': '{count} respostas anteriores à criação do lead foram ignoradas',
+  'import.missingAttempts': '{count} leads sem número de tentativas',
+  'import.wonWithoutValue': '{count} vendas sem valor',
+  'import.derived': 'Valores calculados',
+  'import.keepCurrent': 'mantém o valor atual',
+  'import.apply': 'Usar estes valores',
+  'import.back': 'Trocar arquivo',
+  'import.close': 'Fechar',
+
+  // Response time distribution
+  'distribution.hint': '% acumulado dos leads respondidos dentro de cada prazo. O restante é respondido depois de 24h ou nunca.',
+  'distribution.within': 'Em até {limit}',
+  'distribution.bucket.5m': 'Até 5 min',
+  'distribution.bucket.30m': '5–30 min',
+  'distribution.bucket.1h': '30 min–1h',
+  'distribution.bucket.3h': '1–3h',
+  'distribution.bucket.24h': '3–24h',
+  'distribution.bucket.over24h': 'Mais de 24h',
+  'distribution.remaining': 'Depois de 24h ou nunca: {value}%',
+  'distribution.title': 'Perda por faixa de tempo de resposta',
+  'distribution.driver': 'Os leads respondidos em **{bucket}** ({share}% do total) geram **{percent}%** da perda por tempo de resposta.',
+  'distribution.leadsShare': '% dos leads',
+  'distribution.loss': 'Perda/mês',
+
+  // Uncertainty
+  'uncertainty.title': 'Faixas de incerteza',
+  'uncertainty.description': 'Cada dado e coeficiente do modelo varia dentro da sua faixa (±) em {runs} simulações. P10 é o cenário mais otimista, P50 a mediana e P90 o mais pessimista.',
+  'uncertainty.running': 'Simulando…',
+  'uncertainty.inputsTitle': 'Quão preciso é cada dado?',
+  'uncertainty.spread': '{input} (±)',
+  'uncertainty.coefficients': 'Coeficientes do modelo (±)',
+  'uncertainty.runs': '{runs} simulações',
+  'uncertainty.monthlyLoss': 'Desperdício mensal',
+  'uncertainty.annualLoss': 'Desperdício anual',
+  'uncertainty.efficiency': 'Eficiência',
+  'uncertainty.histogram': 'Distribuição do desperdício anual',
+  'uncertainty.frequency': 'Simulações',
+  'uncertainty.range': 'P10–P90: {low} – {high}',
+  'uncertainty.approxNote': 'Com canais, equipe, funil ou distribuição do tempo de resposta ativos, a simulação usa os valores equivalentes da operação inteira.',
+
+  // Guided wizard
+  'wizard.title': 'Descubra quanto sua empresa perde com contatos mal atendidos',
+  'wizard.progress': 'Passo {step} de {total}',
+  'wizard.back': 'Voltar',
+  'wizard.next': 'Próximo',
+  'wizard.finish': 'Ver meu diagnóstico',
+  'wizard.dontKnow': 'Não sei — usar a média do setor',
+  'wizard.expert': 'Pular para a visão especialista',
+  'wizard.segment.question': 'Qual é o ramo da sua empresa?',
+  'wizard.segment.hint': 'Quando você não souber uma resposta, usamos a média do seu setor.',
+  'wizard.segment.other': 'Outro / não sei',
+  'wizard.leads.question': 'Quantos novos contatos interessados sua empresa recebe por mês?',
+  'wizard.leads.hint': 'Some todos os canais: formulários, WhatsApp, telefone e redes sociais.',
+  'wizard.conversion.question': 'De cada 100 contatos, quantos viram clientes?',
+  'wizard.conversion.hint': 'Essa é a sua taxa de conversão.',
+  'wizard.ticket.question': 'Quanto um cliente gasta, em média, em cada compra?',
+  'wizard.ticket.hint': 'Esse é o seu ticket médio.',
+  'wizard.followUps.question': 'Quando um contato não responde, quantas vezes sua equipe tenta de novo?',
+  'wizard.followUps.hint': 'Conte ligações, mensagens e e-mails depois da primeira tentativa.',
+  'wizard.responseTime.question': 'Quanto tempo sua equipe costuma levar para responder um novo contato?',
+  'wizard.responseTime.hint': 'Pense no tempo entre a chegada do contato e a primeira resposta.',
+  'wizard.estimated': 'Estimamos **{inputs}** com a média do setor. Ajuste esses valores na barra lateral quando tiver os números reais.',
+
+  // History
+  'history.title': 'Diagnósticos salvos',
+  'history.close': 'Fechar',
+  'history.nameLabel': 'Cliente ou empresa',
+  'history.namePlaceholder': 'Ex.: Imobiliária Central',
+  'history.save': 'Salvar',
+  'history.storageNote': 'Os diagnósticos ficam salvos apenas neste navegador.',
+  'history.empty': 'Nenhum diagnóstico salvo ainda.',
+  'history.open': 'Abrir',
+  'history.delete': 'Excluir',
+  'history.deleteConfirm': 'Excluir o diagnóstico "{name}"?',
+  'history.savedAt': 'Salvo em {date}',
+  'history.annualLoss': 'Perda anual ao salvar: {amount}',
+  'history.modelVersion': 'Modelo {version}',
+  'history.reopened': 'Você está vendo **{name}**, salvo em {date}.',
+  'history.recalculated': 'Ele foi salvo com o modelo {saved} e recalculado com o modelo atual ({current}), então os valores podem mudar.',
+  'history.resetConfirm': 'Voltar todos os valores ao padrão? Você pode desfazer depois.',
+  'notice.dismiss': 'Fechar',
+
+  // Accessibility
+  'a11y.monthlyLoss': 'Perda mensal estimada: {amount}',
+
+  // Team mode
+  'team.title': 'Perda por vendedor',
+  'team.efficiency': 'Eficiência da equipe',
+  'team.worst': '**{name}** é quem mais perde: **{amount}** por mês.',
+  'team.name': 'Vendedor',
+  'team.namePlaceholder': 'Nome do vendedor',
+  'team.unnamed': 'Vendedor {n}',
+  'team.add': 'Adicionar vendedor',
+  'team.remove': 'Remover {name}',
+
+  // Goal seek
+  'goal.title': 'O que mudar para bater a meta?',
+  'goal.description': 'Informe quanto a mais você quer faturar por mês, ou a eficiência desejada, e veja o mínimo de follow-ups e o tempo de resposta máximo que chegam lá pelo modelo atual.',
+  'goal.approxNote': 'Com canais, equipe, funil ou distribuição do tempo de resposta ativos, a meta é calculada sobre os valores equivalentes da operação inteira, então o ponto de partida pode diferir do painel.',
+  'goal.metricRevenue': 'Receita extra',
+  'goal.metricEfficiency': 'Eficiência',
+  'goal.targetRevenue': 'Receita extra por mês',
+  'goal.targetEfficiency': 'Eficiência desejada',
+  'goal.levers': 'Alavancas',
+  'goal.leversBoth': 'Follow-up e resposta',
+  'goal.leversFollowUps': 'Só follow-up',
+  'goal.leversResponseTime': 'Só tempo de resposta',
+  'goal.alreadyMet': 'A operação atual já atinge a meta de **{target}**.',
+  'goal.reachable': 'Meta de **{target}** alcançável com as mudanças abaixo.',
+  'goal.unreachable': 'A meta de **{target}** não é alcançável só com essas alavancas. O máximo é **{best}** por mês ({efficiency}% de eficiência); para ir além, é preciso mais leads, conversão ou ticket.',
+  'goal.extraRevenue': 'Receita extra/mês',
+  'goal.pathTitle': 'Passo a passo',
+  'goal.stepFollowUps': 'Subir para {followUps} tentativas de follow-up',
+  'goal.stepResponseTime': 'Responder em até {time}',
+  'goal.stepOutcome': '+{amount}/mês acumulado · {efficiency}% de eficiência',
+  'goal.apply': 'Aplicar nos controles',
+  'goal.applyDisabled': 'Com canais, equipe, distribuição do tempo de resposta ou cadência ativos, ajuste cada parte na barra lateral.',
+
+  // Acquisition costs
+  'costs.sectionTitle': 'Custos de marketing e vendas',
+  'costs.enable': 'Incluir custos de aquisição',
+  'costs.hint': 'Opcional: mostra quanto do investimento em marketing vai para leads perdidos e o efeito no CAC e no ROAS.',
+  'costs.basisMonthly': 'Investimento mensal',
+  'costs.basisPerLead': 'Custo por lead',
+  'costs.marketingMonthly': 'Investimento em marketing/mês',
+  'costs.marketingPerLead': 'Custo por lead',
+  'costs.salesTeam': 'Custo do time de vendas/mês',
+  'costs.title': 'Custo de Aquisição',
+  'costs.summary': 'Cada venda perdida começou como um lead já pago ({costPerLead} por lead). São **{amount}** de marketing por mês jogados fora em leads perdidos por demora e falta de follow-up.',
+  'costs.wastedMonth': 'Marketing desperdiçado/mês',
+  'costs.wastedYear': 'Marketing desperdiçado/ano',
+  'costs.cac': 'CAC (atual → potencial)',
+  'costs.roas': 'ROAS (atual → potencial)',
+  'costs.currentToPotential': '{current} → {potential}',
+
+  // Follow-up cadence
+  'cadence.hint': 'Cada contato conta conforme o canal e o dia: leads esfriam com o tempo e vários contatos no mesmo dia rendem menos.',
+  'cadence.day': 'Dia',
+  'cadence.channel': 'Canal',
+  'cadence.remove': 'Remover',
+  'cadence.dayLabel': 'Dia do contato {n}',
+  'cadence.channelLabel': 'Canal do contato {n}',
+  'cadence.removeLabel': 'Remover contato {n}',
+  'cadence.add': 'Adicionar contato',
+  'cadence.channel.call': 'Ligação',
+  'cadence.channel.whatsapp': 'WhatsApp',
+  'cadence.channel.email': 'E-mail',
+  'cadence.effective': 'Equivale a {count} tentativas de follow-up.',
+  'cadence.warningCompressed': 'Cadência muito concentrada: contatos demais em poucos dias soam como insistência e rendem pouco. Espalhe os contatos.',
+  'cadence.warningStopsEarly': 'A cadência para cedo: mantenha contato pelo menos até o dia {days}, pois muitos leads só respondem depois.',
+  'cadence.title': 'Contribuição de cada contato',
+  'cadence.summary': 'A cadência de {touches} contatos recupera **{amount}** por mês em relação a não fazer follow-up.',
+  'cadence.approxNote': 'Com canais, funil ou distribuição do tempo de resposta ativos, as contribuições usam os valores equivalentes da operação inteira e podem diferir da perda no painel.',
+  'cadence.touchLabel': 'D{day} · {channel}',
+  'cadence.recovered': 'Receita recuperada/mês',
+};
+
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, string>;
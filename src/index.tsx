@@ -2,9 +2,20 @@ import './index.css';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './i18n/I18nProvider';
+import { applyThemeColors, getThemeMessages, loadTheme } from './theme';
+import { ThemeProvider } from './theme/ThemeProvider';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-);
+// The theme is resolved before the first render so the page never flashes the default brand
+loadTheme(window.location.search).then((theme) => {
+  applyThemeColors(theme.colors);
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <ThemeProvider theme={theme}>
+        <I18nProvider overrides={getThemeMessages(theme)} productName={theme.productName}>
+          <App />
+        </I18nProvider>
+      </ThemeProvider>
+    </React.StrictMode>,
+  );
+});
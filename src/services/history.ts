@@ -0,0 +1,98 @@
+import { CalculationResult, MODEL_VERSION } from '../engine/diagnostic';
+
+// --- Diagnostic History ---
+// The current diagnostic is autosaved to localStorage, and named diagnostics are kept in a list.
+// Both store the share-link query string (see utils/shareLink) rather than the results, so they
+// reopen with whatever model is current. The model version they were saved with tells the user
+// when the figures may differ from the ones they saw.
+
+export interface SavedDiagnostic {
+  id: string;
+  name: string;          // Prospect or company
+  savedAt: string;       // ISO timestamp
+  modelVersion: string;
+  query: string;
+  totalLossAnnual: number; // As calculated when saved, for the list
+}
+
+interface Autosave {
+  modelVersion: string;
+  query: string;
+}
+
+const AUTOSAVE_STORAGE_KEY = 'abil:autosave';
+const HISTORY_STORAGE_KEY = 'abil:history';
+const MAX_SAVED = 100;
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or unavailable (private mode): the diagnostic just won't persist
+  }
+};
+
+const isSavedDiagnostic = (value: unknown): value is SavedDiagnostic => {
+  const record = value as Partial<SavedDiagnostic> | null;
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    typeof record.id === 'string' &&
+    typeof record.name === 'string' &&
+    typeof record.savedAt === 'string' &&
+    typeof record.modelVersion === 'string' &&
+    typeof record.query === 'string' &&
+    typeof record.totalLossAnnual === 'number'
+  );
+};
+
+// --- Autosave ---
+
+export const readAutosave = (): string | null => {
+  const autosave = readJson(AUTOSAVE_STORAGE_KEY) as Partial<Autosave> | null;
+  return typeof autosave?.query === 'string' ? autosave.query : null;
+};
+
+export const writeAutosave = (query: string) => {
+  const autosave: Autosave = { modelVersion: MODEL_VERSION, query };
+  writeJson(AUTOSAVE_STORAGE_KEY, autosave);
+};
+
+// --- Saved Diagnostics ---
+
+// Newest first; malformed records are dropped
+export const getSavedDiagnostics = (): SavedDiagnostic[] => {
+  const stored = readJson(HISTORY_STORAGE_KEY);
+  return Array.isArray(stored) ? stored.filter(isSavedDiagnostic) : [];
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveDiagnostic = (name: string, query: string, result: CalculationResult): SavedDiagnostic[] => {
+  const record: SavedDiagnostic = {
+    id: createId(),
+    name: name.trim(),
+    savedAt: new Date().toISOString(),
+    modelVersion: result.modelVersion,
+    query,
+    totalLossAnnual: result.totalLossAnnual,
+  };
+  const saved = [record, ...getSavedDiagnostics()].slice(0, MAX_SAVED);
+  writeJson(HISTORY_STORAGE_KEY, saved);
+  return saved;
+};
+
+export const deleteSavedDiagnostic = (id: string): SavedDiagnostic[] => {
+  const saved = getSavedDiagnostics().filter((record) => record.id !== id);
+  writeJson(HISTORY_STORAGE_KEY, saved);
+  return saved;
+};
@@ -0,0 +1,135 @@
+import { CalculationResult, DiagnosticInputs } from '../engine/diagnostic';
+import { normalizeBrazilianPhone } from '../utils/validation';
+
+// --- Lead Capture ---
+// Contacts are POSTed as JSON to VITE_LEAD_ENDPOINT. Failed submissions are queued in
+// localStorage and retried later. With VITE_LEAD_MOCK=true (or no endpoint in dev) nothing
+// leaves the browser: the submission simply succeeds after a short delay.
+
+export interface LeadContact {
+  name: string;
+  company: string;
+  email: string;
+  whatsapp: string;
+  segment: string;
+  consent: boolean;
+}
+
+export interface LeadPayload {
+  contact: LeadContact;
+  inputs: DiagnosticInputs;
+  result: CalculationResult;
+  submittedAt: string;
+  pageUrl: string;
+}
+
+export type SubmitOutcome = 'sent' | 'queued';
+
+interface QueuedLead {
+  payload: LeadPayload;
+  attempts: number;
+}
+
+const QUEUE_STORAGE_KEY = 'abil:lead-queue';
+const MAX_ATTEMPTS = 10;
+const MOCK_DELAY_MS = 600;
+
+export const getLeadConfig = () => {
+  const endpoint = import.meta.env.VITE_LEAD_ENDPOINT?.trim() || '';
+  const mock = import.meta.env.VITE_LEAD_MOCK === 'true' || (!endpoint && import.meta.env.DEV);
+  return { endpoint, mock };
+};
+
+export const buildLeadPayload = (contact: LeadContact, inputs: DiagnosticInputs, result: CalculationResult): LeadPayload => ({
+  contact: {
+    ...contact,
+    name: contact.name.trim(),
+    company: contact.company.trim(),
+    email: contact.email.trim().toLowerCase(),
+    whatsapp: `+55${normalizeBrazilianPhone(contact.whatsapp)}`,
+  },
+  inputs,
+  result,
+  submittedAt: new Date().toISOString(),
+  pageUrl: window.location.href,
+});
+
+// --- Queue ---
+
+const readQueue = (): QueuedLead[] => {
+  try {
+    const raw = window.localStorage.getItem(QUEUE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedLead[]) => {
+  try {
+    if (queue.length) window.localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    else window.localStorage.removeItem(QUEUE_STORAGE_KEY);
+  } catch {
+    // Storage full or unavailable (private mode): nothing else we can do
+  }
+};
+
+const enqueue = (payload: LeadPayload) => {
+  writeQueue([...readQueue(), { payload, attempts: 1 }]);
+};
+
+export const getQueuedLeadCount = () => readQueue().length;
+
+// --- Transport ---
+
+const postLead = async (payload: LeadPayload) => {
+  const { endpoint, mock } = getLeadConfig();
+
+  if (mock) {
+    await new Promise((resolve) => window.setTimeout(resolve, MOCK_DELAY_MS));
+    return;
+  }
+
+  if (!endpoint) throw new Error('VITE_LEAD_ENDPOINT is not configured');
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw new Error(`Lead endpoint responded with ${response.status}`);
+};
+
+export const submitLead = async (payload: LeadPayload): Promise<SubmitOutcome> => {
+  try {
+    await postLead(payload);
+    return 'sent';
+  } catch {
+    enqueue(payload);
+    return 'queued';
+  }
+};
+
+let flushing = false;
+
+// Retries every queued lead once; leads that keep failing are dropped after MAX_ATTEMPTS.
+export const flushLeadQueue = async () => {
+  if (flushing) return;
+  const queue = readQueue();
+  if (!queue.length) return;
+
+  flushing = true;
+  const remaining: QueuedLead[] = [];
+  for (const item of queue) {
+    try {
+      await postLead(item.payload);
+    } catch {
+      if (item.attempts + 1 < MAX_ATTEMPTS) remaining.push({ ...item, attempts: item.attempts + 1 });
+    }
+  }
+  // Anything queued while flushing is kept as well
+  const added = readQueue().slice(queue.length);
+  writeQueue([...remaining, ...added]);
+  flushing = false;
+};
@@ -0,0 +1,72 @@
+import { DiagnosticInputs, ModelCoefficients } from '../engine/diagnostic';
+import { runMonteCarlo, SimulationSummary, UncertaintyOptions } from '../engine/monteCarlo';
+
+// --- Simulation Worker Client ---
+// Monte Carlo runs go to a single shared Web Worker so the sliders stay responsive. Only the
+// latest request resolves with a summary; older ones still in flight resolve with null.
+// Browsers without module workers, or a worker that fails, fall back to the main thread.
+
+export interface SimulationRequest {
+  id: number;
+  inputs: DiagnosticInputs;
+  uncertainty: UncertaintyOptions;
+  coefficients: ModelCoefficients;
+}
+
+export interface SimulationResponse {
+  id: number;
+  summary: SimulationSummary;
+}
+
+let worker: Worker | null = null;
+let lastId = 0;
+const pending = new Map<number, { request: SimulationRequest; resolve: (summary: SimulationSummary | null) => void }>();
+
+// A worker that fails to load or crashes is dropped, so the next run creates a new one; whatever
+// was waiting on it finishes on the main thread instead of hanging
+const handleWorkerFailure = () => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(({ request, resolve }, id) => {
+    resolve(id === lastId ? runMonteCarlo(request.inputs, request.uncertainty, request.coefficients) : null);
+  });
+  pending.clear();
+};
+
+const getWorker = () => {
+  if (worker || typeof Worker === 'undefined') return worker;
+  try {
+    worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+      const { id, summary } = event.data;
+      pending.get(id)?.resolve(id === lastId ? summary : null);
+      pending.delete(id);
+    };
+    worker.onerror = handleWorkerFailure;
+    worker.onmessageerror = handleWorkerFailure;
+  } catch {
+    worker = null;
+  }
+  return worker;
+};
+
+// Resolves with null when a newer simulation was requested before this one finished.
+export const runSimulation = (
+  inputs: DiagnosticInputs,
+  uncertainty: UncertaintyOptions,
+  coefficients: ModelCoefficients,
+): Promise<SimulationSummary | null> => {
+  const target = getWorker();
+  if (!target) return Promise.resolve(runMonteCarlo(inputs, uncertainty, coefficients));
+
+  const id = ++lastId;
+  return new Promise((resolve) => {
+    const request: SimulationRequest = { id, inputs, uncertainty, coefficients };
+    pending.set(id, { request, resolve });
+    try {
+      target.postMessage(request);
+    } catch {
+      handleWorkerFailure();
+    }
+  });
+};
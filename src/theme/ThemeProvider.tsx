@@ -0,0 +1,13 @@
+import React, { createContext, useContext } from 'react';
+import { DEFAULT_THEME, Theme } from './index';
+
+// --- Theme Context ---
+// The theme is loaded once before the first render (see index.tsx) and never changes afterwards.
+
+const ThemeContext = createContext<Theme>(DEFAULT_THEME);
+
+export const ThemeProvider = ({ theme, children }: { theme: Theme; children: React.ReactNode }) => (
+  <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>
+);
+
+export const useTheme = () => useContext(ThemeContext);
@@ -0,0 +1,177 @@
+import { isLocale, Locale, LOCALES, MessageKey, MessageOverrides } from '../i18n';
+
+// --- White-label Theme ---
+// Brand colors, logo, product name, CTA and copy come from a theme JSON, picked with ?theme=<id>
+// (public/themes/<id>.json), VITE_THEME_URL, or the built-in Abil theme. Colors are exposed to
+// Tailwind as CSS variables (`primary`, `accent`, ...) and to charts through useTheme().
+
+export interface ThemeColors {
+  primary: string;
+  primaryDark: string;  // Gradients and hover states
+  primaryLight: string;
+  accent: string;
+  accentDark: string;
+  accentLight: string;
+}
+
+export interface ThemeLogo {
+  text: string;       // Main block of the text logo
+  badge: string;      // Accent block next to it; empty hides it
+  imageUrl?: string;  // Replaces the text logo when set
+}
+
+// Either one text for every language or one per locale
+export type LocalizedText = string | Partial<Record<Locale, string>>;
+
+export interface Theme {
+  id: string;
+  productName: string;
+  colors: ThemeColors;
+  logo: ThemeLogo;
+  cta: {
+    label?: LocalizedText;
+    url?: string; // Opens in a new tab instead of the built-in contact form
+  };
+  footer: {
+    lossMessage?: LocalizedText;
+    optimizedMessage?: LocalizedText;
+  };
+  messages: MessageOverrides; // Any other copy, by message key
+}
+
+export const DEFAULT_THEME: Theme = {
+  id: 'abil',
+  productName: 'Abil CRM',
+  colors: {
+    primary: '#003366',      // Deep Royal Blue
+    primaryDark: '#002244',
+    primaryLight: '#004488',
+    accent: '#FF6600',       // Vibrant Orange
+    accentDark: '#e65c00',
+    accentLight: '#FF8533',
+  },
+  logo: {
+    text: 'abil',
+    badge: 'CRM',
+  },
+  cta: {},
+  footer: {},
+  messages: {},
+};
+
+const THEME_ID_PATTERN = /^[a-z0-9-]+$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// --- Parsing ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const readString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const readLocalizedText = (value: unknown): LocalizedText | undefined => {
+  if (typeof value === 'string') return readString(value);
+  if (!isRecord(value)) return undefined;
+  const texts: Partial<Record<Locale, string>> = {};
+  Object.entries(value).forEach(([locale, text]) => {
+    const safeText = readString(text);
+    if (isLocale(locale) && safeText) texts[locale] = safeText;
+  });
+  return Object.keys(texts).length > 0 ? texts : undefined;
+};
+
+// Only http(s) and same-site paths; anything else could run script from a crafted theme
+const readUrl = (value: unknown) => {
+  const url = readString(value);
+  return url && /^(https?:\/\/|\/)/.test(url) ? url : undefined;
+};
+
+// Fills anything missing or invalid from the default theme.
+export const resolveTheme = (raw: unknown, id = DEFAULT_THEME.id): Theme => {
+  if (!isRecord(raw)) return DEFAULT_THEME;
+  const colors = { ...DEFAULT_THEME.colors };
+  if (isRecord(raw.colors)) {
+    (Object.keys(colors) as (keyof ThemeColors)[]).forEach((key) => {
+      const value = (raw.colors as Record<string, unknown>)[key];
+      if (typeof value === 'string' && HEX_COLOR_PATTERN.test(value)) colors[key] = value;
+    });
+  }
+  const logo = isRecord(raw.logo) ? raw.logo : {};
+  const cta = isRecord(raw.cta) ? raw.cta : {};
+  const footer = isRecord(raw.footer) ? raw.footer : {};
+  const messages: MessageOverrides = {};
+  if (isRecord(raw.messages)) {
+    Object.entries(raw.messages).forEach(([locale, overrides]) => {
+      if (!isLocale(locale) || !isRecord(overrides)) return;
+      messages[locale] = Object.fromEntries(
+        Object.entries(overrides).filter(([, text]) => typeof text === 'string')
+      ) as Partial<Record<MessageKey, string>>;
+    });
+  }
+
+  return {
+    id,
+    productName: readString(raw.productName) ?? DEFAULT_THEME.productName,
+    colors,
+    logo: {
+      text: typeof logo.text === 'string' ? logo.text : DEFAULT_THEME.logo.text,
+      badge: typeof logo.badge === 'string' ? logo.badge : DEFAULT_THEME.logo.badge,
+      imageUrl: readUrl(logo.imageUrl),
+    },
+    cta: { label: readLocalizedText(cta.label), url: readUrl(cta.url) },
+    footer: {
+      lossMessage: readLocalizedText(footer.lossMessage),
+      optimizedMessage: readLocalizedText(footer.optimizedMessage),
+    },
+    messages,
+  };
+};
+
+// The CTA and footer fields are shorthands for their message keys; `messages` wins over them.
+export const getThemeMessages = (theme: Theme): MessageOverrides => {
+  const shorthands: [MessageKey, LocalizedText | undefined][] = [
+    ['footer.cta', theme.cta.label],
+    ['footer.lossMessage', theme.footer.lossMessage],
+    ['footer.optimizedMessage', theme.footer.optimizedMessage],
+  ];
+  const messages: MessageOverrides = {};
+  LOCALES.forEach(({ id: locale }) => {
+    const overrides: Partial<Record<MessageKey, string>> = {};
+    shorthands.forEach(([key, text]) => {
+      const localized = typeof text === 'string' ? text : text?.[locale];
+      if (localized) overrides[key] = localized;
+    });
+    messages[locale] = { ...overrides, ...theme.messages[locale] };
+  });
+  return messages;
+};
+
+// --- Loading ---
+
+export const loadTheme = async (search: string): Promise<Theme> => {
+  const id = new URLSearchParams(search).get('theme');
+  const url = id && THEME_ID_PATTERN.test(id)
+    ? `${import.meta.env.BASE_URL}themes/${id}.json`
+    : import.meta.env.VITE_THEME_URL?.trim();
+  if (!url) return DEFAULT_THEME;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return resolveTheme(await response.json(), id ?? 'custom');
+  } catch {
+    // Missing or invalid theme file: the calculator still opens with the default brand
+    return DEFAULT_THEME;
+  }
+};
+
+const toRgbChannels = (hex: string) =>
+  [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16)).join(' ');
+
+// Sets the CSS variables behind the Tailwind `primary` / `accent` colors (see tailwind.config.js).
+export const applyThemeColors = (colors: ThemeColors, root: HTMLElement = document.documentElement) => {
+  root.style.setProperty('--color-primary', toRgbChannels(colors.primary));
+  root.style.setProperty('--color-primary-dark', toRgbChannels(colors.primaryDark));
+  root.style.setProperty('--color-primary-light', toRgbChannels(colors.primaryLight));
+  root.style.setProperty('--color-accent', toRgbChannels(colors.accent));
+  root.style.setProperty('--color-accent-dark', toRgbChannels(colors.accentDark));
+  root.style.setProperty('--color-accent-light', toRgbChannels(colors.accentLight));
+};
@@ -0,0 +1,27 @@
+import { CalculationResult } from '../engine/diagnostic';
+import { I18n } from '../i18n';
+import { ThemeColors } from '../theme';
+
+// --- Chart Data ---
+export const getRevenueBarData = (result: CalculationResult, { t }: I18n, colors: ThemeColors) => [
+  {
+    name: t('chart.currentSales'),
+    value: result.currentRevenue,
+    fill: colors.primary, 
+  },
+  {
+    name: t('chart.followUpLoss'),
+    value: result.followUpLossRevenue,
+    fill: colors.accentLight, 
+  },
+  {
+    name: t('chart.responseLoss'),
+    value: result.responseLossRevenue,
+    fill: colors.accent, 
+  },
+];
+
+export const getLossPieData = (result: CalculationResult, { t }: I18n, colors: ThemeColors) => [
+  { name: t('chart.followUpLossShare'), value: result.followUpLossAnnual, color: colors.accentLight },
+  { name: t('chart.responseLossShare'), value: result.responseLossAnnual, color: colors.accent },
+].filter(d => d.value > 0);
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { deriveInputsFromRows, guessMapping, parseDateCell, parseNumberCell, parseWonCell } from './crmImport';
+
+describe('parseNumberCell', () => {
+  it('reads both decimal conventions', () => {
+    expect(parseNumberCell('1234.56')).toBe(1234.56);
+    expect(parseNumberCell('1,234.56')).toBe(1234.56);
+    expect(parseNumberCell('1.234,56')).toBe(1234.56);
+    expect(parseNumberCell('7,5')).toBe(7.5);
+  });
+
+  it('reads a lone separator before three digits as thousands', () => {
+    expect(parseNumberCell('1.234')).toBe(1234);
+    expect(parseNumberCell('1,234')).toBe(1234);
+    expect(parseNumberCell('1.234.567')).toBe(1234567);
+  });
+
+  it('ignores currency symbols and spaces', () => {
+    expect(parseNumberCell('R$ 1.500,00')).toBe(1500);
+    expect(parseNumberCell(' $2,000 ')).toBe(2000);
+  });
+
+  it('returns null without a valid number', () => {
+    expect(parseNumberCell('')).toBeNull();
+    expect(parseNumberCell('n/a')).toBeNull();
+    expect(parseNumberCell('1-2')).toBeNull();
+  });
+});
+
+describe('parseDateCell', () => {
+  it('reads ISO dates', () => {
+    expect(parseDateCell('2024-03-01T10:00:00Z')).toBe(Date.UTC(2024, 2, 1, 10));
+    expect(parseDateCell('2024-03-01 10:00:00Z')).toBe(Date.UTC(2024, 2, 1, 10));
+  });
+
+  it('reads dd/mm/yyyy dates in local time', () => {
+    expect(parseDateCell('05/03/2024')).toBe(new Date(2024, 2, 5).getTime());
+    expect(parseDateCell('05/03/2024 14:30')).toBe(new Date(2024, 2, 5, 14, 30).getTime());
+  });
+
+  it('reads Unix timestamps in seconds and milliseconds', () => {
+    expect(parseDateCell('1700000000')).toBe(1700000000000);
+    expect(parseDateCell('1700000000000')).toBe(1700000000000);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseDateCell('')).toBeNull();
+    expect(parseDateCell('yesterday')).toBeNull();
+    expect(parseDateCell('2024-13-45')).toBeNull();
+    expect(parseDateCell('123')).toBeNull();
+  });
+});
+
+describe('parseWonCell', () => {
+  it('accepts the usual "won" markers in any language and case', () => {
+    expect(['Won', 'sim', 'Ganho', 'sí', 'TRUE', '1'].every(parseWonCell)).toBe(true);
+    expect(['lost', '0', '', 'perdido'].some(parseWonCell)).toBe(false);
+  });
+});
+
+describe('guessMapping', () => {
+  it('matches headers loosely and leaves unknown fields unmapped', () => {
+    expect(guessMapping(['Data de Criação', 'Tentativas', 'Status', 'Valor'])).toEqual({
+      createdAt: 0,
+      firstResponseAt: null,
+      attempts: 1,
+      won: 2,
+      dealValue: 3,
+    });
+  });
+});
+
+describe('deriveInputsFromRows', () => {
+  const mapping = { createdAt: 0, firstResponseAt: 1, attempts: 2, won: 3, dealValue: 4 };
+
+  it('derives the inputs from valid rows and reports the rest', () => {
+    const { inputs, quality } = deriveInputsFromRows(
+      [
+        ['2024-03-01T10:00:00Z', '2024-03-01T10:30:00Z', '3', 'won', '1000'],
+        ['2024-03-02T10:00:00Z', '2024-03-02T11:30:00Z', '5', 'lost', ''],
+        ['2024-03-03T10:00:00Z', '2024-03-03T09:00:00Z', 'x', 'won', ''],
+        ['not a date', '', '', '', ''],
+      ],
+      mapping,
+    );
+
+    expect(inputs).toEqual({ leads: 10, conversion: 66.7, ticket: 1000, followUps: 4, responseTime: 60 });
+    expect(quality).toMatchObject({
+      totalRows: 4,
+      usedRows: 3,
+      skippedRows: 1,
+      negativeResponse: 1,
+      missingAttempts: 1,
+      wonWithoutValue: 1,
+      months: 1,
+    });
+  });
+
+  it('provides no inputs when no row has a creation date', () => {
+    const { inputs, quality } = deriveInputsFromRows([['', '', '', '', '']], mapping);
+    expect(inputs).toEqual({});
+    expect(quality.periodStart).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { clampInput, DiagnosticInputs } from '../engine/diagnostic';
+
+// --- CRM Import ---
+// Derives the calculator inputs from a lead export: one row per lead, mapped to the fields below.
+// Everything runs in the browser; the file never leaves the page.
+
+export type CrmField = 'createdAt' | 'firstResponseAt' | 'attempts' | 'won' | 'dealValue';
+
+// Column index per field, null when the export has no such column
+export type ColumnMapping = Record<CrmField, number | null>;
+
+export interface ImportQuality {
+  totalRows: number;
+  usedRows: number;          // Rows with a valid creation date
+  skippedRows: number;       // Rows without one
+  missingResponse: number;   // Used rows without a usable first response timestamp
+  negativeResponse: number;  // First response before creation, ignored
+  missingAttempts: number;
+  wonWithoutValue: number;
+  periodStart: number | null; // Epoch ms
+  periodEnd: number | null;
+  months: number;            // Length of the period the monthly figures are based on
+}
+
+export interface CrmImportResult {
+  inputs: Partial<DiagnosticInputs>; // Only the inputs the mapped columns could provide
+  quality: ImportQuality;
+}
+
+export const CRM_FIELDS: CrmField[] = ['createdAt', 'firstResponseAt', 'attempts', 'won', 'dealValue'];
+
+export const REQUIRED_CRM_FIELDS: CrmField[] = ['createdAt'];
+
+const HEADER_ALIASES: Record<CrmField, string[]> = {
+  createdAt: ['created_at', 'createdat', 'created', 'created date', 'date', 'criado_em', 'criado em', 'data', 'data_criacao', 'data de criacao', 'fecha', 'fecha_creacion'],
+  firstResponseAt: ['first_response_at', 'first response', 'first_contact_at', 'primeira_resposta', 'primeira resposta', 'primeiro_contato', 'data_primeira_resposta', 'primera_respuesta'],
+  attempts: ['attempts', 'attempt_count', 'follow_ups', 'followups', 'touches', 'tentativas', 'qtd_tentativas', 'follow-ups', 'intentos'],
+  won: ['won', 'is_won', 'closed_won', 'status', 'ganho', 'ganhou', 'venda', 'vendido', 'ganado'],
+  dealValue: ['deal_value', 'value', 'amount', 'revenue', 'valor', 'valor_venda', 'valor do negocio', 'ticket', 'monto'],
+};
+
+const WON_VALUES = ['1', 'true', 'yes', 'y', 'won', 'closed won', 'sim', 's', 'ganho', 'ganha', 'vendido', 'venda', 'si', 'ganado', 'x'];
+
+const AVERAGE_MONTH_MS = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  CRM_FIELDS.forEach((field) => {
+    const index = normalized.findIndex((h) => HEADER_ALIASES[field].includes(h));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+};
+
+// --- Cell Parsing ---
+
+// ISO 8601, "dd/mm/yyyy[ hh:mm[:ss]]" (local time) or Unix timestamps in seconds or milliseconds.
+export const parseDateCell = (raw: string): number | null => {
+  const value = raw.trim();
+  if (!value) return null;
+
+  if (/^\d{10}$/.test(value)) return Number(value) * 1000;
+  if (/^\d{13}$/.test(value)) return Number(value);
+
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (br) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = br;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    return Number.isNaN(date.getTime()) ? null : date.getTime();
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const time = Date.parse(value.replace(' ', 'T'));
+    return Number.isNaN(time) ? null : time;
+  }
+
+  return null;
+};
+
+// Accepts "1234.56", "1,234.56", "1.234,56", "R$ 1.234" and similar. The last separator followed by
+// one or two digits is the decimal one; a lone "." or "," followed by three digits groups thousands.
+export const parseNumberCell = (raw: string): number | null => {
+  const value = raw.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(value)) return null;
+
+  const lastSeparator = Math.max(value.lastIndexOf('.'), value.lastIndexOf(','));
+  const decimals = lastSeparator >= 0 ? value.length - lastSeparator - 1 : 0;
+  const isDecimal = lastSeparator >= 0 && decimals !== 3;
+
+  const integerPart = (isDecimal ? value.slice(0, lastSeparator) : value).replace(/[.,]/g, '');
+  const number = Number(isDecimal ? `${integerPart}.${value.slice(lastSeparator + 1)}` : integerPart);
+  return Number.isFinite(number) ? number : null;
+};
+
+export const parseWonCell = (raw: string) => WON_VALUES.includes(normalizeHeader(raw));
+
+// --- Derivation ---
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const cell = (row: string[], index: number | null) => (index === null ? '' : row[index] ?? '');
+
+// `rows` are the data rows, without the header.
+export const deriveInputsFromRows = (rows: string[][], mapping: ColumnMapping): CrmImportResult => {
+  const createdTimes: number[] = [];
+  const responseMinutes: number[] = [];
+  const attempts: number[] = [];
+  const wonValues: number[] = [];
+  let wonCount = 0;
+  let missingResponse = 0;
+  let negativeResponse = 0;
+  let missingAttempts = 0;
+  let wonWithoutValue = 0;
+
+  rows.forEach((row) => {
+    const createdAt = parseDateCell(cell(row, mapping.createdAt));
+    if (createdAt === null) return;
+    createdTimes.push(createdAt);
+
+    if (mapping.firstResponseAt !== null) {
+      const respondedAt = parseDateCell(cell(row, mapping.firstResponseAt));
+      if (respondedAt === null) missingResponse++;
+      else if (respondedAt < createdAt) negativeResponse++;
+      else responseMinutes.push((respondedAt - createdAt) / 60000);
+    }
+
+    if (mapping.attempts !== null) {
+      const count = parseNumberCell(cell(row, mapping.attempts));
+      if (count === null || count < 0) missingAttempts++;
+      else attempts.push(count);
+    }
+
+    if (mapping.won !== null && parseWonCell(cell(row, mapping.won))) {
+      wonCount++;
+      const value = mapping.dealValue !== null ? parseNumberCell(cell(row, mapping.dealValue)) : null;
+      if (value !== null && value > 0) wonValues.push(value);
+      else wonWithoutValue++;
+    }
+  });
+
+  const usedRows = createdTimes.length;
+  // reduce instead of Math.min(...) so large exports don't overflow the call stack
+  const periodStart = usedRows ? createdTimes.reduce((min, t) => Math.min(min, t)) : null;
+  const periodEnd = usedRows ? createdTimes.reduce((max, t) => Math.max(max, t)) : null;
+  // Anything shorter than a month counts as one month
+  const months = periodStart !== null && periodEnd !== null ? Math.max(1, (periodEnd - periodStart) / AVERAGE_MONTH_MS) : 1;
+
+  const inputs: Partial<DiagnosticInputs> = {};
+  if (usedRows > 0) {
+    inputs.leads = clampInput('leads', Math.round(usedRows / months));
+    if (mapping.won !== null) inputs.conversion = clampInput('conversion', Math.round((wonCount / usedRows) * 1000) / 10);
+  }
+  if (wonValues.length > 0) {
+    inputs.ticket = clampInput('ticket', Math.round(wonValues.reduce((sum, v) => sum + v, 0) / wonValues.length));
+  }
+  const medianAttempts = median(attempts);
+  if (medianAttempts !== null) inputs.followUps = clampInput('followUps', Math.round(medianAttempts));
+  const medianResponse = median(responseMinutes);
+  if (medianResponse !== null) inputs.responseTime = clampInput('responseTime', Math.round(medianResponse));
+
+  return {
+    inputs,
+    quality: {
+      totalRows: rows.length,
+      usedRows,
+      skippedRows: rows.length - usedRows,
+      missingResponse,
+      negativeResponse,
+      missingAttempts,
+      wonWithoutValue,
+      periodStart,
+      periodEnd,
+      months,
+    },
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv } from './csv';
+
+describe('detectDelimiter', () => {
+  it('picks the most frequent separator in the header', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',');
+    expect(detectDelimiter('a;b;c\n1,5;2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\tc')).toBe('\t');
+  });
+
+  it('ignores separators inside quoted headers', () => {
+    expect(detectDelimiter('"a,b,c";d;e')).toBe(';');
+  });
+
+  it('falls back to a comma for a single column', () => {
+    expect(detectDelimiter('leads')).toBe(',');
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b\n1,2\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('handles quoted fields, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCsv('name,note\n"Silva, Ana","said ""hi""\nthen left"')).toEqual([
+      ['name', 'note'],
+      ['Silva, Ana', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('accepts CRLF line endings, a byte order mark and a trailing newline', () => {
+    expect(parseCsv('\uFEFFa;b\r\n1;2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('drops blank lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n , \n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields and ragged rows', () => {
+    expect(parseCsv('a,b,c\n1,,3\n4')).toEqual([['a', 'b', 'c'], ['1', '', '3'], ['4']]);
+  });
+
+  it('reads an unterminated quote to the end of the file instead of throwing', () => {
+    expect(parseCsv('a,b\n"1,2\n3,4')).toEqual([['a', 'b'], ['1,2\n3,4']]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+// --- CSV Parsing ---
+// Small RFC 4180 parser for CRM exports: quoted fields, escaped quotes ("") and line breaks inside
+// quotes. Brazilian spreadsheets often export with ';', so the delimiter is detected from the header.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// Picks the candidate that appears most often in the first line, ignoring quoted text.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip the byte order mark some spreadsheet tools add
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not records
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
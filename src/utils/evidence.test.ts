@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { EvidenceItem } from '../data/evidence';
+import { findEvidenceFor, rankEvidence } from './evidence';
+
+const item = (id: string, extra: Partial<EvidenceItem>): EvidenceItem => ({
+  id,
+  source: id,
+  url: `https://example.com/${id}`,
+  claimKey: 'market.mit.claim',
+  tags: ['general'],
+  ...extra,
+});
+
+const CATALOG = [
+  item('general', {}),
+  item('follow-up', { tags: ['follow-up'] }),
+  item('response', { tags: ['response-time'] }),
+  item('b2b-response', { tags: ['response-time'], segments: ['saas'] }),
+  item('pt-only', { locales: ['pt-BR'] }),
+];
+
+const ids = (items: EvidenceItem[]) => items.map(({ id }) => id);
+
+describe('rankEvidence', () => {
+  it('puts the weakest area first and keeps the catalog order on ties', () => {
+    const result = { followUpStatus: 'CRITICAL' as const, responseStatus: 'WARNING' as const };
+    expect(ids(rankEvidence({ result, locale: 'en' }, CATALOG))).toEqual(['follow-up', 'response', 'b2b-response', 'general']);
+  });
+
+  it('ranks the studies for the chosen segment higher', () => {
+    const result = { followUpStatus: 'CRITICAL' as const, responseStatus: 'WARNING' as const };
+    expect(ids(rankEvidence({ result, locale: 'en', segment: 'saas' }, CATALOG))[0]).toBe('b2b-response');
+  });
+
+  it('lets general items lead when nothing stands out', () => {
+    const result = { followUpStatus: 'ADEQUATE' as const, responseStatus: 'EXCELLENT' as const };
+    expect(ids(rankEvidence({ result, locale: 'en' }, CATALOG))[0]).toBe('general');
+  });
+
+  it('only shows locale-restricted items in their languages', () => {
+    const result = { followUpStatus: 'ADEQUATE' as const, responseStatus: 'GOOD' as const };
+    expect(ids(rankEvidence({ result, locale: 'pt-BR' }, CATALOG))).toContain('pt-only');
+    expect(ids(rankEvidence({ result, locale: 'es' }, CATALOG))).not.toContain('pt-only');
+  });
+});
+
+describe('findEvidenceFor', () => {
+  it('picks the first ranked item with the tag', () => {
+    expect(findEvidenceFor(CATALOG, 'response-time')?.id).toBe('response');
+    expect(findEvidenceFor(CATALOG.slice(0, 1), 'follow-up')).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { EVIDENCE, EvidenceItem, EvidenceTag } from '../data/evidence';
+import { CalculationResult } from '../engine/diagnostic';
+import { Locale } from '../i18n';
+
+// --- Evidence Selection ---
+// Ranks the catalog for a result: items about the weakest area come first, items that speak to
+// the chosen segment get a boost, and ties keep the catalog order.
+
+export interface EvidenceContext {
+  result: Pick<CalculationResult, 'followUpStatus' | 'responseStatus'>;
+  locale: Locale;
+  segment?: string | null;
+}
+
+// How much a status calls for supporting evidence; healthy statuses weigh nothing
+const STATUS_WEIGHT: Record<string, number> = {
+  CRITICAL: 3,
+  WARNING: 2,
+  IMPROVE: 1,
+};
+
+const SEGMENT_BONUS = 2;
+
+const getTagWeight = (tag: EvidenceTag, { result }: EvidenceContext) => {
+  if (tag === 'follow-up') return STATUS_WEIGHT[result.followUpStatus] ?? 0;
+  if (tag === 'response-time') return STATUS_WEIGHT[result.responseStatus] ?? 0;
+  return 1; // General items fill in when nothing stands out
+};
+
+const isAvailable = (item: EvidenceItem, { locale }: EvidenceContext) => !item.locales || item.locales.includes(locale);
+
+const matchesSegment = (item: EvidenceItem, { segment }: EvidenceContext) => !!segment && !!item.segments?.includes(segment);
+
+export const rankEvidence = (context: EvidenceContext, catalog: EvidenceItem[] = EVIDENCE): EvidenceItem[] =>
+  catalog
+    .filter((item) => isAvailable(item, context))
+    .map((item, index) => ({
+      item,
+      index,
+      score:
+        item.tags.reduce((max, tag) => Math.max(max, getTagWeight(tag, context)), 0) +
+        (matchesSegment(item, context) ? SEGMENT_BONUS : 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+
+// First ranked item supporting a tag, e.g. to cite it next to the matching loss card.
+export const findEvidenceFor = (ranked: EvidenceItem[], tag: EvidenceTag) => ranked.find((item) => item.tags.includes(tag));
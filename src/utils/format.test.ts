@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { formatNumber, formatTime, getMaskedCaret, maskLocaleNumber, parseLocaleNumber } from './format';
+
+describe('parseLocaleNumber', () => {
+  it('reads the locale separators', () => {
+    expect(parseLocaleNumber('5.000,00', 'pt-BR')).toBe(5000);
+    expect(parseLocaleNumber('7,5', 'pt-BR')).toBe(7.5);
+    expect(parseLocaleNumber('5,000.50', 'en-US')).toBe(5000.5);
+    expect(parseLocaleNumber('1.234.567', 'es-ES')).toBe(1234567);
+  });
+
+  it('reads a lone group separator before one or two digits as a decimal point', () => {
+    expect(parseLocaleNumber('7.5', 'pt-BR')).toBe(7.5);
+    expect(parseLocaleNumber('7.50', 'pt-BR')).toBe(7.5);
+    expect(parseLocaleNumber('7.500', 'pt-BR')).toBe(7500);
+    expect(parseLocaleNumber('7,5', 'en-US')).toBe(7.5);
+  });
+
+  it('ignores currency symbols and spaces', () => {
+    expect(parseLocaleNumber('R$ 5.000', 'pt-BR')).toBe(5000);
+    expect(parseLocaleNumber(' $1,200 ', 'en-US')).toBe(1200);
+  });
+
+  it('is NaN without digits', () => {
+    expect(parseLocaleNumber('', 'pt-BR')).toBeNaN();
+    expect(parseLocaleNumber('R$', 'pt-BR')).toBeNaN();
+    expect(parseLocaleNumber(',', 'pt-BR')).toBeNaN();
+  });
+});
+
+describe('maskLocaleNumber', () => {
+  it('groups digits as they are typed', () => {
+    expect(maskLocaleNumber('5000', 'pt-BR')).toBe('5.000');
+    expect(maskLocaleNumber('50000', 'en-US')).toBe('50,000');
+    expect(maskLocaleNumber('5.0000', 'pt-BR')).toBe('50.000');
+  });
+
+  it('follows the locale grouping rules', () => {
+    expect(maskLocaleNumber('5000', 'es-ES')).toBe('5000');
+    expect(maskLocaleNumber('15000', 'es-ES')).toBe('15.000');
+  });
+
+  it('keeps a trailing decimal separator and up to two decimals', () => {
+    expect(maskLocaleNumber('5000,', 'pt-BR')).toBe('5.000,');
+    expect(maskLocaleNumber('5000,0', 'pt-BR')).toBe('5.000,0');
+    expect(maskLocaleNumber('5000,509', 'pt-BR')).toBe('5.000,50');
+  });
+
+  it('drops leading zeros', () => {
+    expect(maskLocaleNumber('0050', 'pt-BR')).toBe('50');
+  });
+
+  it('leaves text that is not a plain number alone', () => {
+    expect(maskLocaleNumber('', 'pt-BR')).toBe('');
+    expect(maskLocaleNumber('abc', 'pt-BR')).toBe('abc');
+    expect(maskLocaleNumber('R$ 5000', 'pt-BR')).toBe('R$ 5000');
+    expect(maskLocaleNumber('1,2,3', 'pt-BR')).toBe('1,2,3');
+    expect(maskLocaleNumber('7.5', 'pt-BR')).toBe('7.5');
+  });
+
+  it('masks to text that parses back to the same number', () => {
+    ['5000', '1234567', '5000,5', '7.5'].forEach((text) => {
+      expect(parseLocaleNumber(maskLocaleNumber(text, 'pt-BR'), 'pt-BR')).toBe(parseLocaleNumber(text, 'pt-BR'));
+    });
+  });
+});
+
+describe('getMaskedCaret', () => {
+  const typed = (text: string, caret: number, locale = 'pt-BR') => {
+    const masked = maskLocaleNumber(text, locale);
+    return { masked, caret: getMaskedCaret(text, caret, masked, locale) };
+  };
+
+  it('keeps the caret at the end while typing at the end', () => {
+    expect(typed('5000', 4)).toEqual({ masked: '5.000', caret: 5 });
+    expect(typed('5.0000', 6)).toEqual({ masked: '50.000', caret: 6 });
+  });
+
+  it('keeps the caret after the digit just typed in the middle', () => {
+    // "5.|000" + "1" → "5.1|000" → "51.000" with the caret after the 1
+    expect(typed('5.1000', 3)).toEqual({ masked: '51.000', caret: 2 });
+  });
+
+  it('keeps the caret after a deleted group separator', () => {
+    // Backspace after the dot in "50.000" leaves "50000" with the caret after "50"
+    expect(typed('50000', 2)).toEqual({ masked: '50.000', caret: 2 });
+  });
+
+  it('keeps the caret after a decimal separator just typed', () => {
+    expect(typed('5.000,', 6)).toEqual({ masked: '5.000,', caret: 6 });
+    expect(typed('5000,', 5)).toEqual({ masked: '5.000,', caret: 6 });
+  });
+
+  it('stays inside the masked text', () => {
+    expect(typed('0050', 4)).toEqual({ masked: '50', caret: 2 });
+    expect(getMaskedCaret('5000', 0, '5.000')).toBe(0);
+  });
+});
+
+describe('formatNumber', () => {
+  it('groups like the locale and keeps up to two decimals', () => {
+    expect(formatNumber(5000, 'pt-BR')).toBe('5.000');
+    expect(formatNumber(7.456, 'en-US')).toBe('7.46');
+  });
+});
+
+describe('formatTime', () => {
+  it('shows minutes, hours or both', () => {
+    expect(formatTime(45)).toBe('45 min');
+    expect(formatTime(120)).toBe('2h');
+    expect(formatTime(90.4)).toBe('1h 30min');
+  });
+});
@@ -0,0 +1,86 @@
+// Locale and currency default to the original pt-BR/BRL so non-UI callers keep working unchanged.
+
+export const formatCurrency = (value: number, locale = 'pt-BR', currency = 'BRL') => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+export const formatTime = (value: number) => {
+  // Blended or imported times can be fractional
+  const minutes = Math.round(value);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}min` : `${hours}h`;
+};
+
+export const formatCompactCurrency = (value: number, locale = 'pt-BR', currency = 'BRL') => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+};
+
+export const getCurrencySymbol = (locale = 'pt-BR', currency = 'BRL') => {
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find((part) => part.type === 'currency')?.value ?? currency;
+};
+
+// Up to two decimals, grouped like the locale writes numbers: 5.000 / 7,5 in pt-BR
+export const formatNumber = (value: number, locale = 'pt-BR') =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+
+const getSeparators = (locale: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+// Reads numbers typed the way the locale writes them ("5.000,00" in pt-BR, "5,000.00" in en),
+// ignoring currency symbols and spaces. A lone group separator followed by one or two digits is
+// read as a decimal point, so "7.5" still means 7,5 in pt-BR. NaN when there is no number.
+export const parseLocaleNumber = (text: string, locale = 'pt-BR') => {
+  const { group, decimal } = getSeparators(locale);
+  let cleaned = text.replace(/\s/g, '');
+  const groups = cleaned.split(group).length - 1;
+  if (!cleaned.includes(decimal) && groups === 1 && new RegExp(`\\${group}\\d{1,2}$`).test(cleaned)) {
+    cleaned = cleaned.replace(group, decimal);
+  }
+  cleaned = cleaned.split(group).join('').replace(decimal, '.').replace(/[^\d.-]/g, '');
+  return /\d/.test(cleaned) ? Number(cleaned) : NaN;
+};
+
+// Regroups a number as it is typed, so "5000" shows as "5.000" in pt-BR while the caret is still
+// in the field. Up to two decimals are kept after the locale's separator, including a trailing
+// separator or zeros still being typed. Text that isn't a plain number, or a lone group separator
+// that `parseLocaleNumber` reads as a decimal point ("7.5"), is left alone.
+export const maskLocaleNumber = (text: string, locale = 'pt-BR') => {
+  const { group, decimal } = getSeparators(locale);
+  const [integerPart, ...rest] = text.replace(/\s/g, '').split(decimal);
+  const integerDigits = integerPart.split(group).join('');
+  if (!/^\d+$/.test(integerDigits) || rest.length > 1 || (rest.length === 1 && !/^\d*$/.test(rest[0]))) return text;
+  if (!rest.length && new RegExp(`^\\d+\\${group}\\d{1,2}$`).test(integerPart)) return text;
+
+  const grouped = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }).format(Number(integerDigits));
+  return rest.length ? `${grouped}${decimal}${rest[0].slice(0, 2)}` : grouped;
+};
+
+// Where the caret goes once `text`, with the caret at `caret`, has been masked to `masked`: after
+// the same digits and decimal separator, wherever the group separators moved to.
+export const getMaskedCaret = (text: string, caret: number, masked: string, locale = 'pt-BR') => {
+  const { decimal } = getSeparators(locale);
+  const isSignificant = (char: string) => /\d/.test(char) || char === decimal;
+  const before = [...text.slice(0, caret)].filter(isSignificant).length;
+  let position = 0;
+  for (let seen = 0; position < masked.length && seen < before; position++) {
+    if (isSignificant(masked[position])) seen++;
+  }
+  return position;
+};
@@ -0,0 +1,25 @@
+import { DiagnosticInputs, INPUT_KEYS } from '../engine/diagnostic';
+import { I18n, MessageKey } from '../i18n';
+
+// --- Input Labels ---
+const INPUT_LABEL_KEYS: Record<keyof DiagnosticInputs, MessageKey> = {
+  leads: 'inputs.leads',
+  conversion: 'inputs.conversion',
+  ticket: 'inputs.ticket',
+  followUps: 'inputs.followUps',
+  responseTime: 'inputs.responseTime',
+};
+
+export const getInputLabel = (key: keyof DiagnosticInputs, { t }: I18n) => t(INPUT_LABEL_KEYS[key]);
+
+export const formatInputValue = (key: keyof DiagnosticInputs, value: number, i18n: I18n) => {
+  switch (key) {
+    case 'conversion': return `${Number(value.toFixed(1)).toLocaleString(i18n.intlLocale)}%`;
+    case 'ticket': return i18n.formatCurrency(value);
+    case 'responseTime': return i18n.formatTime(Math.round(value));
+    default: return Number(value.toFixed(1)).toLocaleString(i18n.intlLocale);
+  }
+};
+
+export const getInputRows = (inputs: DiagnosticInputs, i18n: I18n) =>
+  INPUT_KEYS.map((key) => ({ key, label: getInputLabel(key, i18n), value: formatInputValue(key, inputs[key], i18n) }));
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CADENCE } from '../engine/cadence';
+import { DEFAULT_CHANNELS } from '../engine/channels';
+import { DEFAULT_INPUTS, INPUT_RANGES } from '../engine/diagnostic';
+import { DEFAULT_FUNNEL } from '../engine/funnel';
+import { DEFAULT_RESPONSE_DISTRIBUTION } from '../engine/responseDistribution';
+import { DEFAULT_TEAM } from '../engine/team';
+import {
+  hasStateInSearch,
+  parseCadenceFromSearch,
+  parseChannelsFromSearch,
+  parseCostsFromSearch,
+  parseGuidedFromSearch,
+  parseInputsFromSearch,
+  parseStateFromSearch,
+  parseTeamFromSearch,
+  serializeInputs,
+  ShareModes,
+} from './shareLink';
+
+const INPUTS = { leads: 250, conversion: 7.5, ticket: 3200, followUps: 4, responseTime: 180 };
+
+const roundTrip = (modes: ShareModes) => parseStateFromSearch(`?${serializeInputs(INPUTS, '', modes)}`);
+
+describe('share link round trip', () => {
+  it('keeps the inputs', () => {
+    expect(roundTrip({}).inputs).toEqual(INPUTS);
+  });
+
+  it('keeps the channels', () => {
+    expect(roundTrip({ channels: DEFAULT_CHANNELS }).channels).toEqual(DEFAULT_CHANNELS);
+  });
+
+  it('keeps the funnel', () => {
+    expect(roundTrip({ funnel: DEFAULT_FUNNEL }).funnel).toEqual(DEFAULT_FUNNEL);
+  });
+
+  it('keeps the response time distribution', () => {
+    expect(roundTrip({ responseDistribution: DEFAULT_RESPONSE_DISTRIBUTION }).responseDistribution)
+      .toEqual(DEFAULT_RESPONSE_DISTRIBUTION);
+  });
+
+  it('keeps the team, including names with separators, accents and spaces', () => {
+    const team = [
+      { ...DEFAULT_TEAM[0], name: ' João: 50%, SP ' },
+      { ...DEFAULT_TEAM[1], id: 'rep-2', name: '' },
+    ];
+    expect(roundTrip({ team }).team).toEqual(team);
+  });
+
+  it('keeps the cadence', () => {
+    expect(roundTrip({ cadence: DEFAULT_CADENCE }).cadence).toEqual(DEFAULT_CADENCE);
+  });
+
+  it('keeps both acquisition cost bases', () => {
+    const monthly = { basis: 'monthly' as const, marketing: 12000, salesTeam: 30000 };
+    const perLead = { basis: 'perLead' as const, marketing: 45, salesTeam: 0 };
+    expect(roundTrip({ costs: monthly }).costs).toEqual(monthly);
+    expect(roundTrip({ costs: perLead }).costs).toEqual(perLead);
+  });
+
+  it('keeps the segment', () => {
+    expect(roundTrip({ segment: 'saas' }).segment).toBe('saas');
+  });
+
+  it('keeps guided mode', () => {
+    expect(parseGuidedFromSearch(`?${serializeInputs(INPUTS, '', { guided: true })}`)).toBe(true);
+  });
+
+  it('keeps every single-operation mode together', () => {
+    const modes = {
+      funnel: DEFAULT_FUNNEL,
+      responseDistribution: DEFAULT_RESPONSE_DISTRIBUTION,
+      cadence: DEFAULT_CADENCE,
+      costs: { basis: 'monthly' as const, marketing: 5000, salesTeam: 10000 },
+      segment: 'retail',
+    };
+    expect(roundTrip(modes)).toEqual({ inputs: INPUTS, channels: null, team: null, ...modes });
+  });
+
+  it('removes modes that were turned off and keeps unrelated parameters', () => {
+    const search = `?lang=en&${serializeInputs(INPUTS, '', { funnel: DEFAULT_FUNNEL, cadence: DEFAULT_CADENCE, guided: true })}`;
+    const params = new URLSearchParams(serializeInputs(INPUTS, search, {}));
+    expect(params.get('lang')).toBe('en');
+    expect(params.has('funnel')).toBe(false);
+    expect(params.has('cadence')).toBe(false);
+    expect(params.has('mode')).toBe(false);
+  });
+});
+
+describe('parseStateFromSearch', () => {
+  it('turns the team and funnel off in channel mode but keeps the cadence', () => {
+    const search = `?${serializeInputs(INPUTS, '', { channels: DEFAULT_CHANNELS, team: DEFAULT_TEAM, funnel: DEFAULT_FUNNEL, cadence: DEFAULT_CADENCE })}`;
+    const state = parseStateFromSearch(search);
+    expect(state.channels).toEqual(DEFAULT_CHANNELS);
+    expect([state.team, state.funnel]).toEqual([null, null]);
+    expect(state.cadence).toEqual(DEFAULT_CADENCE);
+  });
+
+  it('turns the funnel, distribution and cadence off in team mode', () => {
+    const search = `?${serializeInputs(INPUTS, '', { team: DEFAULT_TEAM, funnel: DEFAULT_FUNNEL, responseDistribution: DEFAULT_RESPONSE_DISTRIBUTION, cadence: DEFAULT_CADENCE })}`;
+    const state = parseStateFromSearch(search);
+    expect(state.team).toEqual(DEFAULT_TEAM);
+    expect([state.funnel, state.responseDistribution, state.cadence]).toEqual([null, null, null]);
+  });
+});
+
+describe('parseInputsFromSearch', () => {
+  it('keeps the fallback for missing or non-numeric values', () => {
+    expect(parseInputsFromSearch('?leads=abc&ticket=&conversion=12')).toEqual({ ...DEFAULT_INPUTS, conversion: 12 });
+  });
+
+  it('clamps out-of-range values', () => {
+    const inputs = parseInputsFromSearch('?leads=999999&conversion=-3&responseTime=0');
+    expect(inputs.leads).toBe(INPUT_RANGES.leads.max);
+    expect(inputs.conversion).toBe(INPUT_RANGES.conversion.min);
+    expect(inputs.responseTime).toBe(INPUT_RANGES.responseTime.min);
+  });
+});
+
+describe('malformed modes', () => {
+  it('skips unknown, duplicate and incomplete channels', () => {
+    expect(parseChannelsFromSearch('?channels=fax:1:2:3,whatsapp:50:8:120,whatsapp:1:1:1,website:30:10')).toEqual([
+      { id: 'whatsapp', leads: 50, conversion: 8, responseTime: 120 },
+    ]);
+  });
+
+  it('skips reps with bad numbers or escape sequences', () => {
+    const team = parseTeamFromSearch('?team=Ana:40:12:5:15,%E0%A4%A:1:1:1:1,Bruno:x:1:1:1,Carla:1:1:1');
+    expect(team?.map((rep) => rep.name)).toEqual(['Ana']);
+  });
+
+  it('skips touches with unknown channels or missing days', () => {
+    expect(parseCadenceFromSearch('?cadence=3:call,x:email,2:fax,:call,5:email:x,120:whatsapp')).toEqual([
+      { id: 'touch-1', day: 3, channel: 'call' },
+      { id: 'touch-2', day: 90, channel: 'whatsapp' },
+    ]);
+  });
+
+  it('rejects costs with an unknown basis or missing values', () => {
+    expect(parseCostsFromSearch('?costs=yearly:1:2')).toBeNull();
+    expect(parseCostsFromSearch('?costs=monthly:1')).toBeNull();
+    expect(parseCostsFromSearch('?costs=monthly:x:2')).toBeNull();
+  });
+
+  it('ignores unknown segments', () => {
+    expect(parseStateFromSearch('?segment=astrology').segment).toBeNull();
+  });
+});
+
+describe('hasStateInSearch', () => {
+  it('is false for links that only set presentation options', () => {
+    expect(hasStateInSearch('?lang=en&theme=acme&mode=guided')).toBe(false);
+    expect(hasStateInSearch('?lang=en&cadence=0:call')).toBe(true);
+  });
+});
@@ -0,0 +1,267 @@
+import { getSegmentPreset } from '../data/segmentPresets';
+import { AcquisitionCosts, clampAcquisitionValue, isMarketingCostBasis } from '../engine/acquisition';
+import { CadenceTouch, clampCadenceDay, isTouchChannel, MAX_TOUCHES } from '../engine/cadence';
+import { clampChannelInput, isChannelId, LeadChannel } from '../engine/channels';
+import { clampInput, DEFAULT_INPUTS, DiagnosticInputs, INPUT_KEYS } from '../engine/diagnostic';
+import { clampFunnelRate, FUNNEL_RATE_KEYS, FunnelRates } from '../engine/funnel';
+import { clampRepInput, MAX_REP_NAME_LENGTH, MAX_REPS, REP_INPUT_KEYS, SalesRep } from '../engine/team';
+import { BOUNDED_BUCKET_IDS, clampDistributionValue, ResponseDistribution } from '../engine/responseDistribution';
+
+// --- Shareable Links ---
+// Inputs are stored in the query string under their own names, e.g. ?leads=100&conversion=10
+// Multi-channel mode adds ?channels=whatsapp:50:8:120,website:30:10:60 (id:leads:conversion:responseTime)
+// Funnel mode adds ?funnel=80:50:50:50 (contacted:qualified:proposal:won)
+// A response time distribution adds ?responseDist=20:45:65:85:95 (% within 5m:30m:1h:3h:24h)
+// Team mode adds ?team=Ana:40:12:5:15,Bruno:35:8:2:90 (name:leads:conversion:followUps:responseTime,
+// with %, : and , in names percent-encoded)
+// A follow-up cadence adds ?cadence=0:call,1:whatsapp,3:email (day:channel)
+// Marketing and sales costs add ?costs=monthly:10000:20000 or ?costs=perLead:50:20000
+// (basis:marketing:salesTeam)
+// A segment preset adds ?segment=saas
+// The guided wizard adds ?mode=guided
+
+// Optional modes carried alongside the inputs; null or missing means the mode is off
+export interface ShareModes {
+  channels?: LeadChannel[] | null;
+  funnel?: FunnelRates | null;
+  responseDistribution?: ResponseDistribution | null;
+  team?: SalesRep[] | null;
+  cadence?: CadenceTouch[] | null;
+  costs?: AcquisitionCosts | null;
+  segment?: string | null;
+  guided?: boolean;
+}
+
+export const parseInputsFromSearch = (search: string, fallback: DiagnosticInputs = DEFAULT_INPUTS): DiagnosticInputs => {
+  const params = new URLSearchParams(search);
+  const inputs = { ...fallback };
+
+  INPUT_KEYS.forEach((key) => {
+    const raw = params.get(key);
+    if (raw === null || raw.trim() === '') return;
+    const value = Number(raw);
+    // Anything that is not a number keeps the fallback; out-of-range values are clamped.
+    if (!Number.isFinite(value)) return;
+    inputs[key] = clampInput(key, value);
+  });
+
+  return inputs;
+};
+
+// Returns null when the link has no (valid) channel list, i.e. single-channel mode.
+export const parseChannelsFromSearch = (search: string): LeadChannel[] | null => {
+  const raw = new URLSearchParams(search).get('channels');
+  if (!raw) return null;
+
+  const channels: LeadChannel[] = [];
+  for (const entry of raw.split(',')) {
+    const [id, ...values] = entry.split(':');
+    const [leads, conversion, responseTime] = values.map(Number);
+    if (!isChannelId(id) || values.length !== 3 || ![leads, conversion, responseTime].every(Number.isFinite)) continue;
+    if (channels.some((c) => c.id === id)) continue;
+    channels.push({
+      id,
+      leads: clampChannelInput('leads', leads),
+      conversion: clampChannelInput('conversion', conversion),
+      responseTime: clampChannelInput('responseTime', responseTime),
+    });
+  }
+  return channels.length > 0 ? channels : null;
+};
+
+export const parseFunnelFromSearch = (search: string): FunnelRates | null => {
+  const raw = new URLSearchParams(search).get('funnel');
+  if (!raw) return null;
+  const values = raw.split(':').map(Number);
+  if (values.length !== FUNNEL_RATE_KEYS.length || !values.every(Number.isFinite)) return null;
+  const [contacted, qualified, proposal, won] = values.map(clampFunnelRate);
+  return { contacted, qualified, proposal, won };
+};
+
+export const parseDistributionFromSearch = (search: string): ResponseDistribution | null => {
+  const raw = new URLSearchParams(search).get('responseDist');
+  if (!raw) return null;
+  const values = raw.split(':').map(Number);
+  if (values.length !== BOUNDED_BUCKET_IDS.length || !values.every(Number.isFinite)) return null;
+  const distribution = {} as ResponseDistribution;
+  BOUNDED_BUCKET_IDS.forEach((id, i) => {
+    distribution[id] = clampDistributionValue(values[i]);
+  });
+  return distribution;
+};
+
+// Returns null when the link has no (valid) reps, i.e. team mode is off.
+export const parseTeamFromSearch = (search: string): SalesRep[] | null => {
+  const raw = new URLSearchParams(search).get('team');
+  if (!raw) return null;
+
+  const team: SalesRep[] = [];
+  for (const entry of raw.split(',').slice(0, MAX_REPS)) {
+    const [encodedName, ...values] = entry.split(':');
+    const [leads, conversion, followUps, responseTime] = values.map(Number);
+    if (values.length !== 4 || ![leads, conversion, followUps, responseTime].every(Number.isFinite)) continue;
+    let name: string;
+    try {
+      // Kept as typed, spaces included, so undo and autosave restore exactly what was serialized
+      name = decodeURIComponent(encodedName).slice(0, MAX_REP_NAME_LENGTH);
+    } catch {
+      continue; // Malformed escape sequence
+    }
+    team.push({
+      id: `rep-${team.length + 1}`,
+      name,
+      leads: clampRepInput('leads', leads),
+      conversion: clampRepInput('conversion', conversion),
+      followUps: clampRepInput('followUps', followUps),
+      responseTime: clampRepInput('responseTime', responseTime),
+    });
+  }
+  return team.length > 0 ? team : null;
+};
+
+// Returns null when the link has no (valid) touches, i.e. the follow-up count is used.
+export const parseCadenceFromSearch = (search: string): CadenceTouch[] | null => {
+  const raw = new URLSearchParams(search).get('cadence');
+  if (!raw) return null;
+
+  const cadence: CadenceTouch[] = [];
+  for (const entry of raw.split(',').slice(0, MAX_TOUCHES)) {
+    const [day, channel, ...rest] = entry.split(':');
+    if (rest.length > 0 || !channel || !isTouchChannel(channel) || day.trim() === '' || !Number.isFinite(Number(day))) continue;
+    cadence.push({ id: `touch-${cadence.length + 1}`, day: clampCadenceDay(Number(day)), channel });
+  }
+  return cadence.length > 0 ? cadence : null;
+};
+
+export const parseCostsFromSearch = (search: string): AcquisitionCosts | null => {
+  const raw = new URLSearchParams(search).get('costs');
+  if (!raw) return null;
+  const [basis, ...rest] = raw.split(':');
+  const [marketing, salesTeam] = rest.map(Number);
+  if (!isMarketingCostBasis(basis) || rest.length !== 2 || ![marketing, salesTeam].every(Number.isFinite)) return null;
+  return {
+    basis,
+    marketing: clampAcquisitionValue(basis, marketing),
+    salesTeam: clampAcquisitionValue('salesTeam', salesTeam),
+  };
+};
+
+// Only ids with a preset; anything else means the generic benchmarks
+export const parseSegmentFromSearch = (search: string): string | null =>
+  getSegmentPreset(new URLSearchParams(search).get('segment'))?.id ?? null;
+
+// Everything a link describes apart from the wizard. Channel mode turns the team, funnel and
+// distribution off, and team mode the funnel, distribution and cadence, since reps have their own
+// conversion, cadence and response time.
+export interface DiagnosticState {
+  inputs: DiagnosticInputs;
+  channels: LeadChannel[] | null;
+  funnel: FunnelRates | null;
+  responseDistribution: ResponseDistribution | null;
+  team: SalesRep[] | null;
+  cadence: CadenceTouch[] | null;
+  costs: AcquisitionCosts | null;
+  segment: string | null;
+}
+
+export const parseStateFromSearch = (search: string): DiagnosticState => {
+  const channels = parseChannelsFromSearch(search);
+  const team = channels ? null : parseTeamFromSearch(search);
+  const single = !channels && !team;
+  return {
+    inputs: parseInputsFromSearch(search),
+    channels,
+    funnel: single ? parseFunnelFromSearch(search) : null,
+    responseDistribution: single ? parseDistributionFromSearch(search) : null,
+    team,
+    cadence: team ? null : parseCadenceFromSearch(search),
+    costs: parseCostsFromSearch(search),
+    segment: parseSegmentFromSearch(search),
+  };
+};
+
+const STATE_PARAMS = [...INPUT_KEYS, 'channels', 'funnel', 'responseDist', 'team', 'cadence', 'costs', 'segment'];
+
+// False for links that only set the language, theme or the like
+export const hasStateInSearch = (search: string) => {
+  const params = new URLSearchParams(search);
+  return STATE_PARAMS.some((key) => params.has(key));
+};
+
+export const parseGuidedFromSearch = (search: string) => new URLSearchParams(search).get('mode') === 'guided';
+
+export const serializeInputs = (inputs: DiagnosticInputs, search = '', modes: ShareModes = {}) => {
+  const { channels, funnel, responseDistribution, team, cadence, costs, segment, guided } = modes;
+  const params = new URLSearchParams(search);
+  INPUT_KEYS.forEach((key) => params.set(key, String(inputs[key])));
+  if (channels) {
+    params.set('channels', channels.map((c) => [c.id, c.leads, c.conversion, c.responseTime].join(':')).join(','));
+  } else {
+    params.delete('channels');
+  }
+  if (funnel) {
+    params.set('funnel', FUNNEL_RATE_KEYS.map((key) => funnel[key]).join(':'));
+  } else {
+    params.delete('funnel');
+  }
+  if (responseDistribution) {
+    params.set('responseDist', BOUNDED_BUCKET_IDS.map((id) => responseDistribution[id]).join(':'));
+  } else {
+    params.delete('responseDist');
+  }
+  if (team) {
+    params.set('team', team.map((rep) => [rep.name.replace(/[%:,]/g, encodeURIComponent), ...REP_INPUT_KEYS.map((key) => rep[key])].join(':')).join(','));
+  } else {
+    params.delete('team');
+  }
+  if (cadence) {
+    params.set('cadence', cadence.map((touch) => `${touch.day}:${touch.channel}`).join(','));
+  } else {
+    params.delete('cadence');
+  }
+  if (costs) {
+    params.set('costs', [costs.basis, costs.marketing, costs.salesTeam].join(':'));
+  } else {
+    params.delete('costs');
+  }
+  if (segment) {
+    params.set('segment', segment);
+  } else {
+    params.delete('segment');
+  }
+  if (guided) {
+    params.set('mode', 'guided');
+  } else {
+    params.delete('mode');
+  }
+  return params.toString();
+};
+
+export const buildShareUrl = (inputs: DiagnosticInputs, modes: ShareModes = {}, location: Location = window.location) => {
+  return `${location.origin}${location.pathname}?${serializeInputs(inputs, location.search, modes)}${location.hash}`;
+};
+
+// Keeps the address bar in sync without adding a history entry per slider tick.
+export const replaceUrlInputs = (inputs: DiagnosticInputs, modes: ShareModes = {}) => {
+  const { pathname, search, hash } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}?${serializeInputs(inputs, search, modes)}${hash}`);
+};
+
+export const copyToClipboard = async (text: string) => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  // Fallback for non-secure contexts where the Clipboard API is unavailable.
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'absolute';
+  textarea.style.left = '-9999px';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const ok = document.execCommand('copy');
+  document.body.removeChild(textarea);
+  if (!ok) throw new Error('Clipboard unavailable');
+};
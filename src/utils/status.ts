@@ -0,0 +1,47 @@
+import { CalculationResult, DEFAULT_COEFFICIENTS, ModelCoefficients } from '../engine/diagnostic';
+import { I18n, MessageKey } from '../i18n';
+
+// --- Helpers for Styles ---
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'CRITICAL': return 'bg-red-600';
+    case 'WARNING': return 'bg-orange-500';
+    case 'IMPROVE': return 'bg-yellow-500'; // Legacy fallback
+    case 'GOOD': return 'bg-yellow-500';
+    case 'ADEQUATE': return 'bg-emerald-700';
+    case 'EXCELLENT': return 'bg-emerald-700';
+    default: return 'bg-gray-500';
+  }
+};
+
+const STATUS_KEYS = ['CRITICAL', 'WARNING', 'IMPROVE', 'GOOD', 'ADEQUATE', 'EXCELLENT'];
+
+export const getStatusLabel = (status: string, { t }: I18n) => {
+  return STATUS_KEYS.includes(status) ? t(`status.${status}` as MessageKey) : '';
+};
+
+// --- Advice Copy ---
+// Benchmarks come from the coefficients, so segment presets change the advice with the thresholds
+export const getFollowUpAdvice = (
+  result: CalculationResult,
+  followUps: number,
+  { t, intlLocale }: I18n,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+) => {
+  return result.followUpStatus === 'ADEQUATE'
+    ? t('advice.followUpAdequate')
+    : t('advice.followUpLow', { followUps: followUps.toLocaleString(intlLocale, { maximumFractionDigits: 1 }), ideal: coefficients.followUp.idealAttempts });
+};
+
+export const getResponseAdvice = (
+  result: CalculationResult,
+  responseTime: number,
+  { t, formatTime }: I18n,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+) => {
+  return result.responseStatus === 'EXCELLENT'
+    ? t('advice.responseExcellent')
+    : result.responseStatus === 'GOOD'
+    ? t('advice.responseGood', { time: formatTime(responseTime) })
+    : t('advice.responseSlow', { time: formatTime(responseTime), ideal: formatTime(coefficients.response.excellentMinutes) });
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createUndoStack, pushUndo, redo, undo } from './undoStack';
+
+describe('undo stack', () => {
+  it('walks back and forth through the pushed states', () => {
+    const stack = pushUndo(pushUndo(createUndoStack('a'), 'b'), 'c');
+    expect(undo(stack).present).toBe('b');
+    expect(undo(undo(stack)).present).toBe('a');
+    expect(redo(undo(undo(stack)))).toEqual({ past: ['a'], present: 'b', future: ['c'] });
+  });
+
+  it('leaves the stack alone at either end', () => {
+    const stack = createUndoStack(1);
+    expect(undo(stack)).toBe(stack);
+    expect(redo(stack)).toBe(stack);
+  });
+
+  it('ignores a push of the present state', () => {
+    const state = { leads: 100 };
+    const stack = createUndoStack(state);
+    expect(pushUndo(stack, state)).toBe(stack);
+  });
+
+  it('drops the redo branch on a new push', () => {
+    const stack = pushUndo(undo(pushUndo(createUndoStack('a'), 'b')), 'c');
+    expect(stack).toEqual({ past: ['a'], present: 'c', future: [] });
+  });
+
+  it('keeps at most 50 steps of history', () => {
+    let stack = createUndoStack(0);
+    for (let i = 1; i <= 60; i++) stack = pushUndo(stack, i);
+    expect(stack.past).toHaveLength(50);
+    expect(stack.past[0]).toBe(10);
+  });
+});
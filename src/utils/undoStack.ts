@@ -0,0 +1,36 @@
+// --- Undo Stack ---
+// Past and future states around the present one. Pushing a new state drops the redo branch.
+
+export interface UndoStack<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_UNDO_STEPS = 50;
+
+export const createUndoStack = <T>(present: T): UndoStack<T> => ({ past: [], present, future: [] });
+
+// No-op when `next` is already the present state
+export const pushUndo = <T>(stack: UndoStack<T>, next: T): UndoStack<T> =>
+  next === stack.present
+    ? stack
+    : { past: [...stack.past, stack.present].slice(-MAX_UNDO_STEPS), present: next, future: [] };
+
+export const undo = <T>(stack: UndoStack<T>): UndoStack<T> => {
+  if (stack.past.length === 0) return stack;
+  return {
+    past: stack.past.slice(0, -1),
+    present: stack.past[stack.past.length - 1],
+    future: [stack.present, ...stack.future],
+  };
+};
+
+export const redo = <T>(stack: UndoStack<T>): UndoStack<T> => {
+  if (stack.future.length === 0) return stack;
+  return {
+    past: [...stack.past, stack.present],
+    present: stack.future[0],
+    future: stack.future.slice(1),
+  };
+};
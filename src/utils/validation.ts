@@ -0,0 +1,30 @@
+// --- Contact Validation ---
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+// Digits only, without the +55 country code.
+export const normalizeBrazilianPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 11 && digits.startsWith('55') ? digits.slice(2) : digits;
+};
+
+// DDD (11-99) followed by an 8-digit landline or a 9-digit mobile starting with 9.
+export const isValidBrazilianPhone = (phone: string) => {
+  const digits = normalizeBrazilianPhone(phone);
+  if (!/^[1-9][1-9]\d{8,9}$/.test(digits)) return false;
+  if (digits.length === 11) return digits[2] === '9';
+  return /^[2-5]$/.test(digits[2]);
+};
+
+// Progressive mask: (11) 98765-4321 or (11) 3456-7890
+export const formatBrazilianPhone = (phone: string) => {
+  const digits = normalizeBrazilianPhone(phone).slice(0, 11);
+  if (digits.length <= 2) return digits.length ? `(${digits}` : '';
+  const ddd = digits.slice(0, 2);
+  const rest = digits.slice(2);
+  if (rest.length <= 4) return `(${ddd}) ${rest}`;
+  const split = rest.length === 9 ? 5 : 4;
+  return `(${ddd}) ${rest.slice(0, split)}-${rest.slice(split)}`;
+};
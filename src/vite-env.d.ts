@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LEAD_ENDPOINT?: string;
+  readonly VITE_LEAD_MOCK?: string;
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string;
+  readonly VITE_THEME_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
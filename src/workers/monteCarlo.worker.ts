@@ -0,0 +1,9 @@
+import { runMonteCarlo } from '../engine/monteCarlo';
+import type { SimulationRequest, SimulationResponse } from '../services/simulation';
+
+// Runs the Monte Carlo loop off the main thread; see services/simulation.ts for the client.
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, inputs, uncertainty, coefficients } = event.data;
+  const response: SimulationResponse = { id, summary: runMonteCarlo(inputs, uncertainty, coefficients) };
+  self.postMessage(response);
+};
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Node build of the command-line entry point; see `npm run diagnose`
+export default defineConfig({
+  logLevel: 'warn',
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/diagnose.ts',
+    outDir: 'dist/cli',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'diagnose.js',
+      },
+    },
+  },
+});
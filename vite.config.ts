@@ -10,6 +10,16 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // The full-page app and the iframe app; the <abil-calculator> loader has its own
+          // build (vite.widget.config.ts)
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.html'),
+          },
+        },
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
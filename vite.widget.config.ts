@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// The <abil-calculator> loader as a single self-contained module, so host pages can load and
+// cache dist/widget.js on its own. Runs after the app build, into the same folder.
+export default defineConfig({
+  logLevel: 'warn',
+  publicDir: false,
+  build: {
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'src/embed/widget.ts'),
+      formats: ['es'],
+      fileName: () => 'widget.js',
+    },
+  },
+});